@@ -0,0 +1,254 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockStripe, draftInvoice } from '@tax-fitter/test-utils';
+import { run } from '../main';
+import { EXIT_CODES, exitCodeFor } from '../errors';
+import type { CliIo } from '../types';
+
+const createIo = (overrides: Partial<CliIo> = {}) => {
+  const output = { stdout: '', stderr: '' };
+  const io: CliIo = {
+    stdout: (text) => {
+      output.stdout += text;
+    },
+    stderr: (text) => {
+      output.stderr += text;
+    },
+    env: {},
+    readFile: vi.fn(),
+    createStripe: vi.fn(),
+    ...overrides,
+  };
+  return { io, output };
+};
+
+describe('tax-fitter calculate', () => {
+  it('should print the adjustment as a table', async () => {
+    const { io, output } = createIo();
+
+    const code = await run(
+      ['calculate', '--subtotal', '40000', '--target', '40000', '--rate', '10%'],
+      io
+    );
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(output.stdout).toBe(
+      [
+        'field             value',
+        'discount          3636',
+        'adjustedSubtotal  36364',
+        'taxAmount         3636',
+        'finalTotal        40000',
+        'isValid           true',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should print JSON with --format json', async () => {
+    const { io, output } = createIo();
+
+    await run(
+      ['calculate', '--subtotal', '1000', '--target', '1089', '--rate', '1/10', '--format', 'json'],
+      io
+    );
+
+    expect(JSON.parse(output.stdout)).toMatchObject({
+      discount: 10,
+      taxAmount: 99,
+      finalTotal: 1089,
+      isValid: true,
+    });
+  });
+
+  it('should pass the rounding and pricing modes', async () => {
+    const { io, output } = createIo();
+
+    await run(
+      [
+        'calculate',
+        '--subtotal', '1100',
+        '--target', '1089',
+        '--rate', '0.1',
+        '--pricing-mode', 'inclusive',
+        '--round-mode', 'ceil',
+        '--format', 'json',
+      ],
+      io
+    );
+
+    expect(JSON.parse(output.stdout)).toMatchObject({ discount: 11, finalTotal: 1089 });
+  });
+
+  it('should exit with the failure reason of an invalid result', async () => {
+    const unreachable = createIo();
+    expect(
+      await run(
+        ['calculate', '--subtotal', '1000', '--target', '1101', '--rate', '0.1', '--round-mode', 'ceil'],
+        unreachable.io
+      )
+    ).toBe(EXIT_CODES.TARGET_UNREACHABLE);
+    expect(unreachable.output.stderr).toContain('Could not find exact adjustment');
+
+    const invalid = createIo();
+    expect(
+      await run(['calculate', '--subtotal=-1', '--target', '100', '--rate', '0.1'], invalid.io)
+    ).toBe(EXIT_CODES.INVALID_INPUT);
+    expect(invalid.output.stderr).toBe('Error: Subtotal cannot be negative\n');
+  });
+
+  it('should report usage errors', async () => {
+    const missing = createIo();
+    expect(await run(['calculate', '--subtotal', '1000', '--rate', '0.1'], missing.io)).toBe(
+      EXIT_CODES.USAGE_ERROR
+    );
+    expect(missing.output.stderr).toBe(
+      "Error: --target is required\nRun 'tax-fitter calculate --help' for usage.\n"
+    );
+
+    const unknown = createIo();
+    expect(await run(['calculate', '--subtotl', '1000'], unknown.io)).toBe(EXIT_CODES.USAGE_ERROR);
+
+    const malformed = createIo();
+    expect(
+      await run(['calculate', '--subtotal', '10.5', '--target', '100', '--rate', '0.1'], malformed.io)
+    ).toBe(EXIT_CODES.USAGE_ERROR);
+  });
+
+  it('should calculate every row of a CSV file', async () => {
+    const { io, output } = createIo({
+      readFile: vi.fn().mockResolvedValue(
+        'subtotal,target,rate\n40000,40000,0.1\n1000,1089,\n1000,1101,0.1\n'
+      ),
+    });
+
+    const code = await run(
+      ['calculate', '--csv', 'batch.csv', '--rate', '0.1', '--round-mode', 'ceil'],
+      io
+    );
+
+    expect(io.readFile).toHaveBeenCalledWith('batch.csv');
+    expect(output.stdout.split('\n')[0]).toBe(
+      'row  subtotal  target  discount  tax   total  valid  error'
+    );
+    expect(output.stdout.split('\n')).toHaveLength(5);
+    expect(output.stderr).toContain('Error: row 3: Could not find exact adjustment');
+    expect(code).toBe(EXIT_CODES.TARGET_UNREACHABLE);
+  });
+
+  it('should print CSV results as JSON', async () => {
+    const { io, output } = createIo({
+      readFile: vi.fn().mockResolvedValue('Subtotal,Target,Rate\n1000,1089,0.1\n'),
+    });
+
+    const code = await run(['calculate', '--csv', 'batch.csv', '--format', 'json'], io);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(JSON.parse(output.stdout)).toEqual([
+      expect.objectContaining({ row: 1, subtotal: 1000, targetTotal: 1089, discount: 10 }),
+    ]);
+  });
+
+  it('should report a malformed CSV row and calculate the others', async () => {
+    const { io, output } = createIo({
+      readFile: vi.fn().mockResolvedValue('subtotal,target,rate\n1000,1100,ten\n1000,1100,0.1\n'),
+    });
+
+    const code = await run(['calculate', '--csv', 'batch.csv', '--format', 'json'], io);
+
+    expect(code).toBe(EXIT_CODES.USAGE_ERROR);
+    expect(JSON.parse(output.stdout)).toEqual([
+      { row: 1, isValid: false, error: expect.stringContaining('rate must be a decimal') },
+      expect.objectContaining({ row: 2, isValid: true, finalTotal: 1100 }),
+    ]);
+    expect(output.stderr).toBe(
+      "Error: row 1: rate must be a decimal (0.1), a fraction (33/400) or a percentage (8.25%), got 'ten'\n"
+    );
+  });
+
+  it('should report unreadable CSV files as usage errors', async () => {
+    const { io, output } = createIo({
+      readFile: vi.fn().mockRejectedValue(new Error('ENOENT: no such file')),
+    });
+
+    expect(await run(['calculate', '--csv', 'missing.csv'], io)).toBe(EXIT_CODES.USAGE_ERROR);
+    expect(output.stderr).toContain('Cannot read missing.csv: ENOENT: no such file');
+  });
+});
+
+describe('tax-fitter stripe', () => {
+  it('should apply the adjustment with the API key from the environment', async () => {
+    const stripe = createMockStripe();
+    const { io, output } = createIo({
+      env: { STRIPE_API_KEY: 'sk_test_123' },
+      createStripe: vi.fn().mockReturnValue(stripe),
+    });
+
+    const code = await run(['stripe', 'in_test123', '--target', '40000', '--rate', '0.1'], io);
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(io.createStripe).toHaveBeenCalledWith('sk_test_123');
+    expect(stripe.invoiceItems.create).toHaveBeenCalledWith(
+      expect.objectContaining({ invoice: 'in_test123', amount: -3636 })
+    );
+    expect(output.stdout).toContain('invoiceItem       ii_new');
+  });
+
+  it('should only read from Stripe with --preview', async () => {
+    const stripe = createMockStripe();
+    const { io, output } = createIo({
+      env: { STRIPE_API_KEY: 'sk_test_123' },
+      createStripe: vi.fn().mockReturnValue(stripe),
+    });
+
+    const code = await run(
+      ['stripe', 'in_test123', '--target', '40000', '--rate', '0.1', '--preview', '--format', 'json'],
+      io
+    );
+
+    expect(code).toBe(EXIT_CODES.OK);
+    expect(stripe.invoiceItems.create).not.toHaveBeenCalled();
+    expect(JSON.parse(output.stdout)).toMatchObject({ invoiceId: 'in_test123', discount: 3636 });
+  });
+
+  it('should exit with the code of the adjustment error', async () => {
+    const { io, output } = createIo({
+      env: { STRIPE_API_KEY: 'sk_test_123' },
+      createStripe: vi.fn().mockReturnValue(createMockStripe({ ...draftInvoice, status: 'open' })),
+    });
+
+    expect(await run(['stripe', 'in_test123', '--target', '40000'], io)).toBe(
+      EXIT_CODES.INVOICE_NOT_DRAFT
+    );
+    expect(output.stderr).toContain('Invoice in_test123 is not in draft state');
+  });
+
+  it('should require an API key and an invoice ID', async () => {
+    const noKey = createIo();
+    expect(await run(['stripe', 'in_test123', '--target', '40000'], noKey.io)).toBe(
+      EXIT_CODES.USAGE_ERROR
+    );
+    expect(noKey.output.stderr).toContain('Set the STRIPE_API_KEY environment variable');
+
+    const noInvoice = createIo({ env: { STRIPE_API_KEY: 'sk_test_123' } });
+    expect(await run(['stripe', '--target', '40000'], noInvoice.io)).toBe(EXIT_CODES.USAGE_ERROR);
+  });
+});
+
+describe('tax-fitter', () => {
+  it('should print usage for --help and reject unknown commands', async () => {
+    const help = createIo();
+    expect(await run(['--help'], help.io)).toBe(EXIT_CODES.OK);
+    expect(help.output.stdout).toContain('Usage: tax-fitter <command>');
+
+    const unknown = createIo();
+    expect(await run(['fit'], unknown.io)).toBe(EXIT_CODES.USAGE_ERROR);
+    expect(unknown.output.stderr).toContain("Unknown command 'fit'");
+  });
+
+  it('should map only known error codes to their exit codes', () => {
+    expect(exitCodeFor('DOCUMENT_NOT_FOUND')).toBe(EXIT_CODES.DOCUMENT_NOT_FOUND);
+    expect(exitCodeFor('toString')).toBe(EXIT_CODES.UNEXPECTED_ERROR);
+    expect(exitCodeFor('OK')).toBe(EXIT_CODES.UNEXPECTED_ERROR);
+    expect(exitCodeFor(undefined)).toBe(EXIT_CODES.UNEXPECTED_ERROR);
+  });
+});
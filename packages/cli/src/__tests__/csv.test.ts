@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from '../csv';
+import { parseAmount, parseRate } from '../args';
+
+describe('parseCsv', () => {
+  it('should key rows by the lower-cased header', () => {
+    expect(parseCsv('Subtotal, Target ,rate\r\n1000,1100,0.1\r\n\r\n2000,2200,0.1')).toEqual([
+      { subtotal: '1000', target: '1100', rate: '0.1' },
+      { subtotal: '2000', target: '2200', rate: '0.1' },
+    ]);
+  });
+
+  it('should handle quoted fields and missing trailing fields', () => {
+    expect(parseCsv('subtotal,note,rate\n1000,"a, ""quoted"" note"\n')).toEqual([
+      { subtotal: '1000', note: 'a, "quoted" note', rate: '' },
+    ]);
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parseCsv('')).toThrow('CSV input has no header row');
+    expect(() => parseCsv('subtotal\n"1000')).toThrow('unterminated quoted field');
+    expect(() => parseCsv('subtotal\n1000,1100')).toThrow(
+      'CSV row 1 has 2 fields, but the header has 1'
+    );
+  });
+});
+
+describe('argument parsing', () => {
+  it('should parse rates as decimals, fractions and percentages', () => {
+    expect(parseRate('--rate', '0.1')).toBe(0.1);
+    expect(parseRate('--rate', '33/400')).toEqual({ numerator: 33, denominator: 400 });
+    expect(parseRate('--rate', '8.25%')).toEqual({ numerator: 33, denominator: 400 });
+    expect(() => parseRate('--rate', 'ten')).toThrow('--rate must be a decimal');
+  });
+
+  it('should only accept integer amounts', () => {
+    expect(parseAmount('--target', ' 1100 ')).toBe(1100);
+    expect(() => parseAmount('--target', '11.00')).toThrow(
+      "--target must be an integer amount in the smallest currency unit, got '11.00'"
+    );
+  });
+});
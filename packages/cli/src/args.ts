@@ -0,0 +1,66 @@
+import { toRationalRate } from '@tax-fitter/core';
+import type { TaxRate } from '@tax-fitter/core';
+import { UsageError } from './errors';
+
+/**
+ * Parse an integer amount in the smallest currency unit (e.g., 1234 for $12.34)
+ * @param name - Flag or column name, used in the error message
+ * @param value - The raw value
+ * @throws UsageError if the value is not an integer
+ */
+export function parseAmount(name: string, value: string): number {
+  const text = value.trim();
+  if (!/^-?\d+$/.test(text)) {
+    throw new UsageError(
+      `${name} must be an integer amount in the smallest currency unit, got '${value}'`
+    );
+  }
+  return Number(text);
+}
+
+/**
+ * Parse a tax rate given as a decimal (0.1), a fraction (33/400) or a percentage (8.25%)
+ * @param name - Flag or column name, used in the error message
+ * @param value - The raw value
+ * @throws UsageError if the value is none of these
+ */
+export function parseRate(name: string, value: string): TaxRate {
+  const text = value.trim();
+  const number = /^-?\d+(?:\.\d+)?$/;
+
+  const fraction = /^(-?\d+)\/(\d+)$/.exec(text);
+  if (fraction) {
+    return { numerator: Number(fraction[1]), denominator: Number(fraction[2]) };
+  }
+
+  if (text.endsWith('%') && number.test(text.slice(0, -1))) {
+    const { numerator, denominator } = toRationalRate(Number(text.slice(0, -1)));
+    return { numerator, denominator: denominator * 100 };
+  }
+
+  if (number.test(text)) {
+    return Number(text);
+  }
+
+  throw new UsageError(
+    `${name} must be a decimal (0.1), a fraction (33/400) or a percentage (8.25%), got '${value}'`
+  );
+}
+
+/**
+ * Check that a value is one of the allowed choices
+ * @param name - Flag or column name, used in the error message
+ * @param value - The raw value
+ * @param choices - Allowed values
+ * @throws UsageError if the value is not allowed
+ */
+export function parseChoice<T extends string>(
+  name: string,
+  value: string,
+  choices: readonly T[]
+): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`${name} must be one of ${choices.join(', ')}, got '${value}'`);
+  }
+  return value as T;
+}
@@ -0,0 +1,237 @@
+import { parseArgs } from 'node:util';
+import { ROUND_MODES, calculateAdjustment } from '@tax-fitter/core';
+import type {
+  AdjustmentParams,
+  AdjustmentResult,
+  PricingMode,
+  SelectionPolicy,
+} from '@tax-fitter/core';
+import { parseAmount, parseChoice, parseRate } from './args';
+import { parseCsv } from './csv';
+import { EXIT_CODES, UsageError, exitCodeFor } from './errors';
+import { formatJson, formatTable, parseFormat } from './format';
+import type { CliIo } from './types';
+
+const PRICING_MODES: readonly PricingMode[] = ['exclusive', 'inclusive'];
+const SELECTION_POLICIES: readonly SelectionPolicy[] = [
+  'smallest-discount',
+  'largest-base',
+  'largest-tax',
+  'round-number',
+];
+
+export const CALCULATE_USAGE = `Usage: tax-fitter calculate --subtotal <amount> --target <amount> --rate <rate> [options]
+       tax-fitter calculate --csv <file> [options]
+
+Calculate the discount that makes a subtotal plus tax reach a target total.
+Amounts are integers in the smallest currency unit (e.g., cents).
+
+Options:
+  --subtotal <amount>         Subtotal before tax (after tax with --pricing-mode inclusive)
+  --target <amount>           Target total including tax
+  --rate <rate>               Tax rate: 0.1, 33/400 or 8.25%
+  --round-mode <mode>         ${ROUND_MODES.join(' | ')} (default: floor)
+  --pricing-mode <mode>       exclusive | inclusive (default: exclusive)
+  --selection-policy <policy> ${SELECTION_POLICIES.join(' | ')}
+                              (default: smallest-discount)
+  --allow-residual            Cover unreachable targets with a non-taxable residual
+  --csv <file>                Calculate every row of a CSV file with the columns
+                              subtotal, target, rate, round_mode, pricing_mode;
+                              flags give the defaults for missing columns
+  --format <format>           table | json (default: table)
+  -h, --help                  Show this help
+`;
+
+/**
+ * Run the calculate command
+ * @param args - Arguments after the command name
+ * @param io - Input and output
+ * @returns The exit code: 0, or the code of the first invalid result
+ */
+export async function runCalculate(args: string[], io: CliIo): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      subtotal: { type: 'string' },
+      target: { type: 'string' },
+      rate: { type: 'string' },
+      'round-mode': { type: 'string' },
+      'pricing-mode': { type: 'string' },
+      'selection-policy': { type: 'string' },
+      'allow-residual': { type: 'boolean' },
+      csv: { type: 'string' },
+      format: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    io.stdout(CALCULATE_USAGE);
+    return EXIT_CODES.OK;
+  }
+
+  const format = parseFormat(values.format);
+  const flags: Record<string, string | undefined> = {
+    subtotal: values.subtotal,
+    target: values.target,
+    rate: values.rate,
+    round_mode: values['round-mode'],
+    pricing_mode: values['pricing-mode'],
+  };
+  const selectionPolicy =
+    values['selection-policy'] === undefined
+      ? undefined
+      : parseChoice('--selection-policy', values['selection-policy'], SELECTION_POLICIES);
+  const allowResidual = values['allow-residual'] ?? false;
+
+  if (values.csv === undefined) {
+    const result = calculateAdjustment({
+      ...toParams(flags, (column) => `--${column.replace('_', '-')}`),
+      selectionPolicy,
+      allowResidual,
+    });
+
+    io.stdout(
+      format === 'json'
+        ? formatJson(result)
+        : formatTable(
+            ['field', 'value'],
+            [
+              ['discount', result.discount],
+              ['adjustedSubtotal', result.adjustedSubtotal],
+              ['taxAmount', result.taxAmount],
+              ['finalTotal', result.finalTotal],
+              ...(result.residualDiscount !== undefined
+                ? [['residualDiscount', result.residualDiscount]]
+                : []),
+              ['isValid', result.isValid],
+            ]
+          )
+    );
+    if (!result.isValid) {
+      io.stderr(`Error: ${result.error ?? 'Invalid adjustment'}\n`);
+      return exitCodeFor(result.errorCode);
+    }
+    return EXIT_CODES.OK;
+  }
+
+  let text: string;
+  try {
+    text = await io.readFile(values.csv);
+  } catch (error) {
+    throw new UsageError(`Cannot read ${values.csv}: ${(error as Error).message}`);
+  }
+
+  // A row with a malformed value is reported on its own; the other rows still run
+  const rows: CsvRow[] = parseCsv(text).map((record, index) => {
+    const row = index + 1;
+    let params: AdjustmentParams;
+    try {
+      params = {
+        ...toParams(
+          {
+            subtotal: record.subtotal || flags.subtotal,
+            target: record.target || flags.target,
+            rate: record.rate || flags.rate,
+            round_mode: record.round_mode || flags.round_mode,
+            pricing_mode: record.pricing_mode || flags.pricing_mode,
+          },
+          (column) => column
+        ),
+        selectionPolicy,
+        allowResidual,
+      };
+    } catch (error) {
+      if (error instanceof UsageError) {
+        return { row, usageError: error.message };
+      }
+      throw error;
+    }
+    return {
+      row,
+      subtotal: params.subtotal,
+      targetTotal: params.targetTotal,
+      result: calculateAdjustment(params),
+    };
+  });
+
+  if (format === 'json') {
+    io.stdout(
+      formatJson(
+        rows.map(({ row, subtotal, targetTotal, result, usageError }) =>
+          result
+            ? { row, subtotal, targetTotal, ...result }
+            : { row, isValid: false, error: usageError }
+        )
+      )
+    );
+  } else {
+    io.stdout(
+      formatTable(
+        ['row', 'subtotal', 'target', 'discount', 'tax', 'total', 'valid', 'error'],
+        rows.map(({ row, subtotal, targetTotal, result, usageError }) => [
+          row,
+          subtotal,
+          targetTotal,
+          result?.discount,
+          result?.taxAmount,
+          result?.finalTotal,
+          result?.isValid ?? false,
+          result ? result.error : usageError,
+        ])
+      )
+    );
+  }
+
+  const failed = rows.filter(({ result }) => !result?.isValid);
+  for (const { row, result, usageError } of failed) {
+    io.stderr(`Error: row ${row}: ${result?.error ?? usageError ?? 'Invalid adjustment'}\n`);
+  }
+  const [first] = failed;
+  if (!first) {
+    return EXIT_CODES.OK;
+  }
+  return first.result ? exitCodeFor(first.result.errorCode) : EXIT_CODES.USAGE_ERROR;
+}
+
+/**
+ * Outcome of one CSV row: a result, or the usage error of a malformed value
+ */
+interface CsvRow {
+  row: number;
+  subtotal?: number;
+  targetTotal?: number;
+  result?: AdjustmentResult;
+  usageError?: string;
+}
+
+/**
+ * Build adjustment parameters from raw flag or column values
+ * @param values - Raw values keyed by column name
+ * @param label - Name of a column in error messages
+ * @throws UsageError if a required value is missing or malformed
+ */
+function toParams(
+  values: Record<string, string | undefined>,
+  label: (column: string) => string
+): AdjustmentParams {
+  const required = (column: string): string => {
+    const value = values[column];
+    if (value === undefined || value === '') {
+      throw new UsageError(`${label(column)} is required`);
+    }
+    return value;
+  };
+  const roundMode = values.round_mode;
+  const pricingMode = values.pricing_mode;
+
+  return {
+    subtotal: parseAmount(label('subtotal'), required('subtotal')),
+    targetTotal: parseAmount(label('target'), required('target')),
+    taxRate: parseRate(label('rate'), required('rate')),
+    roundMode: roundMode ? parseChoice(label('round_mode'), roundMode, ROUND_MODES) : undefined,
+    pricingMode: pricingMode
+      ? parseChoice(label('pricing_mode'), pricingMode, PRICING_MODES)
+      : undefined,
+  };
+}
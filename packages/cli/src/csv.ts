@@ -0,0 +1,83 @@
+import { UsageError } from './errors';
+
+/**
+ * Parse CSV text with a header row into one record per data row
+ *
+ * Fields may be quoted with double quotes; a doubled quote inside a quoted
+ * field is a literal quote. Header names are trimmed and lower-cased, and
+ * blank lines are skipped.
+ *
+ * @param text - CSV text
+ * @returns The rows, keyed by header name
+ * @throws UsageError if the header is missing, a quote is unterminated,
+ *   or a row has more fields than the header
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = splitRecords(text).filter(
+    (fields) => fields.length > 1 || (fields[0] ?? '').trim() !== ''
+  );
+  if (!header) {
+    throw new UsageError('CSV input has no header row');
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  return rows.map((fields, index) => {
+    if (fields.length > columns.length) {
+      throw new UsageError(
+        `CSV row ${index + 1} has ${fields.length} fields, but the header has ${columns.length}`
+      );
+    }
+    return Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? '']));
+  });
+}
+
+/**
+ * Split CSV text into records of raw fields
+ */
+function splitRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as one line break
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push(fields);
+      fields = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new UsageError('CSV input has an unterminated quoted field');
+  }
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push(fields);
+  }
+  return records;
+}
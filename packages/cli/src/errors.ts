@@ -0,0 +1,67 @@
+import { TaxFitterError } from '@tax-fitter/core';
+import type { TaxFitterErrorCode } from '@tax-fitter/core';
+import type { StripeAdjustmentErrorCode } from 'stripe-tax-fitter';
+
+/**
+ * Thrown for invalid command-line arguments or unreadable input files
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Process exit codes, one per failure reason
+ * Adjustment failures use the code of their error (see TaxFitterError.code);
+ * every error code has an entry.
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  UNEXPECTED_ERROR: 1,
+  USAGE_ERROR: 2,
+  INVALID_INPUT: 3,
+  TARGET_UNREACHABLE: 4,
+  INVOICE_NOT_DRAFT: 5,
+  ZERO_SUBTOTAL: 6,
+  MISSING_CUSTOMER: 7,
+  STRIPE_API_ERROR: 8,
+  ADJUSTMENT_MISMATCH: 9,
+  DOCUMENT_NOT_FOUND: 10,
+  DOCUMENT_NOT_EDITABLE: 11,
+  IDEMPOTENCY_CONFLICT: 12,
+} as const satisfies Record<
+  'OK' | 'UNEXPECTED_ERROR' | 'USAGE_ERROR' | TaxFitterErrorCode | StripeAdjustmentErrorCode,
+  number
+>;
+
+/**
+ * Name of a failure reason with its own exit code
+ */
+export type ExitReason = Exclude<keyof typeof EXIT_CODES, 'OK'>;
+
+/**
+ * Get the exit code for an error code such as 'TARGET_UNREACHABLE'
+ * @param code - Error code from an adjustment result or a TaxFitterError
+ * @returns The matching exit code, or UNEXPECTED_ERROR for unknown codes
+ */
+export function exitCodeFor(code: string | undefined): number {
+  // Own keys only, so 'toString' and other inherited names are unknown codes
+  const known =
+    code !== undefined && code !== 'OK' && Object.prototype.hasOwnProperty.call(EXIT_CODES, code);
+  return known ? EXIT_CODES[code as ExitReason] : EXIT_CODES.UNEXPECTED_ERROR;
+}
+
+/**
+ * Get the exit code for a thrown error
+ */
+export function exitCodeForError(error: unknown): number {
+  if (error instanceof UsageError) {
+    return EXIT_CODES.USAGE_ERROR;
+  }
+  if (error instanceof TaxFitterError) {
+    return exitCodeFor(error.code);
+  }
+  return EXIT_CODES.UNEXPECTED_ERROR;
+}
@@ -0,0 +1,54 @@
+import { UsageError } from './errors';
+
+/**
+ * Output format for command results
+ */
+export type OutputFormat = 'table' | 'json';
+
+/**
+ * Parse the --format flag
+ * @throws UsageError for unknown formats
+ */
+export function parseFormat(value: string | undefined): OutputFormat {
+  if (value === undefined || value === 'table' || value === 'json') {
+    return value ?? 'table';
+  }
+  throw new UsageError(`--format must be one of table, json, got '${value}'`);
+}
+
+/**
+ * Render rows as a plain-text table with aligned columns
+ * @param header - Column names
+ * @param rows - Cell values; undefined cells are left empty
+ * @returns The table, one line per row, ending with a newline
+ */
+export function formatTable(
+  header: string[],
+  rows: (string | number | boolean | undefined)[][]
+): string {
+  const cells = [
+    header,
+    ...rows.map((row) => row.map((cell) => (cell === undefined ? '' : String(cell)))),
+  ];
+  const widths = header.map((_, column) =>
+    Math.max(...cells.map((row) => (row[column] ?? '').length))
+  );
+
+  return (
+    cells
+      .map((row) =>
+        row
+          .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+          .join('  ')
+          .trimEnd()
+      )
+      .join('\n') + '\n'
+  );
+}
+
+/**
+ * Render a value as indented JSON, ending with a newline
+ */
+export function formatJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
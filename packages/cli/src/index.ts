@@ -0,0 +1,7 @@
+export { run, processIo, USAGE } from './main';
+export { runCalculate, CALCULATE_USAGE } from './calculate';
+export { runStripe, STRIPE_USAGE } from './stripe';
+export { EXIT_CODES, UsageError, exitCodeFor, exitCodeForError } from './errors';
+export type { ExitReason } from './errors';
+export { parseCsv } from './csv';
+export type { CliIo } from './types';
@@ -0,0 +1,70 @@
+import { readFile } from 'node:fs/promises';
+import Stripe from 'stripe';
+import { runCalculate } from './calculate';
+import { EXIT_CODES, UsageError, exitCodeForError } from './errors';
+import { runStripe } from './stripe';
+import type { CliIo } from './types';
+
+export const USAGE = `Usage: tax-fitter <command> [options]
+
+Commands:
+  calculate   Calculate the discount that reaches a target total
+  stripe      Adjust or preview a draft Stripe invoice
+
+Run 'tax-fitter <command> --help' for the options of a command.
+`;
+
+/**
+ * Input and output of the running process
+ */
+export const processIo: CliIo = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  env: process.env,
+  readFile: (path) => readFile(path, 'utf8'),
+  createStripe: (apiKey) => new Stripe(apiKey),
+};
+
+/**
+ * Run the CLI
+ *
+ * Errors are reported on stderr and mapped to exit codes (see EXIT_CODES):
+ * 2 for usage errors, and one code per adjustment failure reason.
+ *
+ * @param argv - Arguments without the node and script paths
+ * @param io - Input and output (defaults to the running process)
+ * @returns The exit code
+ */
+export async function run(argv: string[], io: CliIo = processIo): Promise<number> {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case 'calculate':
+        return await runCalculate(args, io);
+      case 'stripe':
+        return await runStripe(args, io);
+      case undefined:
+      case 'help':
+      case '-h':
+      case '--help':
+        io.stdout(USAGE);
+        return command === undefined ? EXIT_CODES.USAGE_ERROR : EXIT_CODES.OK;
+      default:
+        throw new UsageError(`Unknown command '${command}'`);
+    }
+  } catch (error) {
+    // parseArgs reports unknown or malformed flags with ERR_PARSE_ARGS_* codes
+    const usage =
+      error instanceof UsageError ||
+      String((error as { code?: unknown } | null)?.code).startsWith('ERR_PARSE_ARGS');
+
+    io.stderr(`Error: ${(error as Error).message}\n`);
+    if (usage) {
+      const help = command === 'calculate' || command === 'stripe' ? ` ${command}` : '';
+      io.stderr(`Run 'tax-fitter${help} --help' for usage.\n`);
+      return EXIT_CODES.USAGE_ERROR;
+    }
+    return exitCodeForError(error);
+  }
+}
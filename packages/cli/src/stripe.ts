@@ -0,0 +1,168 @@
+import { parseArgs } from 'node:util';
+import { ROUND_MODES } from '@tax-fitter/core';
+import { TaxFitter } from 'stripe-tax-fitter';
+import type {
+  AdjustmentStrategy,
+  AllocationMode,
+  FitTarget,
+  StripeAdjustmentOptions,
+} from 'stripe-tax-fitter';
+import { parseAmount, parseChoice, parseRate } from './args';
+import { EXIT_CODES, UsageError } from './errors';
+import { formatJson, formatTable, parseFormat } from './format';
+import type { CliIo } from './types';
+
+const STRATEGIES: readonly AdjustmentStrategy[] = ['invoice-item', 'coupon'];
+const ALLOCATIONS: readonly AllocationMode[] = ['lump', 'per-line'];
+const FIT_TARGETS: readonly FitTarget[] = ['total', 'amount_due'];
+
+export const STRIPE_USAGE = `Usage: tax-fitter stripe <invoice-id> --target <amount> [options]
+
+Adjust a draft Stripe invoice so its total reaches the target.
+The API key is read from the STRIPE_API_KEY environment variable.
+
+Options:
+  --target <amount>           Target total in the smallest currency unit
+  --preview                   Show the planned changes without applying them
+  --rate <rate>               Tax rate: 0.1, 33/400 or 8.25% (default: from the invoice)
+  --round-mode <mode>         Rounding mode (default: floor)
+  --strategy <strategy>       invoice-item | coupon (default: invoice-item)
+  --allocation <mode>         lump | per-line (default: lump)
+  --fit-to <amount>           total | amount_due (default: total)
+  --allow-residual            Cover unreachable targets with a non-taxable item
+  --description <text>        Adjustment item description
+  --idempotency-key <key>     Base idempotency key for the Stripe requests
+  --verify                    Check Stripe's total and roll back on mismatch
+  --explain                   Store a calculation trace summary in the metadata
+  --format <format>           table | json (default: table)
+  -h, --help                  Show this help
+`;
+
+/**
+ * Run the stripe command
+ *
+ * Adjustment errors are thrown; the caller maps them to exit codes.
+ *
+ * @param args - Arguments after the command name
+ * @param io - Input and output
+ * @returns The exit code
+ * @throws UsageError for invalid arguments or a missing API key
+ * @throws StripeAdjustmentError if the adjustment fails
+ */
+export async function runStripe(args: string[], io: CliIo): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      target: { type: 'string' },
+      preview: { type: 'boolean' },
+      rate: { type: 'string' },
+      'round-mode': { type: 'string' },
+      strategy: { type: 'string' },
+      allocation: { type: 'string' },
+      'fit-to': { type: 'string' },
+      'allow-residual': { type: 'boolean' },
+      description: { type: 'string' },
+      'idempotency-key': { type: 'string' },
+      verify: { type: 'boolean' },
+      explain: { type: 'boolean' },
+      format: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    io.stdout(STRIPE_USAGE);
+    return EXIT_CODES.OK;
+  }
+
+  const [invoiceId, ...extra] = positionals;
+  if (invoiceId === undefined || extra.length > 0) {
+    throw new UsageError('Pass exactly one invoice ID');
+  }
+  if (values.target === undefined) {
+    throw new UsageError('--target is required');
+  }
+
+  const format = parseFormat(values.format);
+  const options: StripeAdjustmentOptions = {
+    invoiceId,
+    targetTotal: parseAmount('--target', values.target),
+    ...(values.rate !== undefined ? { taxRate: parseRate('--rate', values.rate) } : {}),
+    ...(values['round-mode'] !== undefined
+      ? { roundMode: parseChoice('--round-mode', values['round-mode'], ROUND_MODES) }
+      : {}),
+    ...(values.strategy !== undefined
+      ? { strategy: parseChoice('--strategy', values.strategy, STRATEGIES) }
+      : {}),
+    ...(values.allocation !== undefined
+      ? { allocation: parseChoice('--allocation', values.allocation, ALLOCATIONS) }
+      : {}),
+    ...(values['fit-to'] !== undefined
+      ? { fitTo: parseChoice('--fit-to', values['fit-to'], FIT_TARGETS) }
+      : {}),
+    ...(values.description !== undefined ? { description: values.description } : {}),
+    ...(values['idempotency-key'] !== undefined
+      ? { idempotencyKey: values['idempotency-key'] }
+      : {}),
+    allowResidual: values['allow-residual'] ?? false,
+    verify: values.verify ?? false,
+    explain: values.explain ?? false,
+  };
+
+  const apiKey = io.env.STRIPE_API_KEY;
+  if (!apiKey) {
+    throw new UsageError('Set the STRIPE_API_KEY environment variable');
+  }
+  const fitter = new TaxFitter(io.createStripe(apiKey));
+
+  if (values.preview) {
+    const plan = await fitter.previewAdjustment(options);
+    io.stdout(
+      format === 'json'
+        ? formatJson(plan)
+        : formatTable(
+            ['field', 'value'],
+            [
+              ['invoice', plan.invoiceId],
+              ['currency', plan.currency],
+              ['subtotal', plan.subtotal],
+              ['discount', plan.discount],
+              ['residualDiscount', plan.residualDiscount],
+              ['taxAmount', plan.taxAmount],
+              ['finalTotal', plan.finalTotal],
+              ['amountDue', plan.amountDue],
+              ...plan.items.map((item): [string, string] => [
+                `${item.action} ${item.kind} item`,
+                String(item.params.amount),
+              ]),
+              ...plan.deletions.map((itemId): [string, string] => ['delete item', itemId]),
+              ...(plan.coupon ? [['create coupon', String(plan.coupon.amount_off)]] : []),
+            ]
+          )
+    );
+    return EXIT_CODES.OK;
+  }
+
+  const result = await fitter.applyAdjustment(options);
+  io.stdout(
+    format === 'json'
+      ? formatJson(result)
+      : formatTable(
+          ['field', 'value'],
+          [
+            ['invoice', invoiceId],
+            ['currency', result.currency],
+            ['discount', result.discount],
+            ['residualDiscount', result.residualDiscount],
+            ['taxAmount', result.taxAmount],
+            ['finalTotal', result.finalTotal],
+            ['amountDue', result.amountDue],
+            ['invoiceItem', result.invoiceItem?.id],
+            ['coupon', result.coupon?.id],
+            ['residualItem', result.residualItem?.id],
+          ]
+        )
+  );
+  return EXIT_CODES.OK;
+}
@@ -0,0 +1,31 @@
+import type Stripe from 'stripe';
+
+/**
+ * Input and output used by the CLI, replaceable for tests or embedding
+ */
+export interface CliIo {
+  /**
+   * Write to standard output
+   */
+  stdout: (text: string) => void;
+
+  /**
+   * Write to standard error
+   */
+  stderr: (text: string) => void;
+
+  /**
+   * Environment variables (STRIPE_API_KEY is read from here)
+   */
+  env: Record<string, string | undefined>;
+
+  /**
+   * Read a text file, such as CSV batch input
+   */
+  readFile: (path: string) => Promise<string>;
+
+  /**
+   * Create a Stripe client for an API key
+   */
+  createStripe: (apiKey: string) => Stripe;
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { allocateDiscount } from '../allocation';
+import { calculateAdjustment } from '../calculate';
+import { calculateLineItemAdjustment } from '../line-items';
+import { calculateMultiRateAdjustment } from '../multi-rate';
+import type { LineItem } from '../types';
+
+describe('allocateDiscount', () => {
+  it('should split the discount in proportion to the line amounts', () => {
+    const lineItems: LineItem[] = [
+      { amount: 20000, taxRate: 0.1 },
+      { amount: 10000, taxRate: 0.1 },
+    ];
+    const result = calculateAdjustment({ subtotal: 30000, targetTotal: 29700, taxRate: 0.1 });
+
+    const allocation = allocateDiscount(lineItems, result);
+
+    expect(result.discount).toBe(3000);
+    expect(allocation.lines.map((line) => line.discount)).toEqual([2000, 1000]);
+    expect(allocation.lines.map((line) => line.adjustedAmount)).toEqual([18000, 9000]);
+    expect(allocation.isValid).toBe(true);
+    expect(allocation.finalTotal).toBe(result.finalTotal);
+  });
+
+  it('should use largest remainders so the pieces sum exactly', () => {
+    const lineItems: LineItem[] = [
+      { amount: 100, taxRate: 0.1 },
+      { amount: 100, taxRate: 0.1 },
+      { amount: 100, taxRate: 0.1 },
+    ];
+    const result = calculateAdjustment({ subtotal: 300, targetTotal: 319, taxRate: 0.1 });
+
+    const allocation = allocateDiscount(lineItems, result);
+    const discounts = allocation.lines.map((line) => line.discount);
+
+    expect(discounts.reduce((sum, discount) => sum + discount, 0)).toBe(result.discount);
+    expect(Math.max(...discounts) - Math.min(...discounts)).toBeLessThanOrEqual(1);
+    // Ties go to the earlier line
+    expect(discounts[0]).toBeGreaterThanOrEqual(discounts[2] ?? 0);
+  });
+
+  it('should keep the fitted total for tax-inclusive amounts', () => {
+    const lineItems: LineItem[] = [
+      { amount: 6600, taxRate: 0.1 },
+      { amount: 4400, taxRate: 0.1 },
+    ];
+    const result = calculateAdjustment({
+      subtotal: 11000,
+      targetTotal: 10000,
+      taxRate: 0.1,
+      pricingMode: 'inclusive',
+    });
+
+    const allocation = allocateDiscount(lineItems, result, { pricingMode: 'inclusive' });
+
+    expect(allocation.lines.map((line) => line.discount)).toEqual([600, 400]);
+    expect(allocation.isValid).toBe(true);
+    expect(allocation.taxAmount).toBe(result.taxAmount);
+    expect(allocation.finalTotal).toBe(10000);
+  });
+
+  it('should allocate surcharges', () => {
+    const lineItems: LineItem[] = [
+      { amount: 3000, taxRate: 0.1 },
+      { amount: 1000, taxRate: 0.1 },
+    ];
+    const result = calculateAdjustment({ subtotal: 4000, targetTotal: 4840, taxRate: 0.1 });
+
+    const allocation = allocateDiscount(lineItems, result);
+
+    expect(result.discount).toBe(-400);
+    expect(allocation.lines.map((line) => line.discount)).toEqual([-300, -100]);
+    expect(allocation.isValid).toBe(true);
+  });
+
+  it('should give credit lines no share', () => {
+    const lineItems: LineItem[] = [
+      { amount: 5000, taxRate: 0.1 },
+      { amount: -1000, taxRate: 0.1 },
+    ];
+    const result = calculateAdjustment({ subtotal: 4000, targetTotal: 4000, taxRate: 0.1 });
+
+    const allocation = allocateDiscount(lineItems, result);
+
+    expect(allocation.lines[1]?.discount).toBe(0);
+    expect(allocation.lines[0]?.discount).toBe(result.discount);
+  });
+
+  it('should allocate each rate of a multi-rate result to its own lines', () => {
+    const lineItems: LineItem[] = [
+      { amount: 30000, taxRate: 0.08 },
+      { amount: 20000, taxRate: 0.08 },
+      { amount: 120000, taxRate: 0.1 },
+    ];
+    const result = calculateMultiRateAdjustment({
+      subtotals: [
+        { subtotal: 50000, taxRate: 0.08 },
+        { subtotal: 120000, taxRate: 0.1 },
+      ],
+      targetTotal: 180000,
+    });
+
+    const allocation = allocateDiscount(lineItems, result);
+    const reduced = result.breakdown[0]?.discount ?? 0;
+
+    expect(
+      (allocation.lines[0]?.discount ?? 0) + (allocation.lines[1]?.discount ?? 0)
+    ).toBe(reduced);
+    expect(allocation.lines[2]?.discount).toBe(result.breakdown[1]?.discount);
+    expect(allocation.isValid).toBe(true);
+    expect(allocation.finalTotal).toBe(180000);
+  });
+
+  it('should allocate in multiples of the increment', () => {
+    const lineItems: LineItem[] = [
+      { amount: 70000, taxRate: 0.05 },
+      { amount: 30000, taxRate: 0.05 },
+    ];
+    const result = calculateAdjustment({
+      subtotal: 100000,
+      targetTotal: 99750,
+      taxRate: 0.05,
+      discountIncrement: 10,
+      allowResidual: true,
+    });
+
+    const allocation = allocateDiscount(lineItems, result, { increment: 10 });
+
+    for (const line of allocation.lines) {
+      expect(line.discount % 10).toBe(0);
+    }
+    expect(allocation.isValid).toBe(true);
+  });
+
+  it('should report when per-line rounding moves the total', () => {
+    const lineItems: LineItem[] = [
+      { amount: 105, taxRate: 0.1 },
+      { amount: 105, taxRate: 0.1 },
+      { amount: 105, taxRate: 0.1 },
+    ];
+    const result = calculateLineItemAdjustment({ lineItems, targetTotal: 341, taxRate: 0.1 });
+
+    const document = allocateDiscount(lineItems, result);
+    const line = allocateDiscount(lineItems, result, { roundingScope: 'line' });
+
+    expect(document.isValid).toBe(true);
+    expect(line.finalTotal).not.toBe(result.finalTotal);
+    expect(line.isValid).toBe(false);
+    expect(line.error).toMatch(/does not match the fitted total/);
+    expect(line.errorCode).toBe('TARGET_UNREACHABLE');
+  });
+
+  it('should reject invalid results', () => {
+    const result = calculateAdjustment({ subtotal: 1000, targetTotal: 1000.5, taxRate: 0.1 });
+
+    const allocation = allocateDiscount([{ amount: 1000, taxRate: 0.1 }], result);
+
+    expect(allocation.isValid).toBe(false);
+    expect(allocation.error).toBe('Cannot allocate an invalid adjustment');
+    expect(allocation.errorCode).toBe('INVALID_INPUT');
+    expect(allocation.lines[0]?.discount).toBe(0);
+  });
+
+  it('should reject a discount with no lines to take it', () => {
+    const result = calculateAdjustment({ subtotal: 1000, targetTotal: 990, taxRate: 0.1 });
+
+    const allocation = allocateDiscount([{ amount: -500, taxRate: 0.1 }], result);
+
+    expect(allocation.isValid).toBe(false);
+    expect(allocation.error).toBe('No line items can take the discount');
+  });
+});
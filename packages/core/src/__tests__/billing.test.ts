@@ -0,0 +1,298 @@
+import { describe, it, expect, vi } from 'vitest';
+import { calculateDocumentAdjustment, fitDocument, InMemoryBillingAdapter } from '../billing';
+import { TaxFitterError } from '../errors';
+import type { BillingAdapter, InMemoryDocument } from '../types';
+
+const order: InMemoryDocument = {
+  id: 'order_1',
+  currency: 'jpy',
+  taxRate: 0.1,
+  lines: [
+    { id: 'line_1', amount: 30000 },
+    { id: 'line_2', amount: 10000 },
+  ],
+};
+
+const lastLine = (document: InMemoryDocument) => document.lines[document.lines.length - 1];
+
+describe('fitDocument with InMemoryBillingAdapter', () => {
+  it('should write the discount that reaches the target', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+
+    const result = await fitDocument(adapter, { documentId: 'order_1', targetTotal: 40000 });
+
+    expect(result).toMatchObject({
+      documentId: 'order_1',
+      currency: 'jpy',
+      taxRate: 0.1,
+      pricingMode: 'exclusive',
+      subtotal: 40000,
+      untaxedAmount: 0,
+      discount: 3636,
+      residualDiscount: 0,
+      taxAmount: 3636,
+      finalTotal: 40000,
+    });
+    expect(lastLine(result.written)).toEqual({
+      id: 'order_1_adjustment',
+      amount: -3636,
+      description: 'Tax adjustment',
+      adjustment: 'discount',
+      metadata: {},
+    });
+    expect(adapter.getTotal('order_1')).toBe(40000);
+  });
+
+  it('should replace an earlier adjustment', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+
+    await fitDocument(adapter, { documentId: 'order_1', targetTotal: 40000 });
+    const result = await fitDocument(adapter, { documentId: 'order_1', targetTotal: 39000 });
+
+    expect(result.subtotal).toBe(40000);
+    expect(result.written.lines.filter((line) => line.adjustment)).toHaveLength(1);
+    expect(adapter.getTotal('order_1')).toBe(39000);
+  });
+
+  it('should leave untaxed lines unchanged', async () => {
+    const adapter = new InMemoryBillingAdapter([
+      { ...order, lines: [...order.lines, { id: 'shipping', amount: 500, taxable: false }] },
+    ]);
+
+    const result = await fitDocument(adapter, { documentId: 'order_1', targetTotal: 40500 });
+
+    expect(result).toMatchObject({ subtotal: 40000, untaxedAmount: 500, discount: 3636 });
+    expect(adapter.getTotal('order_1')).toBe(40500);
+  });
+
+  it('should fit tax-inclusive documents', async () => {
+    const adapter = new InMemoryBillingAdapter([
+      { ...order, pricingMode: 'inclusive', lines: [{ id: 'line_1', amount: 1100 }] },
+    ]);
+
+    const result = await fitDocument(adapter, { documentId: 'order_1', targetTotal: 1000 });
+
+    expect(result).toMatchObject({ pricingMode: 'inclusive', discount: 100, taxAmount: 90 });
+    expect(adapter.getTotal('order_1')).toBe(1000);
+    expect(adapter.getTaxAmount('order_1')).toBe(90);
+  });
+
+  it('should cover unreachable targets with an untaxed residual', async () => {
+    const adapter = new InMemoryBillingAdapter([
+      { ...order, lines: [{ id: 'line_1', amount: 1000 }] },
+    ]);
+
+    const result = await fitDocument(adapter, {
+      documentId: 'order_1',
+      targetTotal: 1101,
+      roundMode: 'ceil',
+      allowResidual: true,
+      residualDescription: 'Rounding',
+    });
+
+    expect(result).toMatchObject({ discount: 0, residualDiscount: -1, finalTotal: 1101 });
+    expect(lastLine(result.written)).toMatchObject({
+      amount: 1,
+      taxable: false,
+      description: 'Rounding',
+      adjustment: 'residual',
+    });
+    expect(adapter.getTotal('order_1', 'ceil')).toBe(1101);
+  });
+
+  it('should not write twice with the same idempotency key', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+    const options = { documentId: 'order_1', targetTotal: 40000, idempotencyKey: 'k1' };
+
+    const first = await fitDocument(adapter, options);
+    adapter.setDocument({ ...first.written, currency: 'usd' });
+    const retried = await fitDocument(adapter, options);
+
+    expect(retried.written).toEqual(first.written);
+    expect(adapter.getDocument('order_1')?.currency).toBe('usd');
+  });
+
+  it('should reject an idempotency key reused for other amounts', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+
+    await fitDocument(adapter, { documentId: 'order_1', targetTotal: 40000, idempotencyKey: 'k1' });
+
+    await expect(
+      fitDocument(adapter, { documentId: 'order_1', targetTotal: 39000, idempotencyKey: 'k1' })
+    ).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+    expect(adapter.getTotal('order_1')).toBe(40000);
+  });
+
+  it('should not write a line for a zero discount', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+
+    await fitDocument(adapter, { documentId: 'order_1', targetTotal: 39000 });
+    const result = await fitDocument(adapter, { documentId: 'order_1', targetTotal: 44000 });
+
+    expect(result.discount).toBe(0);
+    expect(result.written.lines).toEqual(order.lines);
+    expect(adapter.getTotal('order_1')).toBe(44000);
+  });
+
+  it('should keep stored documents from outside changes', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+
+    const loaded = await adapter.loadDocument('order_1');
+    loaded.lines.push({ id: 'line_3', amount: 1000 });
+
+    expect(adapter.getDocument('order_1')?.lines).toHaveLength(2);
+    expect(adapter.getDocument('order_2')).toBeUndefined();
+  });
+
+  it('should reject documents that cannot be adjusted', async () => {
+    const adapter = new InMemoryBillingAdapter([
+      { ...order, editable: false },
+      { ...order, id: 'order_2', lines: [] },
+      { ...order, id: 'order_3', taxRate: undefined },
+    ]);
+
+    await expect(
+      fitDocument(adapter, { documentId: 'order_1', targetTotal: 40000 })
+    ).rejects.toMatchObject({ code: 'DOCUMENT_NOT_EDITABLE' });
+    await expect(
+      fitDocument(adapter, { documentId: 'order_2', targetTotal: 40000 })
+    ).rejects.toMatchObject({ code: 'ZERO_SUBTOTAL' });
+    await expect(
+      fitDocument(adapter, { documentId: 'order_3', targetTotal: 40000 })
+    ).rejects.toThrow('Document order_3 has no tax rate. Pass taxRate to calculate the adjustment.');
+    await expect(
+      fitDocument(adapter, { documentId: 'missing', targetTotal: 40000 })
+    ).rejects.toMatchObject({ code: 'DOCUMENT_NOT_FOUND' });
+  });
+
+  it('should reject a tax rate that disagrees with the document', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+
+    await expect(
+      fitDocument(adapter, { documentId: 'order_1', targetTotal: 40000, taxRate: 0.08 })
+    ).rejects.toThrow('Tax rate 0.08 does not match the tax rate on document order_1 (0.1).');
+  });
+
+  it('should report calculation failures with their code', async () => {
+    const adapter = new InMemoryBillingAdapter([
+      { ...order, lines: [{ id: 'line_1', amount: 1000 }] },
+    ]);
+
+    const error = await fitDocument(adapter, {
+      documentId: 'order_1',
+      targetTotal: 1101,
+      roundMode: 'ceil',
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TaxFitterError);
+    expect(error).toMatchObject({ code: 'TARGET_UNREACHABLE' });
+  });
+});
+
+describe('fitDocument', () => {
+  it('should run the adapter steps in order', async () => {
+    const calls: string[] = [];
+    const adapter: BillingAdapter<{ id: string }, string> = {
+      loadDocument: vi.fn(async (documentId: string) => {
+        calls.push('load');
+        return { id: documentId };
+      }),
+      assertEditable: vi.fn(() => {
+        calls.push('assertEditable');
+      }),
+      readCurrency: vi.fn(() => {
+        calls.push('readCurrency');
+        return 'usd';
+      }),
+      readTaxableBase: vi.fn(() => {
+        calls.push('readTaxableBase');
+        return { subtotal: 10000, taxRate: 0.1, amountIncrement: 10 };
+      }),
+      writeAdjustment: vi.fn(async () => {
+        calls.push('write');
+        return 'written';
+      }),
+    };
+
+    const result = await fitDocument(adapter, {
+      documentId: 'doc_1',
+      targetTotal: 10890,
+      metadata: { order: 'A-1' },
+      idempotencyKey: 'key',
+    });
+
+    expect(calls).toEqual(['load', 'assertEditable', 'readCurrency', 'readTaxableBase', 'write']);
+    expect(result.written).toBe('written');
+    expect(result.discount).toBe(100);
+    expect(adapter.writeAdjustment).toHaveBeenCalledWith(
+      { id: 'doc_1' },
+      expect.objectContaining({
+        documentId: 'doc_1',
+        currency: 'usd',
+        targetTotal: 10890,
+        description: 'Tax adjustment',
+        metadata: { order: 'A-1' },
+        idempotencyKey: 'key',
+      })
+    );
+  });
+
+  it('should fit the target less the offset the adapter reports', async () => {
+    const adapter: BillingAdapter<{ id: string }, string> = {
+      loadDocument: async (documentId) => ({ id: documentId }),
+      assertEditable: () => {},
+      readCurrency: () => 'usd',
+      // A credit of 500 is applied after the total
+      readTaxableBase: () => ({ subtotal: 10000, taxRate: 0.1, targetOffset: -500 }),
+      writeAdjustment: async () => 'written',
+    };
+
+    const result = await fitDocument(adapter, { documentId: 'doc_1', targetTotal: 10500 });
+
+    expect(result).toMatchObject({ targetOffset: -500, discount: 0, finalTotal: 11000 });
+  });
+
+  it('should let the adapter check the target and build calculation errors', async () => {
+    const adapter: BillingAdapter<{ id: string }, string> = {
+      loadDocument: async (documentId) => ({ id: documentId }),
+      assertEditable: () => {},
+      readCurrency: () => 'usd',
+      readTaxableBase: () => ({ subtotal: 2000, taxRate: 0.1 }),
+      checkTarget: (_document, targetTotal) => {
+        if (targetTotal % 1 !== 0) throw new RangeError('Not a whole amount');
+      },
+      calculationError: (document, code, reason) => new Error(`${document.id} ${code}: ${reason}`),
+      writeAdjustment: vi.fn(async () => 'written'),
+    };
+
+    await expect(
+      fitDocument(adapter, { documentId: 'doc_1', targetTotal: 1100.5 })
+    ).rejects.toThrow(RangeError);
+    // 1101 is skipped with ceil rounding
+    await expect(
+      fitDocument(adapter, { documentId: 'doc_1', targetTotal: 1101, roundMode: 'ceil' })
+    ).rejects.toThrow('doc_1 TARGET_UNREACHABLE: ');
+    expect(adapter.writeAdjustment).not.toHaveBeenCalled();
+  });
+});
+
+describe('calculateDocumentAdjustment', () => {
+  it('should return the adjustment without writing it', async () => {
+    const adapter = new InMemoryBillingAdapter([order]);
+
+    const { document, adjustment } = await calculateDocumentAdjustment(adapter, {
+      documentId: 'order_1',
+      targetTotal: 40000,
+      idempotencyKey: 'key',
+    });
+
+    expect(document.id).toBe('order_1');
+    expect(adjustment).toMatchObject({
+      discount: 3636,
+      finalTotal: 40000,
+      description: 'Tax adjustment',
+      idempotencyKey: 'key',
+    });
+    expect(adapter.getTotal('order_1')).toBe(44000);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { calculateAdjustment, applyTax } from '../calculate';
+import { calculateAdjustment, findAdjustmentRange, applyTax, extractTax } from '../calculate';
 import type { AdjustmentParams } from '../types';
 
 describe('applyTax', () => {
@@ -28,6 +28,66 @@ describe('applyTax', () => {
     });
   });
 
+  describe('half rounding modes', () => {
+    it('should round halves to even', () => {
+      expect(applyTax(105, 0.1, 'half-even')).toBe(10); // 10.5 -> 10
+      expect(applyTax(115, 0.1, 'half-even')).toBe(12); // 11.5 -> 12
+      expect(applyTax(106, 0.1, 'half-even')).toBe(11); // 10.6 -> 11
+    });
+
+    it('should round halves down', () => {
+      expect(applyTax(105, 0.1, 'half-down')).toBe(10); // 10.5 -> 10
+      expect(applyTax(106, 0.1, 'half-down')).toBe(11); // 10.6 -> 11
+    });
+
+    it('should round halves away from zero', () => {
+      expect(applyTax(105, 0.1, 'half-away-from-zero')).toBe(11); // 10.5 -> 11
+      expect(applyTax(104, 0.1, 'half-away-from-zero')).toBe(10); // 10.4 -> 10
+    });
+
+    it('should truncate toward zero', () => {
+      expect(applyTax(109, 0.1, 'truncate')).toBe(10); // 10.9 -> 10
+    });
+  });
+
+  describe('rounding increments', () => {
+    it('should round the tax to the increment', () => {
+      // 10000 * 8.1% = 810.00, 10003 * 8.1% = 810.243
+      expect(applyTax(10003, 0.081, 'round', 5)).toBe(810);
+      expect(applyTax(10003, 0.081, 'ceil', 5)).toBe(815);
+      expect(applyTax(10003, 0.081, 'floor', 100)).toBe(800);
+    });
+
+    it('should default to the smallest currency unit', () => {
+      expect(applyTax(10003, 0.081, 'round')).toBe(applyTax(10003, 0.081, 'round', 1));
+    });
+
+    it('should reject invalid increments', () => {
+      expect(() => applyTax(100, 0.1, 'floor', 0)).toThrow(RangeError);
+    });
+  });
+
+  describe('negative amounts', () => {
+    it('should round credits according to each mode', () => {
+      expect(applyTax(-105, 0.1, 'floor')).toBe(-11); // -10.5 -> -11
+      expect(applyTax(-105, 0.1, 'ceil')).toBe(-10);
+      expect(applyTax(-105, 0.1, 'round')).toBe(-10);
+      expect(applyTax(-105, 0.1, 'half-even')).toBe(-10);
+      expect(applyTax(-115, 0.1, 'half-even')).toBe(-12);
+      expect(applyTax(-105, 0.1, 'half-down')).toBe(-10);
+      expect(applyTax(-105, 0.1, 'half-away-from-zero')).toBe(-11);
+      expect(applyTax(-109, 0.1, 'truncate')).toBe(-10);
+    });
+
+    it('should mirror positive amounts for symmetric modes', () => {
+      for (const mode of ['half-even', 'half-down', 'half-away-from-zero', 'truncate'] as const) {
+        for (const amount of [101, 104, 105, 106, 115, 999]) {
+          expect(applyTax(-amount, 0.1, mode)).toBe(-applyTax(amount, 0.1, mode));
+        }
+      }
+    });
+  });
+
   describe('different tax rates', () => {
     it('should handle 8% tax rate', () => {
       expect(applyTax(1000, 0.08, 'floor')).toBe(80);
@@ -39,6 +99,55 @@ describe('applyTax', () => {
       expect(applyTax(1001, 0.1, 'floor')).toBe(100); // 100.1 -> 100
     });
   });
+
+  describe('exact rational arithmetic', () => {
+    it('should not drift at exact boundaries', () => {
+      // 0.07 * 100 = 7.000000000000001 in floating point
+      expect(applyTax(100, 0.07, 'ceil')).toBe(7);
+      // 0.085 * 200 = 17.000000000000004 in floating point
+      expect(applyTax(200, 0.085, 'ceil')).toBe(17);
+      // 0.0825 * 400 = 33.00000000000001 in floating point
+      expect(applyTax(400, 0.0825, 'ceil')).toBe(33);
+    });
+
+    it('should accept rational tax rates', () => {
+      expect(applyTax(10000, { numerator: 825, denominator: 10000 }, 'floor')).toBe(825);
+      expect(applyTax(101, { numerator: 1, denominator: 3 }, 'floor')).toBe(33);
+      expect(applyTax(101, { numerator: 1, denominator: 3 }, 'ceil')).toBe(34);
+    });
+
+    it('should stay exact for large amounts', () => {
+      expect(applyTax(Number.MAX_SAFE_INTEGER, 0.1, 'floor')).toBe(900719925474099);
+    });
+
+    it('should reject fractional amounts', () => {
+      expect(() => applyTax(100.5, 0.1)).toThrow(RangeError);
+    });
+  });
+});
+
+describe('extractTax', () => {
+  it('should extract tax from tax-inclusive amounts', () => {
+    expect(extractTax(1100, 0.1, 'floor')).toBe(100);
+    expect(extractTax(1080, 0.08, 'floor')).toBe(80);
+  });
+
+  it('should apply the rounding mode to the extracted tax', () => {
+    // 1000 * 0.1 / 1.1 = 90.909...
+    expect(extractTax(1000, 0.1, 'floor')).toBe(90);
+    expect(extractTax(1000, 0.1, 'ceil')).toBe(91);
+    expect(extractTax(1000, 0.1, 'round')).toBe(91);
+  });
+
+  it('should return zero for zero tax rate', () => {
+    expect(extractTax(1000, 0, 'floor')).toBe(0);
+  });
+
+  it('should extract exactly at boundaries', () => {
+    // 11000 * 0.1 / 1.1 = 999.9999999999999 in floating point
+    expect(extractTax(11000, 0.1, 'floor')).toBe(1000);
+    expect(extractTax(10700, { numerator: 7, denominator: 100 }, 'ceil')).toBe(700);
+  });
 });
 
 describe('calculateAdjustment', () => {
@@ -177,6 +286,7 @@ describe('calculateAdjustment', () => {
 
       expect(result.isValid).toBe(false);
       expect(result.error).toBe('Subtotal cannot be negative');
+      expect(result.errorCode).toBe('INVALID_INPUT');
     });
 
     it('should reject invalid tax rate (negative)', () => {
@@ -206,6 +316,53 @@ describe('calculateAdjustment', () => {
       expect(result.isValid).toBe(false);
       expect(result.error).toBe('Tax rate must be between 0 and 1');
     });
+
+    it('should accept tax rates over 100% when allowed', () => {
+      const result = calculateAdjustment({
+        subtotal: 1000,
+        targetTotal: 2400,
+        taxRate: 1.5,
+        allowRateAboveOne: true,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.discount).toBe(40);
+      expect(result.taxAmount).toBe(1440);
+    });
+
+    it.each([
+      [{ subtotal: NaN }, 'Subtotal must be a number'],
+      [{ subtotal: Infinity }, 'Subtotal must be finite'],
+      [{ subtotal: Number.MAX_SAFE_INTEGER + 1 }, 'Subtotal exceeds the safe integer range'],
+      [{ targetTotal: NaN }, 'Target total must be a number'],
+      [{ targetTotal: -Infinity }, 'Target total must be finite'],
+      [{ targetTotal: -100 }, 'Target total cannot be negative'],
+      [{ targetTotal: 0 }, 'Target total must be greater than zero'],
+      [{ targetTotal: 1100.5 }, 'Target total must be an integer'],
+      [{ targetTotal: 2 ** 53 }, 'Target total exceeds the safe integer range'],
+      [{ subtotal: 2 ** 52 }, 'Subtotal is too large to adjust safely'],
+      [
+        { targetTotal: 2201 },
+        'Target total 2201 is more than the largest reachable total (2200) for subtotal 1000',
+      ],
+      [{ roundMode: 'nearest' }, 'Unknown rounding mode: nearest'],
+      [{ totalRoundMode: 'up' }, 'Unknown total rounding mode: up'],
+      [{ pricingMode: 'gross' }, 'Unknown pricing mode: gross'],
+      [{ selectionPolicy: 'random' }, 'Unknown selection policy: random'],
+      [{ allowResidual: 'yes' }, 'allowResidual must be a boolean'],
+      [{ taxRate: '0.1' }, 'Tax rate must be a number or a rational'],
+    ])('should reject %o', (overrides, error) => {
+      const result = calculateAdjustment({
+        subtotal: 1000,
+        targetTotal: 1100,
+        taxRate: 0.1,
+        ...(overrides as Partial<AdjustmentParams>),
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(error);
+      expect(result.errorCode).toBe('INVALID_INPUT');
+    });
   });
 
   describe('different tax rates', () => {
@@ -252,6 +409,62 @@ describe('calculateAdjustment', () => {
     });
   });
 
+  describe('rational tax rates', () => {
+    it('should fit targets with a rational tax rate', () => {
+      const result = calculateAdjustment({
+        subtotal: 10000,
+        targetTotal: 10500,
+        taxRate: { numerator: 825, denominator: 10000 },
+        roundMode: 'floor',
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.finalTotal).toBe(10500);
+      expect(result.taxAmount).toBe(
+        applyTax(result.adjustedSubtotal, { numerator: 825, denominator: 10000 }, 'floor')
+      );
+    });
+
+    it('should give the same result for equivalent number and rational rates', () => {
+      const fromNumber = calculateAdjustment({
+        subtotal: 10000,
+        targetTotal: 10600,
+        taxRate: 0.07,
+        roundMode: 'ceil',
+      });
+      const fromRational = calculateAdjustment({
+        subtotal: 10000,
+        targetTotal: 10600,
+        taxRate: { numerator: 7, denominator: 100 },
+        roundMode: 'ceil',
+      });
+
+      expect(fromNumber).toEqual(fromRational);
+    });
+
+    it('should reject fractional amounts', () => {
+      const result = calculateAdjustment({
+        subtotal: 1000.5,
+        targetTotal: 1100,
+        taxRate: 0.1,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Subtotal must be an integer');
+    });
+
+    it('should reject rationals with a non-positive denominator', () => {
+      const result = calculateAdjustment({
+        subtotal: 1000,
+        targetTotal: 1100,
+        taxRate: { numerator: 1, denominator: 0 },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Tax rate denominator must be positive');
+    });
+  });
+
   describe('floating-point precision', () => {
     it('should handle precision with small tax rates', () => {
       const params: AdjustmentParams = {
@@ -340,3 +553,468 @@ describe('calculateAdjustment', () => {
     });
   });
 });
+
+describe('calculateAdjustment with inclusive pricing', () => {
+  it('should fit a tax-inclusive subtotal to the target', () => {
+    const params: AdjustmentParams = {
+      subtotal: 11000,
+      targetTotal: 9980,
+      taxRate: 0.1,
+      roundMode: 'floor',
+      pricingMode: 'inclusive',
+    };
+
+    const result = calculateAdjustment(params);
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBe(1020);
+    expect(result.adjustedSubtotal).toBe(9980);
+    expect(result.finalTotal).toBe(9980);
+  });
+
+  it('should report the tax extracted from the adjusted amount', () => {
+    const result = calculateAdjustment({
+      subtotal: 11000,
+      targetTotal: 9980,
+      taxRate: 0.1,
+      roundMode: 'floor',
+      pricingMode: 'inclusive',
+    });
+
+    // floor(9980 * 0.1 / 1.1) = floor(907.27...) = 907
+    expect(result.taxAmount).toBe(907);
+  });
+
+  it('should return no discount when already at target', () => {
+    const result = calculateAdjustment({
+      subtotal: 10800,
+      targetTotal: 10800,
+      taxRate: 0.08,
+      pricingMode: 'inclusive',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBe(0);
+    expect(result.taxAmount).toBe(800);
+  });
+
+  it('should handle surcharges', () => {
+    const result = calculateAdjustment({
+      subtotal: 10000,
+      targetTotal: 12000,
+      taxRate: 0.1,
+      pricingMode: 'inclusive',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBe(-2000);
+    expect(result.finalTotal).toBe(12000);
+  });
+
+  it('should default to exclusive pricing', () => {
+    const exclusive = calculateAdjustment({
+      subtotal: 290000,
+      targetTotal: 315000,
+      taxRate: 0.1,
+      pricingMode: 'exclusive',
+    });
+    const defaulted = calculateAdjustment({
+      subtotal: 290000,
+      targetTotal: 315000,
+      taxRate: 0.1,
+    });
+
+    expect(defaulted).toEqual(exclusive);
+  });
+});
+
+describe('findAdjustmentRange', () => {
+  it('should return the discounts that reach the target', () => {
+    const range = findAdjustmentRange({
+      subtotal: 290000,
+      targetTotal: 315000,
+      taxRate: 0.1,
+      roundMode: 'floor',
+    });
+
+    expect(range).toEqual({
+      isValid: true,
+      minDiscount: 3636,
+      maxDiscount: 3636,
+      count: 1,
+    });
+  });
+
+  it('should only contain discounts that reach the target', () => {
+    const params: AdjustmentParams = {
+      subtotal: 10000,
+      targetTotal: 10650,
+      taxRate: 0.065,
+      roundMode: 'round',
+    };
+
+    const range = findAdjustmentRange(params);
+
+    expect(range.isValid).toBe(true);
+    for (let discount = range.minDiscount; discount <= range.maxDiscount; discount++) {
+      const adjusted = params.subtotal - discount;
+      expect(adjusted + applyTax(adjusted, params.taxRate, 'round')).toBe(params.targetTotal);
+    }
+  });
+
+  it('should report an empty range when the target is skipped', () => {
+    // 1000 + ceil(1000 * 0.1) = 1100 and 1001 + ceil(100.1) = 1102, so 1101 is skipped
+    const range = findAdjustmentRange({
+      subtotal: 2000,
+      targetTotal: 1101,
+      taxRate: 0.1,
+      roundMode: 'ceil',
+    });
+
+    expect(range.isValid).toBe(false);
+    expect(range.count).toBe(0);
+    expect(range.error).toBe('No discount reaches target total 1101');
+    expect(range.errorCode).toBe('TARGET_UNREACHABLE');
+  });
+
+  it('should report validation errors', () => {
+    const range = findAdjustmentRange({
+      subtotal: -1,
+      targetTotal: 100,
+      taxRate: 0.1,
+    });
+
+    expect(range.isValid).toBe(false);
+    expect(range.error).toBe('Subtotal cannot be negative');
+    expect(range.errorCode).toBe('INVALID_INPUT');
+  });
+});
+
+describe('calculateAdjustment selection policy', () => {
+  it('should default to the smallest discount', () => {
+    const result = calculateAdjustment({
+      subtotal: 1000,
+      targetTotal: 1100,
+      taxRate: 0.1,
+    });
+
+    expect(result.discount).toBe(0);
+  });
+
+  it('should return a discount inside the valid range for every policy', () => {
+    const params: AdjustmentParams = {
+      subtotal: 290000,
+      targetTotal: 315000,
+      taxRate: 0.1,
+    };
+    const range = findAdjustmentRange(params);
+
+    for (const selectionPolicy of [
+      'smallest-discount',
+      'largest-base',
+      'largest-tax',
+      'round-number',
+    ] as const) {
+      const result = calculateAdjustment({ ...params, selectionPolicy });
+
+      expect(result.isValid).toBe(true);
+      expect(result.discount).toBeGreaterThanOrEqual(range.minDiscount);
+      expect(result.discount).toBeLessThanOrEqual(range.maxDiscount);
+    }
+  });
+
+  it('should be deterministic', () => {
+    const params: AdjustmentParams = {
+      subtotal: 123457,
+      targetTotal: 100000,
+      taxRate: 0.08,
+      selectionPolicy: 'round-number',
+    };
+
+    expect(calculateAdjustment(params)).toEqual(calculateAdjustment(params));
+  });
+});
+
+describe('calculateAdjustment with residual', () => {
+  // 1000 + ceil(100) = 1100 and 1001 + ceil(100.1) = 1102, so 1101 cannot be reached
+  const unreachable: AdjustmentParams = {
+    subtotal: 2000,
+    targetTotal: 1101,
+    taxRate: 0.1,
+    roundMode: 'ceil',
+  };
+
+  it('should report the unreachable target without residual', () => {
+    const result = calculateAdjustment(unreachable);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorCode).toBe('TARGET_UNREACHABLE');
+    expect(result.residualDiscount).toBeUndefined();
+  });
+
+  it('should split the fix into a taxable discount and a residual', () => {
+    const result = calculateAdjustment({ ...unreachable, allowResidual: true });
+
+    expect(result.isValid).toBe(true);
+    expect(result.finalTotal).toBe(1101);
+    expect(result.error).toBeUndefined();
+    expect(Math.abs(result.residualDiscount ?? 0)).toBe(1);
+    expect(
+      result.adjustedSubtotal + result.taxAmount - (result.residualDiscount ?? 0)
+    ).toBe(1101);
+  });
+
+  it('should keep the taxable part consistent with applyTax', () => {
+    const result = calculateAdjustment({ ...unreachable, allowResidual: true });
+
+    expect(result.adjustedSubtotal).toBe(unreachable.subtotal - result.discount);
+    expect(result.taxAmount).toBe(applyTax(result.adjustedSubtotal, 0.1, 'ceil'));
+  });
+
+  it('should use a zero residual when the target is reachable', () => {
+    const result = calculateAdjustment({
+      subtotal: 290000,
+      targetTotal: 315000,
+      taxRate: 0.1,
+      allowResidual: true,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBe(3636);
+    expect(result.residualDiscount).toBe(0);
+  });
+
+  it('should cover targets beyond the search range', () => {
+    const result = calculateAdjustment({
+      subtotal: 1000,
+      targetTotal: 5000,
+      taxRate: 0.1,
+      allowResidual: true,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBe(-1000);
+    expect(result.residualDiscount).toBe(2200 - 5000);
+    expect(result.finalTotal).toBe(5000);
+  });
+
+  it('should still reject invalid input', () => {
+    const result = calculateAdjustment({
+      subtotal: -1,
+      targetTotal: 100,
+      taxRate: 0.1,
+      allowResidual: true,
+    });
+
+    expect(result.isValid).toBe(false);
+  });
+});
+
+describe('calculateAdjustment with every rounding mode', () => {
+  const modes = [
+    'floor',
+    'ceil',
+    'round',
+    'half-even',
+    'half-down',
+    'half-away-from-zero',
+    'truncate',
+  ] as const;
+
+  it.each(modes)('should fit discounts with %s', (roundMode) => {
+    const result = calculateAdjustment({
+      subtotal: 290000,
+      targetTotal: 315000,
+      taxRate: 0.1,
+      roundMode,
+      allowResidual: true,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBeGreaterThan(0);
+    expect(result.taxAmount).toBe(applyTax(result.adjustedSubtotal, 0.1, roundMode));
+    expect(result.finalTotal).toBe(315000);
+  });
+
+  it.each(modes)('should fit surcharges with %s', (roundMode) => {
+    const result = calculateAdjustment({
+      subtotal: 10005,
+      targetTotal: 12346,
+      taxRate: 0.1,
+      roundMode,
+      allowResidual: true,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBeLessThan(0);
+    expect(result.taxAmount).toBe(applyTax(result.adjustedSubtotal, 0.1, roundMode));
+    expect(
+      result.adjustedSubtotal + result.taxAmount - (result.residualDiscount ?? 0)
+    ).toBe(12346);
+  });
+
+  it.each(modes)('should reach every reachable total with %s', (roundMode) => {
+    for (let targetTotal = 1000; targetTotal <= 1050; targetTotal++) {
+      const range = findAdjustmentRange({
+        subtotal: 1000,
+        targetTotal,
+        taxRate: 0.1,
+        roundMode,
+      });
+      const result = calculateAdjustment({
+        subtotal: 1000,
+        targetTotal,
+        taxRate: 0.1,
+        roundMode,
+      });
+
+      expect(result.isValid).toBe(range.isValid);
+      if (result.isValid) {
+        expect(result.finalTotal).toBe(targetTotal);
+      }
+    }
+  });
+});
+
+describe('calculateAdjustment with cash rounding', () => {
+  // CHF 100.00 at 8.1% VAT, rounded to CHF 0.05
+  const chf: AdjustmentParams = {
+    subtotal: 10000,
+    targetTotal: 10500,
+    taxRate: 0.081,
+    roundMode: 'round',
+    totalIncrement: 5,
+  };
+
+  it('should fit a target on the increment grid', () => {
+    const result = calculateAdjustment(chf);
+
+    expect(result.isValid).toBe(true);
+    expect(result.finalTotal).toBe(10500);
+    expect(result.finalTotal % 5).toBe(0);
+  });
+
+  it('should report the rounding difference separately', () => {
+    const result = calculateAdjustment(chf);
+
+    expect(result.roundingDifference).toBeDefined();
+    expect(result.adjustedSubtotal + result.taxAmount + (result.roundingDifference ?? 0)).toBe(
+      result.finalTotal
+    );
+    expect(Math.abs(result.roundingDifference ?? 0)).toBeLessThanOrEqual(2);
+  });
+
+  it('should omit the rounding difference without a total increment', () => {
+    const result = calculateAdjustment({ ...chf, totalIncrement: undefined });
+
+    expect(result.roundingDifference).toBeUndefined();
+  });
+
+  it('should find several discounts on the grid and honour the selection policy', () => {
+    const range = findAdjustmentRange(chf);
+
+    expect(range.isValid).toBe(true);
+    expect(range.count).toBeGreaterThan(1);
+
+    const largestBase = calculateAdjustment({ ...chf, selectionPolicy: 'largest-base' });
+    const smallest = calculateAdjustment({ ...chf, selectionPolicy: 'smallest-discount' });
+
+    expect(largestBase.discount).toBe(range.minDiscount);
+    expect(smallest.discount).toBe(range.minDiscount);
+    expect(largestBase.finalTotal).toBe(10500);
+  });
+
+  it('should fit SEK totals rounded to whole kronor', () => {
+    const result = calculateAdjustment({
+      subtotal: 79900,
+      targetTotal: 95000,
+      taxRate: 0.25,
+      roundMode: 'round',
+      totalIncrement: 100,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.finalTotal).toBe(95000);
+  });
+
+  it('should round the tax to its own increment', () => {
+    const result = calculateAdjustment({ ...chf, taxIncrement: 5 });
+
+    expect(result.isValid).toBe(true);
+    expect(result.taxAmount % 5).toBe(0);
+  });
+
+  it('should reject targets off the increment grid', () => {
+    const result = calculateAdjustment({ ...chf, targetTotal: 10502 });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe(
+      'Target total must be a multiple of the total rounding increment (5)'
+    );
+  });
+
+  it('should reject invalid increments', () => {
+    expect(calculateAdjustment({ ...chf, totalIncrement: 0 }).error).toBe(
+      'Total rounding increment must be a positive integer'
+    );
+    expect(calculateAdjustment({ ...chf, taxIncrement: 1.5 }).error).toBe(
+      'Tax rounding increment must be a positive integer'
+    );
+  });
+});
+
+describe('calculateAdjustment with discount increment', () => {
+  it('should only return discounts on the increment', () => {
+    const result = calculateAdjustment({
+      subtotal: 100000,
+      targetTotal: 99750,
+      taxRate: 0.05,
+      discountIncrement: 10,
+      allowResidual: true,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount % 10).toBe(0);
+    expect(result.finalTotal).toBe(99750);
+  });
+
+  it('should pick a round amount rather than a round number of increments', () => {
+    // Discounts from 50 to 135 reach the target; 100 is rounder than 50 (10 increments)
+    const result = calculateAdjustment({
+      subtotal: 1000,
+      targetTotal: 1000,
+      taxRate: 0.1,
+      totalIncrement: 100,
+      discountIncrement: 5,
+      selectionPolicy: 'round-number',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBe(100);
+  });
+
+  it('should report ranges in multiples of the increment', () => {
+    const range = findAdjustmentRange({
+      subtotal: 100000,
+      targetTotal: 99750,
+      taxRate: 0.05,
+      discountIncrement: 10,
+      totalIncrement: 10,
+    });
+
+    expect(range.isValid).toBe(true);
+    expect(range.minDiscount % 10).toBe(0);
+    expect(range.maxDiscount % 10).toBe(0);
+  });
+
+  it('should reject invalid increments', () => {
+    const result = calculateAdjustment({
+      subtotal: 1000,
+      targetTotal: 1100,
+      taxRate: 0.1,
+      discountIncrement: 0,
+    });
+
+    expect(result.error).toBe('Discount increment must be a positive integer');
+  });
+});
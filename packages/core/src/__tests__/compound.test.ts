@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { applyTaxComponents, calculateCompoundAdjustment } from '../compound';
+import { applyTax, calculateAdjustment } from '../calculate';
+import type { TaxComponent } from '../types';
+
+// GST 5% plus a provincial tax of 9.975% levied on the GST-inclusive amount
+const STACKED: TaxComponent[] = [
+  { name: 'GST', taxRate: 0.05 },
+  { name: 'QST', taxRate: 0.09975, compound: true },
+];
+
+describe('applyTaxComponents', () => {
+  it('should levy regular components on the amount', () => {
+    const taxes = applyTaxComponents(10000, [
+      { name: 'GST', taxRate: 0.05 },
+      { name: 'PST', taxRate: 0.07 },
+    ]);
+
+    expect(taxes).toEqual([
+      { name: 'GST', taxRate: 0.05, taxableAmount: 10000, taxAmount: 500 },
+      { name: 'PST', taxRate: 0.07, taxableAmount: 10000, taxAmount: 700 },
+    ]);
+  });
+
+  it('should levy compound components on the amount plus earlier taxes', () => {
+    const taxes = applyTaxComponents(10000, STACKED);
+
+    expect(taxes[0]?.taxAmount).toBe(500);
+    expect(taxes[1]?.taxableAmount).toBe(10500);
+    // 10500 * 9.975% = 1047.375
+    expect(taxes[1]?.taxAmount).toBe(1047);
+  });
+
+  it('should round each component with its own rounding mode', () => {
+    const taxes = applyTaxComponents(10000, [
+      { taxRate: 0.05 },
+      { taxRate: 0.09975, compound: true, roundMode: 'ceil' },
+    ]);
+
+    expect(taxes[1]?.taxAmount).toBe(1048);
+    expect(taxes[1]).not.toHaveProperty('name');
+  });
+
+  it('should match applyTax for a single component', () => {
+    const [tax] = applyTaxComponents(12345, [{ taxRate: 0.1, roundMode: 'round' }]);
+    expect(tax?.taxAmount).toBe(applyTax(12345, 0.1, 'round'));
+  });
+});
+
+describe('calculateCompoundAdjustment', () => {
+  it('should reach the target grand total', () => {
+    const result = calculateCompoundAdjustment({
+      subtotal: 10000,
+      targetTotal: 11000,
+      components: STACKED,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.finalTotal).toBe(11000);
+    expect(result.adjustedSubtotal).toBe(10000 - result.discount);
+    expect(result.taxAmount).toBe(
+      result.components.reduce((sum, component) => sum + component.taxAmount, 0)
+    );
+    expect(result.components).toEqual(
+      applyTaxComponents(result.adjustedSubtotal, STACKED)
+    );
+  });
+
+  it('should support surcharges', () => {
+    const result = calculateCompoundAdjustment({
+      subtotal: 10000,
+      targetTotal: 12000,
+      components: STACKED,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBeLessThan(0);
+    expect(result.finalTotal).toBe(12000);
+  });
+
+  it('should agree with calculateAdjustment for a single component', () => {
+    const compound = calculateCompoundAdjustment({
+      subtotal: 290000,
+      targetTotal: 315000,
+      components: [{ taxRate: 0.1 }],
+    });
+    const single = calculateAdjustment({
+      subtotal: 290000,
+      targetTotal: 315000,
+      taxRate: 0.1,
+    });
+
+    expect(compound.discount).toBe(single.discount);
+    expect(compound.taxAmount).toBe(single.taxAmount);
+  });
+
+  it('should apply the selection policy', () => {
+    const params = {
+      subtotal: 10000,
+      targetTotal: 11000,
+      components: [
+        { taxRate: 0.05, roundMode: 'floor' as const },
+        { taxRate: 0.05, roundMode: 'floor' as const },
+      ],
+    };
+
+    const smallest = calculateCompoundAdjustment(params);
+    const largestBase = calculateCompoundAdjustment({
+      ...params,
+      selectionPolicy: 'largest-base',
+    });
+
+    expect(smallest.finalTotal).toBe(11000);
+    expect(largestBase.finalTotal).toBe(11000);
+    expect(largestBase.discount).toBeLessThanOrEqual(smallest.discount);
+  });
+
+  it('should report the closest total when the target is unreachable', () => {
+    // Totals jump by 2 around this amount with two 50% components
+    const result = calculateCompoundAdjustment({
+      subtotal: 1000,
+      targetTotal: 1501,
+      components: [{ taxRate: 0.5 }, { taxRate: 0.5, compound: true }],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toMatch(/Could not find exact adjustment/);
+    expect(result.errorCode).toBe('TARGET_UNREACHABLE');
+  });
+
+  it('should reject an empty component list', () => {
+    const result = calculateCompoundAdjustment({
+      subtotal: 1000,
+      targetTotal: 1100,
+      components: [],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('At least one tax component is required');
+  });
+
+  it('should reject invalid component rates', () => {
+    const result = calculateCompoundAdjustment({
+      subtotal: 1000,
+      targetTotal: 1100,
+      components: [{ taxRate: 0.05 }, { taxRate: -0.1 }],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  it('should reject fractional amounts', () => {
+    const result = calculateCompoundAdjustment({
+      subtotal: 1000.5,
+      targetTotal: 1100,
+      components: STACKED,
+    });
+
+    expect(result.error).toBe('Subtotal must be an integer');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMinorUnits,
+  toMinorUnits,
+  toMajorUnits,
+  assertMinorUnits,
+  formatMoney,
+  calculateMoneyAdjustment,
+} from '../currency';
+
+describe('getMinorUnits', () => {
+  it('should return ISO 4217 minor units', () => {
+    expect(getMinorUnits('JPY')).toBe(0);
+    expect(getMinorUnits('usd')).toBe(2);
+    expect(getMinorUnits('EUR')).toBe(2);
+    expect(getMinorUnits('KWD')).toBe(3);
+    expect(getMinorUnits('CLF')).toBe(4);
+  });
+
+  it('should reject malformed currency codes', () => {
+    expect(() => getMinorUnits('yen')).not.toThrow();
+    expect(() => getMinorUnits('US')).toThrow('Invalid currency code: US');
+    expect(() => getMinorUnits('usd1')).toThrow(RangeError);
+  });
+});
+
+describe('toMinorUnits', () => {
+  it('should convert major units to integer minor units', () => {
+    expect(toMinorUnits(12.34, 'USD')).toBe(1234);
+    expect(toMinorUnits('12.3', 'USD')).toBe(1230);
+    expect(toMinorUnits(315000, 'JPY')).toBe(315000);
+    expect(toMinorUnits('1.234', 'KWD')).toBe(1234);
+    expect(toMinorUnits(-5.5, 'EUR')).toBe(-550);
+  });
+
+  it('should not drift on binary fractions', () => {
+    // 0.1 + 0.2 = 0.30000000000000004 in floating point
+    expect(toMinorUnits('0.30', 'USD')).toBe(30);
+    expect(toMinorUnits(1.15, 'USD')).toBe(115);
+    expect(toMinorUnits(4.35, 'USD')).toBe(435);
+  });
+
+  it('should ignore trailing zeros', () => {
+    expect(toMinorUnits('100.00', 'JPY')).toBe(100);
+  });
+
+  it('should reject too many decimals for the currency', () => {
+    expect(() => toMinorUnits(1.5, 'JPY')).toThrow(
+      'Amount 1.5 has more than 0 decimal places allowed for JPY'
+    );
+    expect(() => toMinorUnits('1.234', 'USD')).toThrow(RangeError);
+  });
+
+  it('should reject non-numeric input', () => {
+    expect(() => toMinorUnits('abc', 'USD')).toThrow('Invalid amount: abc');
+    expect(() => toMinorUnits(NaN, 'USD')).toThrow(RangeError);
+  });
+});
+
+describe('toMajorUnits', () => {
+  it('should convert minor units to major units', () => {
+    expect(toMajorUnits(1234, 'USD')).toBe(12.34);
+    expect(toMajorUnits(315000, 'JPY')).toBe(315000);
+    expect(toMajorUnits(1234, 'KWD')).toBe(1.234);
+  });
+});
+
+describe('assertMinorUnits', () => {
+  it('should reject fractional amounts', () => {
+    expect(() => assertMinorUnits(12.5, 'usd')).toThrow(
+      'Amount must be an integer in the smallest unit of USD, got 12.5'
+    );
+    expect(() => assertMinorUnits(1250, 'usd')).not.toThrow();
+  });
+});
+
+describe('formatMoney', () => {
+  it('should format with the currency minor units', () => {
+    expect(formatMoney({ amount: 315000, currency: 'JPY' }, 'en-US')).toBe('¥315,000');
+    expect(formatMoney({ amount: 9900, currency: 'usd' }, 'en-US')).toBe('$99.00');
+    expect(formatMoney({ amount: 1234, currency: 'KWD' }, 'en-US')).toContain('1.234');
+  });
+});
+
+describe('calculateMoneyAdjustment', () => {
+  it('should calculate with Money amounts and format the result', () => {
+    const result = calculateMoneyAdjustment({
+      subtotal: { amount: 290000, currency: 'JPY' },
+      targetTotal: { amount: 315000, currency: 'jpy' },
+      taxRate: 0.1,
+      locale: 'en-US',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.currency).toBe('JPY');
+    expect(result.discount).toBe(3636);
+    expect(result.formatted).toEqual({
+      discount: '¥3,636',
+      adjustedSubtotal: '¥286,364',
+      taxAmount: '¥28,636',
+      finalTotal: '¥315,000',
+    });
+  });
+
+  it('should accept amounts converted from major units', () => {
+    const result = calculateMoneyAdjustment({
+      subtotal: { amount: toMinorUnits('100.00', 'USD'), currency: 'USD' },
+      targetTotal: { amount: toMinorUnits('99.00', 'USD'), currency: 'USD' },
+      taxRate: 0.1,
+      locale: 'en-US',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.formatted.finalTotal).toBe('$99.00');
+  });
+
+  it('should reject mismatched currencies as invalid input', () => {
+    const result = calculateMoneyAdjustment({
+      subtotal: { amount: 1000, currency: 'USD' },
+      targetTotal: { amount: 1100, currency: 'eur' },
+      taxRate: 0.1,
+      locale: 'en-US',
+    });
+
+    expect(result).toMatchObject({
+      isValid: false,
+      discount: 0,
+      finalTotal: 1000,
+      currency: 'USD',
+      error: 'Currency mismatch: subtotal is USD, target total is EUR',
+      errorCode: 'INVALID_INPUT',
+    });
+    expect(result.formatted.finalTotal).toBe('$10.00');
+  });
+
+  it('should reject fractional minor units', () => {
+    expect(() =>
+      calculateMoneyAdjustment({
+        subtotal: { amount: 1000.5, currency: 'USD' },
+        targetTotal: { amount: 1100, currency: 'USD' },
+        taxRate: 0.1,
+      })
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAdjustment } from '../calculate';
+import { TaxFitterError, assertValidAdjustment } from '../errors';
+
+describe('TaxFitterError', () => {
+  it('should carry a code and an optional cause', () => {
+    const cause = new Error('Socket closed');
+    const error = new TaxFitterError('INVALID_INPUT', 'Subtotal cannot be negative', { cause });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('TaxFitterError');
+    expect(error.code).toBe('INVALID_INPUT');
+    expect(error.message).toBe('Subtotal cannot be negative');
+    expect(error.cause).toBe(cause);
+    expect('cause' in new TaxFitterError('INVALID_INPUT', 'No cause')).toBe(false);
+  });
+});
+
+describe('assertValidAdjustment', () => {
+  it('should return a valid result', () => {
+    const result = calculateAdjustment({ subtotal: 1000, targetTotal: 1100, taxRate: 0.1 });
+
+    expect(assertValidAdjustment(result)).toBe(result);
+  });
+
+  it('should throw with the result error code', () => {
+    // 1101 is skipped with ceil rounding
+    const unreachable = calculateAdjustment({
+      subtotal: 2000,
+      targetTotal: 1101,
+      taxRate: 0.1,
+      roundMode: 'ceil',
+    });
+
+    expect(() => assertValidAdjustment(unreachable)).toThrow(
+      expect.objectContaining({
+        code: 'TARGET_UNREACHABLE',
+        message: expect.stringContaining('Could not find exact adjustment'),
+      })
+    );
+  });
+
+  it('should throw INVALID_INPUT for invalid parameters', () => {
+    const invalid = calculateAdjustment({ subtotal: -1, targetTotal: 100, taxRate: 0.1 });
+
+    expect(() => assertValidAdjustment(invalid)).toThrow(TaxFitterError);
+    expect(() => assertValidAdjustment(invalid)).toThrow('Subtotal cannot be negative');
+  });
+});
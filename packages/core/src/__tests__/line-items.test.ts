@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLineItemAdjustment, calculateLineItemTax } from '../line-items';
+import { applyTax } from '../calculate';
+import type { LineItem } from '../types';
+
+// Three lines of 105 at 10%: per line 10 + 10 + 10 = 30, per document floor(31.5) = 31
+const LINES: LineItem[] = [
+  { amount: 105, taxRate: 0.1 },
+  { amount: 105, taxRate: 0.1 },
+  { amount: 105, taxRate: 0.1 },
+];
+
+describe('calculateLineItemTax', () => {
+  it('should round once per rate with document scope', () => {
+    expect(calculateLineItemTax(LINES, 'floor', 'document')).toBe(31);
+  });
+
+  it('should round every line with line scope', () => {
+    expect(calculateLineItemTax(LINES, 'floor', 'line')).toBe(30);
+  });
+
+  it('should default to floor and document scope', () => {
+    expect(calculateLineItemTax(LINES)).toBe(31);
+  });
+
+  it('should group equal rates given in different forms', () => {
+    const tax = calculateLineItemTax([
+      { amount: 105, taxRate: 0.1 },
+      { amount: 105, taxRate: { numerator: 1, denominator: 10 } },
+    ]);
+    expect(tax).toBe(21);
+  });
+
+  it('should round each rate separately with document scope', () => {
+    const tax = calculateLineItemTax([
+      { amount: 1005, taxRate: 0.08 },
+      { amount: 1005, taxRate: 0.1 },
+    ]);
+    expect(tax).toBe(applyTax(1005, 0.08) + applyTax(1005, 0.1));
+  });
+
+  it('should include credit lines', () => {
+    const tax = calculateLineItemTax(
+      [
+        { amount: 1000, taxRate: 0.1 },
+        { amount: -105, taxRate: 0.1 },
+      ],
+      'floor',
+      'line'
+    );
+    // 100 + floor(-10.5)
+    expect(tax).toBe(89);
+  });
+});
+
+describe('calculateLineItemAdjustment', () => {
+  it('should reach the target with document scope', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: LINES,
+      targetTotal: 330,
+      taxRate: 0.1,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.subtotal).toBe(315);
+    expect(result.finalTotal).toBe(330);
+    expect(result.taxAmount).toBe(
+      calculateLineItemTax([...LINES, { amount: -result.discount, taxRate: 0.1 }])
+    );
+  });
+
+  it('should reach the target with line scope', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: LINES,
+      targetTotal: 340,
+      taxRate: 0.1,
+      roundingScope: 'line',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.finalTotal).toBe(340);
+    expect(result.taxAmount).toBe(
+      calculateLineItemTax(
+        [...LINES, { amount: -result.discount, taxRate: 0.1 }],
+        'floor',
+        'line'
+      )
+    );
+  });
+
+  it('should fit differently depending on the rounding scope', () => {
+    const params = { lineItems: LINES, targetTotal: 345, taxRate: 0.1 };
+
+    const document = calculateLineItemAdjustment(params);
+    const line = calculateLineItemAdjustment({ ...params, roundingScope: 'line' });
+
+    expect(document.isValid).toBe(true);
+    expect(line.isValid).toBe(true);
+    // The current totals already differ: 346 per document, 345 per line
+    expect(line.discount).toBe(0);
+    expect(document.discount).toBe(1);
+  });
+
+  it('should tax the adjustment line at its own rate', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: [
+        { amount: 50000, taxRate: 0.08 },
+        { amount: 120000, taxRate: 0.1 },
+      ],
+      targetTotal: 180000,
+      taxRate: 0.1,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.taxAmount).toBe(
+      applyTax(50000, 0.08) + applyTax(120000 - result.discount, 0.1)
+    );
+  });
+
+  it('should support surcharges', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: LINES,
+      targetTotal: 400,
+      taxRate: 0.1,
+      roundingScope: 'line',
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.discount).toBeLessThan(0);
+  });
+
+  it('should report the closest total when the target is unreachable', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: [{ amount: 1000, taxRate: 1 }],
+      targetTotal: 1001,
+      taxRate: 1,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toMatch(/Could not find exact adjustment/);
+  });
+
+  it('should reject an empty invoice', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: [],
+      targetTotal: 100,
+      taxRate: 0.1,
+    });
+
+    expect(result.error).toBe('At least one line item is required');
+  });
+
+  it('should reject fractional line amounts', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: [{ amount: 10.5, taxRate: 0.1 }],
+      targetTotal: 100,
+      taxRate: 0.1,
+    });
+
+    expect(result.error).toBe('Line item amounts must be integers');
+  });
+
+  it('should reject a negative subtotal', () => {
+    const result = calculateLineItemAdjustment({
+      lineItems: [{ amount: -100, taxRate: 0.1 }],
+      targetTotal: 100,
+      taxRate: 0.1,
+    });
+
+    expect(result.error).toBe('Subtotal cannot be negative');
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMultiRateAdjustment } from '../multi-rate';
+import { applyTax } from '../calculate';
+import type { MultiRateAdjustmentParams } from '../types';
+
+describe('calculateMultiRateAdjustment', () => {
+  describe('mixed 8% and 10% invoice', () => {
+    it('should reach the target grand total exactly', () => {
+      const params: MultiRateAdjustmentParams = {
+        subtotals: [
+          { subtotal: 50000, taxRate: 0.08 },
+          { subtotal: 120000, taxRate: 0.1 },
+        ],
+        targetTotal: 180000,
+        roundMode: 'floor',
+      };
+
+      const result = calculateMultiRateAdjustment(params);
+
+      expect(result.isValid).toBe(true);
+      expect(result.finalTotal).toBe(180000);
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should compute each rate with applyTax on its own adjusted subtotal', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 3240, taxRate: 0.08 },
+          { subtotal: 5980, taxRate: 0.1 },
+        ],
+        targetTotal: 9800,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.breakdown).toHaveLength(2);
+
+      for (const rate of result.breakdown) {
+        expect(rate.adjustedSubtotal).toBe(rate.subtotal - rate.discount);
+        expect(rate.taxAmount).toBe(applyTax(rate.adjustedSubtotal, rate.taxRate, 'floor'));
+        expect(rate.finalTotal).toBe(rate.adjustedSubtotal + rate.taxAmount);
+      }
+    });
+
+    it('should keep the breakdown in input order', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 1000, taxRate: 0.1 },
+          { subtotal: 2000, taxRate: 0.08 },
+        ],
+        targetTotal: 3000,
+      });
+
+      expect(result.breakdown.map((rate) => rate.taxRate)).toEqual([0.1, 0.08]);
+      expect(result.breakdown.map((rate) => rate.subtotal)).toEqual([1000, 2000]);
+    });
+
+    it('should sum per-rate values into the combined totals', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 10000, taxRate: 0.08 },
+          { subtotal: 10000, taxRate: 0.1 },
+        ],
+        targetTotal: 20000,
+      });
+
+      const sum = (key: 'discount' | 'adjustedSubtotal' | 'taxAmount' | 'finalTotal') =>
+        result.breakdown.reduce((total, rate) => total + rate[key], 0);
+
+      expect(result.discount).toBe(sum('discount'));
+      expect(result.adjustedSubtotal).toBe(sum('adjustedSubtotal'));
+      expect(result.taxAmount).toBe(sum('taxAmount'));
+      expect(result.finalTotal).toBe(20000);
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should return zero discounts when already at target', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 1000, taxRate: 0.08 },
+          { subtotal: 1000, taxRate: 0.1 },
+        ],
+        targetTotal: 2180,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.discount).toBe(0);
+      expect(result.breakdown.every((rate) => rate.discount === 0)).toBe(true);
+    });
+
+    it('should handle surcharges', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 1000, taxRate: 0.08 },
+          { subtotal: 1000, taxRate: 0.1 },
+        ],
+        targetTotal: 2500,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.discount).toBeLessThan(0);
+      expect(result.finalTotal).toBe(2500);
+    });
+
+    it('should shift between rates when a share is skipped by rounding', () => {
+      // With ceil, 1000 + ceil(1000 * 0.1) jumps over some totals for each rate
+      for (let targetTotal = 1900; targetTotal <= 1950; targetTotal++) {
+        const result = calculateMultiRateAdjustment({
+          subtotals: [
+            { subtotal: 1000, taxRate: 0.08 },
+            { subtotal: 1000, taxRate: 0.1 },
+          ],
+          targetTotal,
+          roundMode: 'ceil',
+        });
+
+        expect(result.isValid).toBe(true);
+        expect(result.finalTotal).toBe(targetTotal);
+      }
+    });
+
+    it('should leave a rate with a zero subtotal at zero', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 0, taxRate: 0.08 },
+          { subtotal: 1000, taxRate: 0.1 },
+        ],
+        targetTotal: 990,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.finalTotal).toBe(990);
+      expect(Object.is(result.breakdown[0]?.discount, 0)).toBe(true);
+      expect(result.breakdown[0]).toMatchObject({
+        adjustedSubtotal: 0,
+        taxAmount: 0,
+        finalTotal: 0,
+      });
+    });
+
+    it('should move shares as far as the rates need to cancel out', () => {
+      const cases = [
+        { subtotals: [{ subtotal: 7, taxRate: 1 }, { subtotal: 2, taxRate: 0.5 }], targetTotal: 29 },
+        { subtotals: [{ subtotal: 40, taxRate: 1 }, { subtotal: 25, taxRate: 0.08 }], targetTotal: 211 },
+        // 100% reaches only even totals and 99% only odd ones (or zero)
+        { subtotals: [{ subtotal: 29, taxRate: 1 }, { subtotal: 29, taxRate: 0.99 }], targetTotal: 116 },
+      ];
+
+      for (const params of cases) {
+        const result = calculateMultiRateAdjustment(params);
+
+        expect(result.isValid).toBe(true);
+        expect(result.finalTotal).toBe(params.targetTotal);
+      }
+    });
+
+    it('should balance shifts across three or more rates', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 4476, taxRate: 0.08 },
+          { subtotal: 254, taxRate: 0.1 },
+          { subtotal: 2910, taxRate: 0.5 },
+        ],
+        targetTotal: 8204,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.finalTotal).toBe(8204);
+    });
+
+    it('should reach every target near the current total with three rates', () => {
+      for (const roundMode of ['floor', 'ceil'] as const) {
+        for (let targetTotal = 2600; targetTotal <= 2800; targetTotal++) {
+          const result = calculateMultiRateAdjustment({
+            subtotals: [
+              { subtotal: 1000, taxRate: 0.08 },
+              { subtotal: 500, taxRate: 0.1 },
+              { subtotal: 700, taxRate: 0.5 },
+            ],
+            targetTotal,
+            roundMode,
+          });
+
+          expect(result.finalTotal).toBe(targetTotal);
+        }
+      }
+    });
+
+    it('should work with a single rate', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [{ subtotal: 290000, taxRate: 0.1 }],
+        targetTotal: 315000,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.discount).toBe(3636);
+    });
+
+    it('should reject empty subtotals', () => {
+      const result = calculateMultiRateAdjustment({ subtotals: [], targetTotal: 1000 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('At least one rate subtotal is required');
+    });
+
+    it('should reject negative subtotals', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: -100, taxRate: 0.08 },
+          { subtotal: 1000, taxRate: 0.1 },
+        ],
+        targetTotal: 1000,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Subtotal cannot be negative');
+      expect(result.errorCode).toBe('INVALID_INPUT');
+    });
+
+    it('should reject invalid tax rates', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [{ subtotal: 1000, taxRate: 1.5 }],
+        targetTotal: 1000,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Tax rate must be between 0 and 1');
+    });
+
+    it('should reject a negative target total', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 1000, taxRate: 0.08 },
+          { subtotal: 1000, taxRate: 0.1 },
+        ],
+        targetTotal: -100,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Target total cannot be negative');
+      expect(result.errorCode).toBe('INVALID_INPUT');
+    });
+
+    it('should reject all-zero subtotals', () => {
+      const result = calculateMultiRateAdjustment({
+        subtotals: [
+          { subtotal: 0, taxRate: 0.08 },
+          { subtotal: 0, taxRate: 0.1 },
+        ],
+        targetTotal: 1000,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Combined subtotal must be greater than zero');
+    });
+  });
+});
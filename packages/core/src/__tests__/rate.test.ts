@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { toRationalRate, basisPoints, rateToNumber, isSameRate, checkTaxRate } from '../rate';
+
+describe('toRationalRate', () => {
+  it('should convert decimals through their decimal representation', () => {
+    expect(toRationalRate(0.1)).toEqual({ numerator: 1, denominator: 10 });
+    expect(toRationalRate(0.07)).toEqual({ numerator: 7, denominator: 100 });
+    expect(toRationalRate(0.0825)).toEqual({ numerator: 33, denominator: 400 });
+    expect(toRationalRate(0.085)).toEqual({ numerator: 17, denominator: 200 });
+  });
+
+  it('should convert exponent notation', () => {
+    expect(toRationalRate(1e-7)).toEqual({ numerator: 1, denominator: 10000000 });
+  });
+
+  it('should handle whole-number rates', () => {
+    expect(toRationalRate(0)).toEqual({ numerator: 0, denominator: 1 });
+    expect(toRationalRate(1)).toEqual({ numerator: 1, denominator: 1 });
+  });
+
+  it('should reduce rationals to lowest terms', () => {
+    expect(toRationalRate({ numerator: 825, denominator: 10000 })).toEqual({
+      numerator: 33,
+      denominator: 400,
+    });
+  });
+
+  it('should reject non-finite numbers', () => {
+    expect(() => toRationalRate(NaN)).toThrow(RangeError);
+    expect(() => toRationalRate(Infinity)).toThrow(RangeError);
+  });
+
+  it('should reject invalid rationals', () => {
+    expect(() => toRationalRate({ numerator: 1.5, denominator: 10 })).toThrow(
+      'Tax rate numerator and denominator must be integers'
+    );
+    expect(() => toRationalRate({ numerator: 1, denominator: 0 })).toThrow(
+      'Tax rate denominator must be positive'
+    );
+  });
+});
+
+describe('basisPoints', () => {
+  it('should create a rate over 10000', () => {
+    expect(basisPoints(825)).toEqual({ numerator: 33, denominator: 400 });
+    expect(basisPoints(1000)).toEqual({ numerator: 1, denominator: 10 });
+  });
+});
+
+describe('rateToNumber', () => {
+  it('should convert rationals to decimals', () => {
+    expect(rateToNumber({ numerator: 1, denominator: 10 })).toBe(0.1);
+    expect(rateToNumber(0.08)).toBe(0.08);
+  });
+});
+
+describe('isSameRate', () => {
+  it('should compare rates exactly regardless of form', () => {
+    expect(isSameRate(0.1, { numerator: 1, denominator: 10 })).toBe(true);
+    expect(isSameRate(0.0825, basisPoints(825))).toBe(true);
+    expect(isSameRate(0.08, 0.1)).toBe(false);
+  });
+});
+
+describe('checkTaxRate', () => {
+  it('should accept rates between 0 and 1', () => {
+    expect(checkTaxRate(0)).toBeUndefined();
+    expect(checkTaxRate(1)).toBeUndefined();
+    expect(checkTaxRate({ numerator: 825, denominator: 10000 })).toBeUndefined();
+  });
+
+  it('should reject rates out of range', () => {
+    expect(checkTaxRate(-0.1)).toBe('Tax rate must be between 0 and 1');
+    expect(checkTaxRate({ numerator: 3, denominator: 2 })).toBe(
+      'Tax rate must be between 0 and 1'
+    );
+  });
+
+  it('should report unusable rates', () => {
+    expect(checkTaxRate(NaN)).toBe('Tax rate must be a finite number');
+    expect(checkTaxRate(null as unknown as number)).toBe('Tax rate must be a number or a rational');
+  });
+
+  it('should accept rates above 1 when allowed', () => {
+    expect(checkTaxRate(1.5, true)).toBeUndefined();
+    expect(checkTaxRate(-0.1, true)).toBe('Tax rate cannot be negative');
+  });
+});
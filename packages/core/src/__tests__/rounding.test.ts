@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { divideAndRound, roundToIncrement } from '../rounding';
+
+describe('divideAndRound', () => {
+  it('should return exact quotients unchanged', () => {
+    expect(divideAndRound(700n, 100n, 'floor')).toBe(7n);
+    expect(divideAndRound(700n, 100n, 'ceil')).toBe(7n);
+    expect(divideAndRound(700n, 100n, 'round')).toBe(7n);
+  });
+
+  it('should round positive quotients', () => {
+    // 105 / 10 = 10.5
+    expect(divideAndRound(105n, 10n, 'floor')).toBe(10n);
+    expect(divideAndRound(105n, 10n, 'ceil')).toBe(11n);
+    expect(divideAndRound(105n, 10n, 'round')).toBe(11n);
+    expect(divideAndRound(104n, 10n, 'round')).toBe(10n);
+  });
+
+  it('should round negative quotients like Math functions', () => {
+    // -105 / 10 = -10.5
+    expect(divideAndRound(-105n, 10n, 'floor')).toBe(-11n);
+    expect(divideAndRound(-105n, 10n, 'ceil')).toBe(-10n);
+    expect(divideAndRound(-105n, 10n, 'round')).toBe(-10n);
+    expect(divideAndRound(-106n, 10n, 'round')).toBe(-11n);
+  });
+
+  describe.each([
+    // [mode, 10.5, 10.6, 10.4, 11.5, -10.5, -10.6, -10.4, -11.5]
+    ['floor', 10n, 10n, 10n, 11n, -11n, -11n, -11n, -12n],
+    ['ceil', 11n, 11n, 11n, 12n, -10n, -10n, -10n, -11n],
+    ['round', 11n, 11n, 10n, 12n, -10n, -11n, -10n, -11n],
+    ['half-even', 10n, 11n, 10n, 12n, -10n, -11n, -10n, -12n],
+    ['half-down', 10n, 11n, 10n, 11n, -10n, -11n, -10n, -11n],
+    ['half-away-from-zero', 11n, 11n, 10n, 12n, -11n, -11n, -10n, -12n],
+    ['truncate', 10n, 10n, 10n, 11n, -10n, -10n, -10n, -11n],
+  ] as const)(
+    '%s',
+    (mode, half, aboveHalf, belowHalf, oddHalf, negHalf, negAboveHalf, negBelowHalf, negOddHalf) => {
+      it('should round positive quotients', () => {
+        expect(divideAndRound(105n, 10n, mode)).toBe(half);
+        expect(divideAndRound(106n, 10n, mode)).toBe(aboveHalf);
+        expect(divideAndRound(104n, 10n, mode)).toBe(belowHalf);
+        expect(divideAndRound(115n, 10n, mode)).toBe(oddHalf);
+      });
+
+      it('should round negative quotients', () => {
+        expect(divideAndRound(-105n, 10n, mode)).toBe(negHalf);
+        expect(divideAndRound(-106n, 10n, mode)).toBe(negAboveHalf);
+        expect(divideAndRound(-104n, 10n, mode)).toBe(negBelowHalf);
+        expect(divideAndRound(-115n, 10n, mode)).toBe(negOddHalf);
+      });
+    }
+  );
+});
+
+describe('roundToIncrement', () => {
+  it('should round to the nearest increment by default', () => {
+    expect(roundToIncrement(10002, 5)).toBe(10000);
+    expect(roundToIncrement(10003, 5)).toBe(10005);
+    expect(roundToIncrement(1049, 100)).toBe(1000);
+    expect(roundToIncrement(1050, 100)).toBe(1100);
+  });
+
+  it('should apply the rounding mode', () => {
+    expect(roundToIncrement(10001, 5, 'ceil')).toBe(10005);
+    expect(roundToIncrement(10004, 5, 'floor')).toBe(10000);
+    expect(roundToIncrement(1050, 100, 'half-even')).toBe(1000);
+  });
+
+  it('should leave amounts on the grid unchanged', () => {
+    expect(roundToIncrement(10005, 5)).toBe(10005);
+    expect(roundToIncrement(1234, 1)).toBe(1234);
+  });
+
+  it('should reject invalid increments', () => {
+    expect(() => roundToIncrement(100, 0)).toThrow(RangeError);
+    expect(() => roundToIncrement(100, 2.5)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { findDiscountRange, findClosestDiscount, selectDiscount } from '../search';
+
+// Total that only changes every 10 units, so several discounts share a total
+const steppedTotal = (discount: number): number => Math.round((1000 - discount) / 10) * 10;
+
+describe('findDiscountRange', () => {
+  it('should find every discount reaching the target', () => {
+    expect(findDiscountRange(-1000, 1000, 900, steppedTotal)).toEqual({
+      minDiscount: 96,
+      maxDiscount: 105,
+    });
+  });
+
+  it('should find a single discount for strictly decreasing totals', () => {
+    const total = (discount: number): number => 1100 - discount;
+
+    expect(findDiscountRange(-1000, 1000, 1050, total)).toEqual({
+      minDiscount: 50,
+      maxDiscount: 50,
+    });
+  });
+
+  it('should return undefined when the target is skipped', () => {
+    expect(findDiscountRange(-1000, 1000, 905, steppedTotal)).toBeUndefined();
+  });
+
+  it('should return undefined when the target is out of range', () => {
+    expect(findDiscountRange(-1000, 1000, 5000, steppedTotal)).toBeUndefined();
+    expect(findDiscountRange(-1000, 1000, -10, steppedTotal)).toBeUndefined();
+  });
+});
+
+describe('findClosestDiscount', () => {
+  it('should return the discount with the closest total', () => {
+    const total = (discount: number): number => 2 * (1000 - discount);
+
+    // Totals are even, so 1001 sits between 1000 (discount 500) and 1002 (discount 499)
+    expect(findClosestDiscount(-1000, 1000, 1001, total)).toBe(499);
+  });
+
+  it('should clamp to the bounds when the target is out of range', () => {
+    const total = (discount: number): number => 1000 - discount;
+
+    expect(findClosestDiscount(-1000, 1000, 5000, total)).toBe(-1000);
+    expect(findClosestDiscount(-1000, 1000, -5000, total)).toBe(1000);
+  });
+});
+
+describe('selectDiscount', () => {
+  const taxFor = (discount: number): number => Math.floor((1000 - discount) / 100);
+
+  it('should choose the discount closest to zero', () => {
+    expect(selectDiscount({ minDiscount: 96, maxDiscount: 105 }, 'smallest-discount', taxFor)).toBe(96);
+    expect(selectDiscount({ minDiscount: -105, maxDiscount: -96 }, 'smallest-discount', taxFor)).toBe(-96);
+    expect(selectDiscount({ minDiscount: -5, maxDiscount: 5 }, 'smallest-discount', taxFor)).toBe(0);
+  });
+
+  it('should choose the largest taxable base', () => {
+    expect(selectDiscount({ minDiscount: 96, maxDiscount: 105 }, 'largest-base', taxFor)).toBe(96);
+    expect(selectDiscount({ minDiscount: -5, maxDiscount: 5 }, 'largest-base', taxFor)).toBe(-5);
+  });
+
+  it('should choose the largest tax, closest to zero', () => {
+    // Tax is 9 for discounts up to 100 and 8 above
+    expect(selectDiscount({ minDiscount: 96, maxDiscount: 105 }, 'largest-tax', taxFor)).toBe(96);
+    // Tax is 10 for discounts -5..0, so zero is kept
+    expect(selectDiscount({ minDiscount: -5, maxDiscount: 5 }, 'largest-tax', taxFor)).toBe(0);
+  });
+
+  it('should prefer round numbers', () => {
+    expect(selectDiscount({ minDiscount: 96, maxDiscount: 105 }, 'round-number', taxFor)).toBe(100);
+    expect(selectDiscount({ minDiscount: 1234, maxDiscount: 1262 }, 'round-number', taxFor)).toBe(1240);
+    expect(selectDiscount({ minDiscount: -105, maxDiscount: -96 }, 'round-number', taxFor)).toBe(-100);
+    expect(selectDiscount({ minDiscount: 37, maxDiscount: 37 }, 'round-number', taxFor)).toBe(37);
+  });
+
+  it('should prefer round amounts when the range counts increments', () => {
+    // Steps of 5: 10 to 20 steps are 50 to 100
+    expect(selectDiscount({ minDiscount: 10, maxDiscount: 20 }, 'round-number', taxFor, 5)).toBe(20);
+    expect(selectDiscount({ minDiscount: -20, maxDiscount: -10 }, 'round-number', taxFor, 5)).toBe(-20);
+    // Steps of 3: 7 to 9 steps are 21 to 27; none is a multiple of ten
+    expect(selectDiscount({ minDiscount: 7, maxDiscount: 9 }, 'round-number', taxFor, 3)).toBe(7);
+  });
+});
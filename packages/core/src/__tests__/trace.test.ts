@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAdjustment } from '../calculate';
+import { summarizeTrace } from '../trace';
+
+describe('calculateAdjustment with explain', () => {
+  it('should not return a trace by default', () => {
+    const result = calculateAdjustment({ subtotal: 40000, targetTotal: 40000, taxRate: 0.1 });
+
+    expect(result.trace).toBeUndefined();
+  });
+
+  it('should explain the chosen discount', () => {
+    const result = calculateAdjustment({
+      subtotal: 40000,
+      targetTotal: 40000,
+      taxRate: 0.1,
+      explain: true,
+    });
+
+    expect(result.discount).toBe(3636);
+
+    const trace = result.trace;
+    expect(trace?.inputs).toEqual({
+      subtotal: 40000,
+      targetTotal: 40000,
+      taxRate: { numerator: 1, denominator: 10 },
+      allowRateAboveOne: false,
+      roundMode: 'floor',
+      pricingMode: 'exclusive',
+      selectionPolicy: 'smallest-discount',
+      allowResidual: false,
+      taxIncrement: 1,
+      totalIncrement: 1,
+      totalRoundMode: 'round',
+      discountIncrement: 1,
+    });
+    expect(trace?.selected).toEqual({
+      discount: 3636,
+      adjustedSubtotal: 36364,
+      taxAmount: 3636,
+      finalTotal: 40000,
+      matchesTarget: true,
+    });
+    expect(trace?.matchingRange).toEqual({ minDiscount: 3636, maxDiscount: 3636, count: 1 });
+    expect(trace?.reason).toBe('Only a discount of 3636 reaches the target total 40000');
+    expect(trace?.alternatives).toEqual([]);
+  });
+
+  it('should list each evaluated candidate once', () => {
+    const trace = calculateAdjustment({
+      subtotal: 40000,
+      targetTotal: 40000,
+      taxRate: 0.1,
+      explain: true,
+    }).trace;
+
+    const candidates = trace?.candidates ?? [];
+    expect(candidates.length).toBeGreaterThan(0);
+    // Binary search over 80001 discounts needs only a few dozen evaluations
+    expect(candidates.length).toBeLessThan(100);
+    expect(new Set(candidates.map((candidate) => candidate.discount)).size).toBe(
+      candidates.length
+    );
+    for (const candidate of candidates) {
+      expect(candidate.adjustedSubtotal).toBe(40000 - candidate.discount);
+      expect(candidate.finalTotal).toBe(candidate.adjustedSubtotal + candidate.taxAmount);
+      expect(candidate.matchesTarget).toBe(candidate.finalTotal === 40000);
+    }
+  });
+
+  it('should list alternatives that also reach the target', () => {
+    // Cash rounding to 10 makes several discounts reach the same total
+    const ranged = calculateAdjustment({
+      subtotal: 1000,
+      targetTotal: 990,
+      taxRate: 0.1,
+      totalIncrement: 10,
+      selectionPolicy: 'largest-base',
+      explain: true,
+    });
+
+    const trace = ranged.trace;
+    expect(trace?.matchingRange?.count).toBeGreaterThan(1);
+    expect(trace?.selected.discount).toBe(trace?.matchingRange?.minDiscount);
+    expect(trace?.alternatives.length).toBe(Math.min((trace?.matchingRange?.count ?? 0) - 1, 10));
+    expect(trace?.alternatives.every((alternative) => alternative.matchesTarget)).toBe(true);
+    expect(trace?.reason).toContain("'largest-base' chose the smallest discount");
+  });
+
+  it('should explain residuals when the target is unreachable', () => {
+    const result = calculateAdjustment({
+      subtotal: 1000,
+      targetTotal: 1101,
+      taxRate: 0.1,
+      roundMode: 'ceil',
+      allowResidual: true,
+      explain: true,
+    });
+
+    expect(result.trace?.matchingRange).toBeUndefined();
+    expect(result.trace?.selected.matchesTarget).toBe(false);
+    expect(result.trace?.reason).toBe(
+      'No discount reaches the target total 1101; 0 gives the closest total (1100), ' +
+        'and a non-taxable residual of -1 covers the difference'
+    );
+  });
+
+  it('should not trace invalid parameters', () => {
+    const result = calculateAdjustment({
+      subtotal: -1,
+      targetTotal: 100,
+      taxRate: 0.1,
+      explain: true,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.trace).toBeUndefined();
+  });
+});
+
+describe('summarizeTrace', () => {
+  const trace = calculateAdjustment({
+    subtotal: 40000,
+    targetTotal: 40000,
+    taxRate: 0.1,
+    explain: true,
+  }).trace!;
+
+  it('should summarize the trace in one line', () => {
+    expect(summarizeTrace(trace)).toBe(
+      'subtotal=40000 target=40000 rate=1/10 round=floor pricing=exclusive ' +
+        'policy=smallest-discount discount=3636 tax=3636 total=40000 matches=3636..3636(1) ' +
+        `evaluated=${trace.candidates.length} | Only a discount of 3636 reaches the target total 40000`
+    );
+  });
+
+  it('should cut the summary to the maximum length', () => {
+    const summary = summarizeTrace(trace, 40);
+
+    expect(summary).toHaveLength(40);
+    expect(summary.endsWith('…')).toBe(true);
+  });
+
+  it('should reject invalid lengths', () => {
+    expect(() => summarizeTrace(trace, 0)).toThrow('Summary length must be a positive integer');
+  });
+});
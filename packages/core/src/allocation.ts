@@ -0,0 +1,198 @@
+import { calculateLineItemTax } from './line-items';
+import { toRationalRate } from './rate';
+import type {
+  AdjustmentResult,
+  AllocationOptions,
+  DiscountAllocationResult,
+  LineAllocation,
+  LineItem,
+  MultiRateAdjustmentResult,
+  TaxRate,
+} from './types';
+
+/**
+ * Spread a fitted discount across the original line items
+ *
+ * The discount is allocated per tax rate: for a multi-rate result each rate's
+ * discount goes to the lines with that rate, otherwise the discount is first
+ * split between rates and then between lines. Each split is proportional to the
+ * line amounts, using largest-remainder allocation so the pieces sum exactly.
+ * Credit lines (negative amounts) receive no share.
+ *
+ * The tax is then recalculated on the allocated lines. With 'document' rounding
+ * and lines at the fitted rate the per-rate sums are unchanged, so the fitted total
+ * is kept; with 'line' rounding the per-line taxes can move, which is reported
+ * through isValid.
+ *
+ * @param lineItems - Line items the adjustment was fitted to
+ * @param result - A valid result from calculateAdjustment or calculateMultiRateAdjustment
+ * @param options - Rounding, pricing mode and allocation increment
+ * @returns The per-line discounts and the recalculated totals
+ */
+export function allocateDiscount(
+  lineItems: LineItem[],
+  result: AdjustmentResult | MultiRateAdjustmentResult,
+  options: AllocationOptions = {}
+): DiscountAllocationResult {
+  const {
+    roundMode = 'floor',
+    roundingScope = 'document',
+    pricingMode = 'exclusive',
+    increment = 1,
+  } = options;
+
+  const unallocated: LineAllocation[] = lineItems.map((line) => ({
+    ...line,
+    discount: 0,
+    adjustedAmount: line.amount,
+  }));
+
+  if (!result.isValid) {
+    return invalidAllocation(unallocated, 'Cannot allocate an invalid adjustment');
+  }
+
+  if (!Number.isSafeInteger(increment) || increment <= 0) {
+    return invalidAllocation(unallocated, 'Allocation increment must be a positive integer');
+  }
+
+  // Discount owed by each tax rate
+  const rateKeys = lineItems.map(({ taxRate }) => rateKey(taxRate));
+  const discountsByRate = new Map<string, number>();
+
+  if ('breakdown' in result) {
+    for (const { taxRate, discount } of result.breakdown) {
+      const key = rateKey(taxRate);
+      discountsByRate.set(key, (discountsByRate.get(key) ?? 0) + discount);
+    }
+  } else {
+    const keys = [...new Set(rateKeys)];
+    const shares = allocateProportionally(
+      result.discount,
+      keys.map((key) =>
+        lineItems.reduce(
+          (sum, line, index) => (rateKeys[index] === key ? sum + Math.max(0, line.amount) : sum),
+          0
+        )
+      ),
+      increment
+    );
+    if (!shares) {
+      return invalidAllocation(unallocated, 'No line items can take the discount');
+    }
+    keys.forEach((key, index) => discountsByRate.set(key, shares[index] ?? 0));
+  }
+
+  // Split each rate's discount between its lines
+  const lines = [...unallocated];
+  for (const [key, discount] of discountsByRate) {
+    const indexes = rateKeys.flatMap((lineKey, index) => (lineKey === key ? [index] : []));
+    const shares = allocateProportionally(
+      discount,
+      indexes.map((index) => Math.max(0, lineItems[index]?.amount ?? 0)),
+      increment
+    );
+    if (!shares) {
+      return invalidAllocation(unallocated, `No line items can take the discount for tax rate ${key}`);
+    }
+
+    indexes.forEach((lineIndex, shareIndex) => {
+      const line = lines[lineIndex];
+      const share = shares[shareIndex] ?? 0;
+      if (line) {
+        lines[lineIndex] = { ...line, discount: share, adjustedAmount: line.amount - share };
+      }
+    });
+  }
+
+  const taxAmount = calculateLineItemTax(
+    lines.map(({ adjustedAmount, taxRate }) => ({ amount: adjustedAmount, taxRate })),
+    roundMode,
+    roundingScope,
+    pricingMode
+  );
+  // Inclusive amounts already contain their tax
+  const amountTotal = lines.reduce((sum, line) => sum + line.adjustedAmount, 0);
+  const finalTotal = pricingMode === 'inclusive' ? amountTotal : amountTotal + taxAmount;
+
+  // A residual is not allocated, so compare against the taxable part of the total
+  const fittedTotal =
+    result.finalTotal + ('residualDiscount' in result ? result.residualDiscount ?? 0 : 0);
+
+  return {
+    lines,
+    isValid: finalTotal === fittedTotal,
+    taxAmount,
+    finalTotal,
+    error: finalTotal !== fittedTotal
+      ? `Allocated total ${finalTotal} does not match the fitted total ${fittedTotal}`
+      : undefined,
+    errorCode: finalTotal !== fittedTotal ? 'TARGET_UNREACHABLE' : undefined,
+  };
+}
+
+/**
+ * Split an amount in proportion to weights using largest-remainder allocation
+ *
+ * Works in multiples of the increment; ties go to the earlier weight.
+ *
+ * @returns The shares (summing exactly to the amount), or undefined if every weight is zero
+ */
+function allocateProportionally(
+  amount: number,
+  weights: number[],
+  increment: number
+): number[] | undefined {
+  if (amount === 0) {
+    return weights.map(() => 0);
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {
+    return undefined;
+  }
+
+  // Integer arithmetic keeps the shares exact for large amounts
+  const units = BigInt(Math.round(Math.abs(amount) / increment));
+  const total = BigInt(totalWeight);
+  const exact = weights.map((weight) => units * BigInt(weight));
+  const shares = exact.map((value) => value / total);
+
+  let remaining = units - shares.reduce((sum, share) => sum + share, 0n);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value % total }))
+    .sort((a, b) =>
+      a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1
+    );
+
+  for (const { index } of byRemainder) {
+    if (remaining === 0n) break;
+    shares[index] = (shares[index] ?? 0n) + 1n;
+    remaining -= 1n;
+  }
+
+  const sign = amount < 0 ? -1 : 1;
+  return shares.map((share) => sign * Number(share) * increment);
+}
+
+/**
+ * Key identifying a tax rate regardless of how it was written
+ */
+function rateKey(taxRate: TaxRate): string {
+  const { numerator, denominator } = toRationalRate(taxRate);
+  return `${numerator}/${denominator}`;
+}
+
+/**
+ * Build an invalid allocation that leaves every line unchanged
+ */
+function invalidAllocation(lines: LineAllocation[], error: string): DiscountAllocationResult {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  return {
+    lines,
+    isValid: false,
+    taxAmount: 0,
+    finalTotal: subtotal,
+    error,
+    errorCode: 'INVALID_INPUT',
+  };
+}
@@ -0,0 +1,356 @@
+import { applyTax, calculateAdjustment, extractTax } from './calculate';
+import { TaxFitterError } from './errors';
+import { isSameRate, rateToNumber } from './rate';
+import type {
+  BillingAdapter,
+  CalculatedDocumentAdjustment,
+  DocumentAdjustment,
+  FitDocumentOptions,
+  FitDocumentResult,
+  InMemoryDocument,
+  InMemoryLine,
+  RoundMode,
+  TaxableBase,
+  TaxRate,
+} from './types';
+
+/**
+ * Fit a billing document to a target total through an adapter
+ *
+ * This function:
+ * 1. Calculates the adjustment with calculateDocumentAdjustment
+ * 2. Writes the adjustment, replacing any earlier one
+ *
+ * @param adapter - Adapter for the billing system
+ * @param options - Adjustment options
+ * @returns The adjustment and what the adapter wrote
+ * @throws TaxFitterError with code INVALID_INPUT, ZERO_SUBTOTAL or TARGET_UNREACHABLE,
+ *   and whatever the adapter throws (e.g., for documents that cannot be changed)
+ */
+export async function fitDocument<TDocument, TWritten>(
+  adapter: BillingAdapter<TDocument, TWritten>,
+  options: FitDocumentOptions
+): Promise<FitDocumentResult<TWritten>> {
+  const { document, adjustment } = await calculateDocumentAdjustment(adapter, options);
+  const written = await adapter.writeAdjustment(document, adjustment);
+
+  const { description, residualDescription, metadata, idempotencyKey, ...fitted } = adjustment;
+  return { ...fitted, written };
+}
+
+/**
+ * Calculate the adjustment fitDocument would write, without writing it
+ *
+ * This function:
+ * 1. Loads the document and checks that it can still be adjusted
+ * 2. Reads its currency and taxable base (subtotal, untaxed amount, tax rate),
+ *    and lets the adapter check the target
+ * 3. Calculates the discount that brings the taxed part to the target, leaving
+ *    untaxed lines unchanged and keeping the discount on the system's amount grid
+ *
+ * @param adapter - Adapter for the billing system
+ * @param options - Adjustment options
+ * @returns The loaded document and the adjustment to write
+ * @throws TaxFitterError with code INVALID_INPUT, ZERO_SUBTOTAL or TARGET_UNREACHABLE
+ *   (or the adapter's calculationError), and whatever the adapter throws
+ */
+export async function calculateDocumentAdjustment<TDocument>(
+  adapter: BillingAdapter<TDocument, unknown>,
+  options: FitDocumentOptions
+): Promise<CalculatedDocumentAdjustment<TDocument>> {
+  const {
+    documentId,
+    targetTotal,
+    roundMode = 'floor',
+    selectionPolicy = 'smallest-discount',
+    allowResidual = false,
+    description = 'Tax adjustment',
+    residualDescription = 'Rounding adjustment',
+    metadata = {},
+    idempotencyKey,
+    explain = false,
+  } = options;
+
+  const document = await adapter.loadDocument(documentId);
+  adapter.assertEditable(document);
+
+  const currency = adapter.readCurrency(document);
+  const base = await adapter.readTaxableBase(document, options.taxRate);
+  adapter.checkTarget?.(document, targetTotal);
+
+  const taxRate = options.taxRate ?? base.taxRate;
+  if (taxRate === undefined) {
+    throw new TaxFitterError(
+      'INVALID_INPUT',
+      `Document ${documentId} has no tax rate. Pass taxRate to calculate the adjustment.`
+    );
+  }
+  if (base.subtotal === 0) {
+    throw new TaxFitterError(
+      'ZERO_SUBTOTAL',
+      `Document ${documentId} has zero subtotal. Cannot calculate adjustment.`
+    );
+  }
+
+  const {
+    subtotal,
+    untaxedAmount = 0,
+    pricingMode = 'exclusive',
+    amountIncrement = 1,
+    targetOffset = 0,
+  } = base;
+  const result = calculateAdjustment({
+    subtotal,
+    targetTotal: targetTotal - targetOffset - untaxedAmount,
+    taxRate,
+    roundMode,
+    pricingMode,
+    selectionPolicy,
+    allowResidual,
+    discountIncrement: amountIncrement,
+    explain,
+  });
+
+  if (!result.isValid) {
+    const code = result.errorCode ?? 'INVALID_INPUT';
+    const reason = result.error ?? 'Unknown error';
+    throw (
+      adapter.calculationError?.(document, code, reason) ??
+      new TaxFitterError(
+        code,
+        `Failed to calculate valid adjustment for document ${documentId}: ${reason}`
+      )
+    );
+  }
+
+  const adjustment: DocumentAdjustment = {
+    documentId,
+    currency,
+    taxRate,
+    pricingMode,
+    roundMode,
+    subtotal,
+    untaxedAmount,
+    targetTotal,
+    targetOffset,
+    discount: result.discount,
+    residualDiscount: result.residualDiscount ?? 0,
+    adjustedSubtotal: result.adjustedSubtotal,
+    taxAmount: result.taxAmount,
+    finalTotal: result.finalTotal + untaxedAmount,
+    description,
+    residualDescription,
+    metadata,
+    ...(idempotencyKey !== undefined ? { idempotencyKey } : {}),
+    ...(result.trace ? { trace: result.trace } : {}),
+  };
+  return { document, adjustment };
+}
+
+/**
+ * Billing adapter that keeps documents in memory
+ *
+ * A reference for writing adapters, and a stand-in for a billing system in
+ * tests. The adjustment is written as a taxable 'discount' line and an untaxed
+ * 'residual' line, each only when its amount is not zero; lines from an earlier
+ * adjustment are replaced. A write repeating the document and amounts of an
+ * earlier write with the same idempotency key returns the earlier document
+ * without changing it; a key reused for anything else is rejected.
+ */
+export class InMemoryBillingAdapter implements BillingAdapter<InMemoryDocument, InMemoryDocument> {
+  private documents = new Map<string, InMemoryDocument>();
+  private writes = new Map<
+    string,
+    { documentId: string; discount: number; residualDiscount: number; document: InMemoryDocument }
+  >();
+
+  constructor(documents: InMemoryDocument[] = []) {
+    for (const document of documents) {
+      this.setDocument(document);
+    }
+  }
+
+  /**
+   * Add or replace a document
+   */
+  setDocument(document: InMemoryDocument): void {
+    this.documents.set(document.id, cloneDocument(document));
+  }
+
+  /**
+   * A copy of a stored document, or undefined if there is none with the ID
+   */
+  getDocument(documentId: string): InMemoryDocument | undefined {
+    const document = this.documents.get(documentId);
+    return document && cloneDocument(document);
+  }
+
+  /**
+   * Calculate a stored document's total the way a billing system would:
+   * tax on the sum of the taxed lines, plus the untaxed lines
+   *
+   * @param documentId - The document
+   * @param roundMode - Rounding mode for the tax
+   * @returns The total
+   * @throws TaxFitterError with code DOCUMENT_NOT_FOUND or INVALID_INPUT (no tax rate)
+   */
+  getTotal(documentId: string, roundMode: RoundMode = 'floor'): number {
+    const taxAmount = this.getTaxAmount(documentId, roundMode);
+    const document = this.findDocument(documentId);
+
+    const amount = sumLines(document, () => true);
+    return document.pricingMode === 'inclusive' ? amount : amount + taxAmount;
+  }
+
+  /**
+   * Calculate the tax on a stored document's taxed lines
+   *
+   * @param documentId - The document
+   * @param roundMode - Rounding mode for the tax
+   * @returns The tax amount
+   * @throws TaxFitterError with code DOCUMENT_NOT_FOUND or INVALID_INPUT (no tax rate)
+   */
+  getTaxAmount(documentId: string, roundMode: RoundMode = 'floor'): number {
+    const document = this.findDocument(documentId);
+    if (document.taxRate === undefined) {
+      throw new TaxFitterError('INVALID_INPUT', `Document ${documentId} has no tax rate.`);
+    }
+
+    const taxed = sumLines(document, (line) => line.taxable !== false);
+    const tax = document.pricingMode === 'inclusive' ? extractTax : applyTax;
+    return tax(taxed, document.taxRate, roundMode);
+  }
+
+  async loadDocument(documentId: string): Promise<InMemoryDocument> {
+    return cloneDocument(this.findDocument(documentId));
+  }
+
+  assertEditable(document: InMemoryDocument): void {
+    if (document.editable === false) {
+      throw new TaxFitterError(
+        'DOCUMENT_NOT_EDITABLE',
+        `Document ${document.id} can no longer be changed.`
+      );
+    }
+  }
+
+  readCurrency(document: InMemoryDocument): string {
+    return document.currency;
+  }
+
+  readTaxableBase(document: InMemoryDocument, taxRate?: TaxRate): TaxableBase {
+    if (
+      taxRate !== undefined &&
+      document.taxRate !== undefined &&
+      !isSameRate(taxRate, document.taxRate)
+    ) {
+      throw new TaxFitterError(
+        'INVALID_INPUT',
+        `Tax rate ${rateToNumber(taxRate)} does not match the tax rate on document ${document.id} ` +
+          `(${rateToNumber(document.taxRate)}).`
+      );
+    }
+
+    // Lines from an earlier adjustment are replaced, so they are left out
+    return {
+      subtotal: sumLines(document, (line) => line.taxable !== false && !line.adjustment),
+      untaxedAmount: sumLines(document, (line) => line.taxable === false && !line.adjustment),
+      ...(document.taxRate !== undefined ? { taxRate: document.taxRate } : {}),
+      ...(document.pricingMode ? { pricingMode: document.pricingMode } : {}),
+    };
+  }
+
+  /**
+   * @throws TaxFitterError with code IDEMPOTENCY_CONFLICT if the idempotency key
+   *   was used for a different document or amounts
+   */
+  async writeAdjustment(
+    document: InMemoryDocument,
+    adjustment: DocumentAdjustment
+  ): Promise<InMemoryDocument> {
+    const { idempotencyKey, discount, residualDiscount } = adjustment;
+    const earlier = idempotencyKey !== undefined ? this.writes.get(idempotencyKey) : undefined;
+    if (earlier) {
+      // Returning the earlier document for other amounts would contradict the result
+      if (
+        earlier.documentId !== document.id ||
+        earlier.discount !== discount ||
+        earlier.residualDiscount !== residualDiscount
+      ) {
+        throw new TaxFitterError(
+          'IDEMPOTENCY_CONFLICT',
+          `Idempotency key ${idempotencyKey} was already used for a discount of ` +
+            `${earlier.discount} on document ${earlier.documentId}.`
+        );
+      }
+      return cloneDocument(earlier.document);
+    }
+
+    const lines = document.lines.filter((line) => !line.adjustment);
+    if (discount !== 0) {
+      lines.push({
+        id: `${document.id}_adjustment`,
+        amount: -discount,
+        description: adjustment.description,
+        adjustment: 'discount',
+        metadata: { ...adjustment.metadata },
+      });
+    }
+    if (residualDiscount !== 0) {
+      lines.push({
+        id: `${document.id}_residual`,
+        amount: -residualDiscount,
+        taxable: false,
+        description: adjustment.residualDescription,
+        adjustment: 'residual',
+        metadata: { ...adjustment.metadata },
+      });
+    }
+
+    const updated = { ...document, lines };
+    this.setDocument(updated);
+    if (idempotencyKey !== undefined) {
+      this.writes.set(idempotencyKey, {
+        documentId: document.id,
+        discount,
+        residualDiscount,
+        document: cloneDocument(updated),
+      });
+    }
+    return cloneDocument(updated);
+  }
+
+  /**
+   * The stored document, throwing if there is none with the ID
+   */
+  private findDocument(documentId: string): InMemoryDocument {
+    const document = this.documents.get(documentId);
+    if (!document) {
+      throw new TaxFitterError('DOCUMENT_NOT_FOUND', `Document ${documentId} does not exist.`);
+    }
+    return document;
+  }
+}
+
+/**
+ * Copy a document and its lines, so callers cannot change stored documents
+ */
+function cloneDocument(document: InMemoryDocument): InMemoryDocument {
+  return {
+    ...document,
+    lines: document.lines.map((line) => ({
+      ...line,
+      ...(line.metadata ? { metadata: { ...line.metadata } } : {}),
+    })),
+  };
+}
+
+/**
+ * Sum the amounts of the lines that match
+ */
+function sumLines(
+  document: InMemoryDocument,
+  matches: (line: InMemoryLine) => boolean
+): number {
+  return document.lines.reduce((sum, line) => (matches(line) ? sum + line.amount : sum), 0);
+}
@@ -1,177 +1,496 @@
-import type { AdjustmentParams, AdjustmentResult, RoundMode } from './types';
+import { checkTaxRate, toRationalRate } from './rate';
+import { assertIncrement, divideAndRound, roundToIncrement } from './rounding';
+import { findClosestDiscount, findDiscountRange, selectDiscount } from './search';
+import { buildTrace } from './trace';
+import type {
+  AdjustmentCandidate,
+  AdjustmentParams,
+  AdjustmentRange,
+  AdjustmentResult,
+  AdjustmentTrace,
+  PricingMode,
+  RoundMode,
+  SelectionPolicy,
+  TaxRate,
+} from './types';
 
 /**
  * Apply tax to an amount with the specified rounding mode
- * @param amount - The base amount (before tax)
- * @param taxRate - Tax rate as decimal (e.g., 0.1 for 10%)
+ *
+ * The tax is computed with integer arithmetic on the exact rational rate,
+ * so boundary amounts never drift (e.g., 100 * 7% is exactly 7 under 'ceil').
+ *
+ * @param amount - The base amount (before tax, integer in smallest currency unit)
+ * @param taxRate - Tax rate as decimal (e.g., 0.1 for 10%) or an exact rational
  * @param roundMode - Rounding mode to use
+ * @param increment - Round the tax to a multiple of this amount (e.g., 5 for CHF 0.05)
  * @returns The calculated tax amount
+ * @throws RangeError if the amount is not a safe integer or the rate or increment is not usable
  */
 export function applyTax(
   amount: number,
-  taxRate: number,
-  roundMode: RoundMode = 'floor'
+  taxRate: TaxRate,
+  roundMode: RoundMode = 'floor',
+  increment = 1
+): number {
+  const { numerator, denominator } = toRationalRate(taxRate);
+  assertIncrement(increment);
+
+  const units = divideAndRound(
+    toBigInt(amount) * BigInt(numerator),
+    BigInt(denominator) * BigInt(increment),
+    roundMode
+  );
+  return Number(units) * increment;
+}
+
+/**
+ * Extract the tax portion contained in a tax-inclusive amount
+ * @param amount - The tax-inclusive amount (integer in smallest currency unit)
+ * @param taxRate - Tax rate as decimal (e.g., 0.1 for 10%) or an exact rational
+ * @param roundMode - Rounding mode to use
+ * @param increment - Round the tax to a multiple of this amount (e.g., 5 for CHF 0.05)
+ * @returns The tax amount included in the amount
+ * @throws RangeError if the amount is not a safe integer or the rate or increment is not usable
+ */
+export function extractTax(
+  amount: number,
+  taxRate: TaxRate,
+  roundMode: RoundMode = 'floor',
+  increment = 1
 ): number {
-  const taxAmount = amount * taxRate;
-
-  switch (roundMode) {
-    case 'floor':
-      return Math.floor(taxAmount);
-    case 'ceil':
-      return Math.ceil(taxAmount);
-    case 'round':
-      return Math.round(taxAmount);
-    default:
-      return Math.floor(taxAmount);
+  // amount * rate / (1 + rate) = amount * n / (d + n)
+  const { numerator, denominator } = toRationalRate(taxRate);
+  assertIncrement(increment);
+
+  const units = divideAndRound(
+    toBigInt(amount) * BigInt(numerator),
+    BigInt(denominator + numerator) * BigInt(increment),
+    roundMode
+  );
+  return Number(units) * increment;
+}
+
+/**
+ * Convert an amount to bigint, rejecting fractional or unsafe values
+ */
+function toBigInt(amount: number): bigint {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Amount must be a safe integer, got ${amount}`);
   }
+  return BigInt(amount);
 }
 
 /**
  * Calculate the discount needed to reach a target total including tax
  *
- * This function uses an iterative algorithm:
- * 1. Start with an initial estimate based on the difference between current and target total
- * 2. Refine the estimate by testing with 1-yen increments
- * 3. Find the exact discount that makes the final total match the target
+ * This function uses a binary search:
+ * 1. Search discounts from the maximum surcharge (-subtotal) to the maximum discount (subtotal)
+ * 2. Find the range of discounts whose total matches the target exactly
+ * 3. Choose one discount from that range according to the selection policy
+ * 4. If no discount matches, return the closest total as an invalid result,
+ *    or cover the difference with a non-taxable residual when allowResidual is set
+ *
+ * In 'inclusive' pricing mode the subtotal already contains tax, so the final total
+ * equals the adjusted subtotal and the tax amount is extracted from it.
+ *
+ * With explain set, the result also carries a trace of the evaluated discounts,
+ * the reason for the choice and the other discounts that reach the target.
  *
  * @param params - Adjustment parameters
  * @returns Adjustment result with discount amount and validation metadata
  */
 export function calculateAdjustment(params: AdjustmentParams): AdjustmentResult {
-  const { subtotal, targetTotal, taxRate, roundMode = 'floor' } = params;
+  return fitAdjustment(params, { allowZeroTarget: false });
+}
 
-  // Validate inputs
-  if (subtotal < 0) {
-    return {
-      discount: 0,
-      isValid: false,
-      adjustedSubtotal: subtotal,
-      taxAmount: 0,
-      finalTotal: subtotal,
-      error: 'Subtotal cannot be negative',
-    };
-  }
+/**
+ * calculateAdjustment, optionally accepting a zero target
+ *
+ * Callers must ask for a positive total, but calculateMultiRateAdjustment can
+ * give a rate a zero share (e.g., a rate with a zero subtotal).
+ */
+export function fitAdjustment(
+  params: AdjustmentParams,
+  options: { allowZeroTarget: boolean }
+): AdjustmentResult {
+  const {
+    subtotal,
+    targetTotal,
+    selectionPolicy = 'smallest-discount',
+    allowResidual = false,
+    discountIncrement = 1,
+    explain = false,
+  } = params;
 
-  if (taxRate < 0 || taxRate > 1) {
-    return {
-      discount: 0,
-      isValid: false,
-      adjustedSubtotal: subtotal,
-      taxAmount: 0,
-      finalTotal: subtotal,
-      error: 'Tax rate must be between 0 and 1',
-    };
+  const validationError = validateParams(params, options.allowZeroTarget);
+  if (validationError) {
+    return invalidResult(subtotal, validationError);
   }
 
-  // Calculate current total with tax
-  const currentTax = applyTax(subtotal, taxRate, roundMode);
-  const currentTotal = subtotal + currentTax;
+  const { computeTax, computeUnroundedTotal, computeTotal } = createTaxModel(params);
 
-  // If already at target, no adjustment needed
-  if (currentTotal === targetTotal) {
-    return {
-      discount: 0,
-      isValid: true,
-      adjustedSubtotal: subtotal,
-      taxAmount: currentTax,
-      finalTotal: currentTotal,
-    };
-  }
-
-  // Helper function to calculate total for a given discount
-  const calculateTotal = (discount: number): number => {
-    const adjustedSub = subtotal - discount;
-    if (adjustedSub < 0) return -1; // Invalid
-    const tax = applyTax(adjustedSub, taxRate, roundMode);
-    return adjustedSub + tax;
+  // Search in units of the discount increment, remembering what was evaluated
+  const evaluated = new Set<number>();
+  const totalFor = (units: number): number => {
+    if (explain) evaluated.add(units);
+    return computeTotal(subtotal - units * discountIncrement);
   };
+  const taxFor = (units: number): number => computeTax(subtotal - units * discountIncrement);
 
-  // Binary search for the exact discount
   // Search range: allow negative discounts (surcharges) up to the full subtotal
-  let minDiscount = -subtotal; // Maximum surcharge (doubles the subtotal)
-  let maxDiscount = subtotal; // Maximum discount (reduces subtotal to 0)
-
-  let bestDiscount = 0;
-  let bestDifference = Math.abs(currentTotal - targetTotal);
-
-  // Binary search to narrow down the range
-  while (maxDiscount - minDiscount > 1) {
-    const midDiscount = Math.floor((minDiscount + maxDiscount) / 2);
-    const midTotal = calculateTotal(midDiscount);
-
-    if (midTotal === -1) {
-      // Invalid subtotal, adjust range
-      maxDiscount = midDiscount - 1;
-      continue;
-    }
-
-    if (midTotal === targetTotal) {
-      // Exact match found
-      const adjustedSubtotal = subtotal - midDiscount;
-      const taxAmount = applyTax(adjustedSubtotal, taxRate, roundMode);
+  const maxUnits = Math.floor(subtotal / discountIncrement);
+  const range = findDiscountRange(-maxUnits, maxUnits, targetTotal, totalFor);
+
+  const discount =
+    (range
+      ? selectDiscount(range, selectionPolicy, taxFor, discountIncrement)
+      : findClosestDiscount(-maxUnits, maxUnits, targetTotal, totalFor)) * discountIncrement;
+
+  const adjustedSubtotal = subtotal - discount;
+  const taxAmount = computeTax(adjustedSubtotal);
+  const taxableTotal = computeTotal(adjustedSubtotal);
+
+  // Report cash rounding of the total separately from the tax
+  const rounding =
+    params.totalIncrement !== undefined
+      ? { roundingDifference: taxableTotal - computeUnroundedTotal(adjustedSubtotal) }
+      : {};
+
+  const trace = (residualDiscount?: number): { trace?: AdjustmentTrace } => {
+    if (!explain) return {};
+
+    const candidateFor = (candidate: number): AdjustmentCandidate => {
+      const candidateSubtotal = subtotal - candidate;
+      const candidateTotal = computeTotal(candidateSubtotal);
       return {
-        discount: midDiscount,
-        isValid: true,
-        adjustedSubtotal,
-        taxAmount,
-        finalTotal: targetTotal,
+        discount: candidate,
+        adjustedSubtotal: candidateSubtotal,
+        taxAmount: computeTax(candidateSubtotal),
+        finalTotal: candidateTotal,
+        matchesTarget: candidateTotal === targetTotal,
       };
-    }
-
-    // Track best match so far
-    const difference = Math.abs(midTotal - targetTotal);
-    if (difference < bestDifference) {
-      bestDifference = difference;
-      bestDiscount = midDiscount;
-    }
-
-    // Since total decreases as discount increases (monotonic)
-    if (midTotal > targetTotal) {
-      // Need more discount
-      minDiscount = midDiscount + 1;
-    } else {
-      // Need less discount
-      maxDiscount = midDiscount - 1;
-    }
-  }
-
-  // Check remaining candidates in the final range
-  for (let discount = minDiscount; discount <= maxDiscount; discount++) {
-    const total = calculateTotal(discount);
-    if (total === -1) continue;
-
-    if (total === targetTotal) {
-      const adjustedSubtotal = subtotal - discount;
-      const taxAmount = applyTax(adjustedSubtotal, taxRate, roundMode);
-      return {
+    };
+
+    return {
+      trace: buildTrace(
+        traceInputs(params),
+        [...evaluated].map((units) => units * discountIncrement),
+        candidateFor,
+        range && {
+          minDiscount: range.minDiscount * discountIncrement,
+          maxDiscount: range.maxDiscount * discountIncrement,
+        },
         discount,
-        isValid: true,
-        adjustedSubtotal,
-        taxAmount,
-        finalTotal: targetTotal,
-      };
-    }
+        residualDiscount
+      ),
+    };
+  };
 
-    const difference = Math.abs(total - targetTotal);
-    if (difference < bestDifference) {
-      bestDifference = difference;
-      bestDiscount = discount;
-    }
+  if (allowResidual) {
+    // Cover whatever the taxable discount cannot reach with a non-taxable residual
+    return {
+      discount,
+      isValid: true,
+      adjustedSubtotal,
+      taxAmount,
+      finalTotal: targetTotal,
+      ...rounding,
+      residualDiscount: taxableTotal - targetTotal,
+      ...trace(taxableTotal - targetTotal),
+    };
   }
 
-  // Return best match found
-  const adjustedSubtotal = subtotal - bestDiscount;
-  const taxAmount = applyTax(adjustedSubtotal, taxRate, roundMode);
-  const finalTotal = adjustedSubtotal + taxAmount;
+  const finalTotal = taxableTotal;
 
   return {
-    discount: bestDiscount,
+    discount,
     isValid: finalTotal === targetTotal,
     adjustedSubtotal,
     taxAmount,
     finalTotal,
+    ...rounding,
     error: finalTotal !== targetTotal
       ? `Could not find exact adjustment. Closest total: ${finalTotal}, target: ${targetTotal}`
       : undefined,
+    errorCode: finalTotal !== targetTotal ? 'TARGET_UNREACHABLE' : undefined,
+    ...trace(),
+  };
+}
+
+/**
+ * Find every discount that reaches the target total
+ *
+ * Totals never increase as the discount grows, so the valid discounts form
+ * one contiguous range: every integer (or multiple of discountIncrement) between
+ * minDiscount and maxDiscount reaches the target. Use selectionPolicy on
+ * calculateAdjustment to pick one.
+ *
+ * @param params - Adjustment parameters (selectionPolicy is ignored)
+ * @returns The range of valid discounts, or an invalid result if there are none
+ */
+export function findAdjustmentRange(params: AdjustmentParams): AdjustmentRange {
+  const { subtotal, targetTotal, discountIncrement = 1 } = params;
+
+  const validationError = validateParams(params);
+  if (validationError) {
+    return {
+      isValid: false,
+      minDiscount: 0,
+      maxDiscount: 0,
+      count: 0,
+      error: validationError,
+      errorCode: 'INVALID_INPUT',
+    };
+  }
+
+  const { computeTotal } = createTaxModel(params);
+  const maxUnits = Math.floor(subtotal / discountIncrement);
+  const range = findDiscountRange(-maxUnits, maxUnits, targetTotal, (units) =>
+    computeTotal(subtotal - units * discountIncrement)
+  );
+
+  if (!range) {
+    return {
+      isValid: false,
+      minDiscount: 0,
+      maxDiscount: 0,
+      count: 0,
+      error: `No discount reaches target total ${targetTotal}`,
+      errorCode: 'TARGET_UNREACHABLE',
+    };
+  }
+
+  return {
+    isValid: true,
+    minDiscount: range.minDiscount * discountIncrement,
+    maxDiscount: range.maxDiscount * discountIncrement,
+    count: range.maxDiscount - range.minDiscount + 1,
+  };
+}
+
+/**
+ * Every supported rounding mode
+ */
+export const ROUND_MODES: readonly RoundMode[] = [
+  'floor',
+  'ceil',
+  'round',
+  'half-even',
+  'half-down',
+  'half-away-from-zero',
+  'truncate',
+];
+const PRICING_MODES: readonly PricingMode[] = ['exclusive', 'inclusive'];
+const SELECTION_POLICIES: readonly SelectionPolicy[] = [
+  'smallest-discount',
+  'largest-base',
+  'largest-tax',
+  'round-number',
+];
+
+/**
+ * Check adjustment parameters
+ *
+ * Amounts must be finite, non-negative safe integers in the smallest currency unit.
+ * The target must be positive and, unless a residual is allowed, no more than the
+ * total reached with the largest surcharge the search considers (the full subtotal).
+ *
+ * @returns An error message, or undefined if the parameters are valid
+ */
+function validateParams(params: AdjustmentParams, allowZeroTarget = false): string | undefined {
+  const {
+    subtotal,
+    targetTotal,
+    taxRate,
+    allowRateAboveOne = false,
+    roundMode = 'floor',
+    pricingMode = 'exclusive',
+    selectionPolicy = 'smallest-discount',
+    allowResidual = false,
+    taxIncrement = 1,
+    totalIncrement = 1,
+    totalRoundMode = 'round',
+    discountIncrement = 1,
+    explain = false,
+  } = params;
+
+  const subtotalError = checkAmount('Subtotal', subtotal);
+  if (subtotalError) {
+    return subtotalError;
+  }
+
+  const targetError = checkAmount('Target total', targetTotal);
+  if (targetError) {
+    return targetError;
+  }
+
+  if (targetTotal === 0 && !allowZeroTarget) {
+    return 'Target total must be greater than zero';
+  }
+
+  const taxRateError = checkTaxRate(taxRate, allowRateAboveOne);
+  if (taxRateError) {
+    return taxRateError;
+  }
+
+  if (typeof allowRateAboveOne !== 'boolean') {
+    return 'allowRateAboveOne must be a boolean';
+  }
+
+  if (typeof allowResidual !== 'boolean') {
+    return 'allowResidual must be a boolean';
+  }
+
+  if (typeof explain !== 'boolean') {
+    return 'explain must be a boolean';
+  }
+
+  if (!ROUND_MODES.includes(roundMode)) {
+    return `Unknown rounding mode: ${String(roundMode)}`;
+  }
+
+  if (!ROUND_MODES.includes(totalRoundMode)) {
+    return `Unknown total rounding mode: ${String(totalRoundMode)}`;
+  }
+
+  if (!PRICING_MODES.includes(pricingMode)) {
+    return `Unknown pricing mode: ${String(pricingMode)}`;
+  }
+
+  if (!SELECTION_POLICIES.includes(selectionPolicy)) {
+    return `Unknown selection policy: ${String(selectionPolicy)}`;
+  }
+
+  if (!Number.isSafeInteger(taxIncrement) || taxIncrement <= 0) {
+    return 'Tax rounding increment must be a positive integer';
+  }
+
+  if (!Number.isSafeInteger(totalIncrement) || totalIncrement <= 0) {
+    return 'Total rounding increment must be a positive integer';
+  }
+
+  if (!Number.isSafeInteger(discountIncrement) || discountIncrement <= 0) {
+    return 'Discount increment must be a positive integer';
+  }
+
+  if (targetTotal % totalIncrement !== 0) {
+    return `Target total must be a multiple of the total rounding increment (${totalIncrement})`;
+  }
+
+  // The search surcharges up to the full subtotal, so totals are computed on up to twice it
+  if (subtotal > Number.MAX_SAFE_INTEGER / 2) {
+    return 'Subtotal is too large to adjust safely';
+  }
+
+  const maxTotal = createTaxModel(params).computeTotal(subtotal * 2);
+  if (!Number.isSafeInteger(maxTotal)) {
+    return 'Subtotal is too large to adjust safely';
+  }
+
+  // A residual can cover any target; without one, the target must be within reach
+  if (!allowResidual && targetTotal > maxTotal) {
+    return `Target total ${targetTotal} is more than the largest reachable total (${maxTotal}) for subtotal ${subtotal}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check that an amount is a finite, non-negative safe integer
+ * @returns An error message, or undefined if the amount is valid
+ */
+export function checkAmount(label: string, amount: number): string | undefined {
+  if (typeof amount !== 'number' || Number.isNaN(amount)) {
+    return `${label} must be a number`;
+  }
+
+  if (!Number.isFinite(amount)) {
+    return `${label} must be finite`;
+  }
+
+  if (amount < 0) {
+    return `${label} cannot be negative`;
+  }
+
+  if (!Number.isInteger(amount)) {
+    return `${label} must be an integer`;
+  }
+
+  if (!Number.isSafeInteger(amount)) {
+    return `${label} exceeds the safe integer range`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Fill in the defaults of validated parameters for a trace
+ */
+function traceInputs(params: AdjustmentParams): AdjustmentTrace['inputs'] {
+  return {
+    subtotal: params.subtotal,
+    targetTotal: params.targetTotal,
+    taxRate: toRationalRate(params.taxRate),
+    allowRateAboveOne: params.allowRateAboveOne ?? false,
+    roundMode: params.roundMode ?? 'floor',
+    pricingMode: params.pricingMode ?? 'exclusive',
+    selectionPolicy: params.selectionPolicy ?? 'smallest-discount',
+    allowResidual: params.allowResidual ?? false,
+    taxIncrement: params.taxIncrement ?? 1,
+    totalIncrement: params.totalIncrement ?? 1,
+    totalRoundMode: params.totalRoundMode ?? 'round',
+    discountIncrement: params.discountIncrement ?? 1,
+  };
+}
+
+/**
+ * Build the tax and total functions for the pricing mode and rounding increments
+ */
+function createTaxModel(params: AdjustmentParams): {
+  computeTax: (amount: number) => number;
+  computeUnroundedTotal: (amount: number) => number;
+  computeTotal: (amount: number) => number;
+} {
+  const {
+    taxRate,
+    roundMode = 'floor',
+    pricingMode = 'exclusive',
+    taxIncrement = 1,
+    totalIncrement = 1,
+    totalRoundMode = 'round',
+  } = params;
+
+  // Tax contained in (inclusive) or added to (exclusive) an amount
+  const computeTax = (amount: number): number =>
+    pricingMode === 'inclusive'
+      ? extractTax(amount, taxRate, roundMode, taxIncrement)
+      : applyTax(amount, taxRate, roundMode, taxIncrement);
+
+  // Total including tax for an amount, before cash rounding
+  const computeUnroundedTotal = (amount: number): number =>
+    pricingMode === 'inclusive' ? amount : amount + computeTax(amount);
+
+  // Total including tax for an amount, rounded to the cash increment
+  const computeTotal = (amount: number): number =>
+    totalIncrement === 1
+      ? computeUnroundedTotal(amount)
+      : roundToIncrement(computeUnroundedTotal(amount), totalIncrement, totalRoundMode);
+
+  return { computeTax, computeUnroundedTotal, computeTotal };
+}
+
+/**
+ * Build an invalid result that leaves the subtotal unchanged
+ */
+function invalidResult(subtotal: number, error: string): AdjustmentResult {
+  return {
+    discount: 0,
+    isValid: false,
+    adjustedSubtotal: subtotal,
+    taxAmount: 0,
+    finalTotal: subtotal,
+    error,
+    errorCode: 'INVALID_INPUT',
   };
 }
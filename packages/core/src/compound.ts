@@ -0,0 +1,132 @@
+import { applyTax } from './calculate';
+import { checkTaxRate } from './rate';
+import { findClosestDiscount, findDiscountRange, selectDiscount } from './search';
+import type {
+  CompoundAdjustmentParams,
+  CompoundAdjustmentResult,
+  ComponentTaxResult,
+  TaxComponent,
+} from './types';
+
+/**
+ * Calculate the tax for each component of a stacked tax
+ *
+ * Components are levied in order. A regular component is levied on the amount;
+ * a compound component is levied on the amount plus the taxes of every earlier
+ * component. Each component is rounded separately with its own rounding mode.
+ *
+ * @param amount - The base amount (before tax, integer in smallest currency unit)
+ * @param components - Tax components in the order they are levied
+ * @returns The tax for each component, in the same order
+ * @throws RangeError if the amount is not a safe integer or a rate is not usable
+ */
+export function applyTaxComponents(
+  amount: number,
+  components: TaxComponent[]
+): ComponentTaxResult[] {
+  const results: ComponentTaxResult[] = [];
+  let taxSoFar = 0;
+
+  for (const { name, taxRate, roundMode = 'floor', compound = false } of components) {
+    const taxableAmount = compound ? amount + taxSoFar : amount;
+    const taxAmount = applyTax(taxableAmount, taxRate, roundMode);
+    results.push({ ...(name !== undefined ? { name } : {}), taxRate, taxableAmount, taxAmount });
+    taxSoFar += taxAmount;
+  }
+
+  return results;
+}
+
+/**
+ * Calculate the discount needed to reach a target grand total when several
+ * tax components apply to the same subtotal (e.g., GST plus a provincial tax
+ * levied on the GST-inclusive amount)
+ *
+ * Every component's tax only grows with the subtotal, so the grand total does too,
+ * and the same binary search as calculateAdjustment finds the discount.
+ *
+ * @param params - Compound adjustment parameters
+ * @returns Adjustment result with the per-component taxes
+ */
+export function calculateCompoundAdjustment(
+  params: CompoundAdjustmentParams
+): CompoundAdjustmentResult {
+  const { subtotal, targetTotal, components, selectionPolicy = 'smallest-discount' } = params;
+
+  const validationError = validateParams(params);
+  if (validationError) {
+    return {
+      discount: 0,
+      isValid: false,
+      adjustedSubtotal: subtotal,
+      taxAmount: 0,
+      finalTotal: subtotal,
+      components: [],
+      error: validationError,
+      errorCode: 'INVALID_INPUT',
+    };
+  }
+
+  const taxFor = (discount: number): number =>
+    applyTaxComponents(subtotal - discount, components).reduce(
+      (sum, component) => sum + component.taxAmount,
+      0
+    );
+  const totalFor = (discount: number): number => subtotal - discount + taxFor(discount);
+
+  const range = findDiscountRange(-subtotal, subtotal, targetTotal, totalFor);
+  const discount = range
+    ? selectDiscount(range, selectionPolicy, taxFor)
+    : findClosestDiscount(-subtotal, subtotal, targetTotal, totalFor);
+
+  const adjustedSubtotal = subtotal - discount;
+  const componentTaxes = applyTaxComponents(adjustedSubtotal, components);
+  const taxAmount = componentTaxes.reduce((sum, component) => sum + component.taxAmount, 0);
+  const finalTotal = adjustedSubtotal + taxAmount;
+
+  return {
+    discount,
+    isValid: finalTotal === targetTotal,
+    adjustedSubtotal,
+    taxAmount,
+    finalTotal,
+    components: componentTaxes,
+    error: finalTotal !== targetTotal
+      ? `Could not find exact adjustment. Closest total: ${finalTotal}, target: ${targetTotal}`
+      : undefined,
+    errorCode: finalTotal !== targetTotal ? 'TARGET_UNREACHABLE' : undefined,
+  };
+}
+
+/**
+ * Check compound adjustment parameters
+ * @returns An error message, or undefined if the parameters are valid
+ */
+function validateParams(params: CompoundAdjustmentParams): string | undefined {
+  const { subtotal, targetTotal, components } = params;
+
+  if (components.length === 0) {
+    return 'At least one tax component is required';
+  }
+
+  if (subtotal < 0) {
+    return 'Subtotal cannot be negative';
+  }
+
+  if (!Number.isSafeInteger(subtotal)) {
+    return 'Subtotal must be an integer';
+  }
+
+  if (!Number.isSafeInteger(targetTotal)) {
+    return 'Target total must be an integer';
+  }
+
+  for (const { taxRate } of components) {
+    const taxRateError = checkTaxRate(taxRate);
+    if (taxRateError) {
+      return taxRateError;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,203 @@
+import { calculateAdjustment } from './calculate';
+import type {
+  AdjustmentResult,
+  Money,
+  MoneyAdjustmentParams,
+  MoneyAdjustmentResult,
+} from './types';
+
+/**
+ * ISO 4217 currencies whose minor unit is not 2 decimal places
+ * (every other currency uses 2)
+ */
+const MINOR_UNIT_EXCEPTIONS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4,
+};
+
+/**
+ * Get the number of decimal places in a currency's minor unit (ISO 4217)
+ * @param currency - Three-letter currency code, case-insensitive (e.g., 'JPY', 'usd')
+ * @returns 0 for JPY, 2 for USD, 3 for KWD, and so on
+ * @throws RangeError if the currency is not a three-letter code
+ */
+export function getMinorUnits(currency: string): number {
+  return MINOR_UNIT_EXCEPTIONS[normalizeCurrency(currency)] ?? 2;
+}
+
+/**
+ * Convert a major-unit amount (e.g., 12.34 USD) to integer minor units (1234)
+ *
+ * The conversion works on the decimal string, so 0.1 + 0.2 style drift
+ * cannot produce an off-by-one amount.
+ *
+ * @param amount - Amount in major units, as a number or decimal string
+ * @param currency - Three-letter currency code
+ * @returns The amount in the smallest currency unit
+ * @throws RangeError if the amount has more decimals than the currency allows or is not a safe integer in minor units
+ */
+export function toMinorUnits(amount: number | string, currency: string): number {
+  const minorUnits = getMinorUnits(currency);
+  const text = typeof amount === 'number' ? numberToDecimal(amount) : amount.trim();
+
+  const match = /^(-?)(\d+)(?:\.(\d*))?$/.exec(text);
+  if (!match) {
+    throw new RangeError(`Invalid amount: ${String(amount)}`);
+  }
+
+  const [, sign = '', integerPart = '0', fractionPart = ''] = match;
+  const fraction = fractionPart.replace(/0+$/, '');
+  if (fraction.length > minorUnits) {
+    throw new RangeError(
+      `Amount ${String(amount)} has more than ${minorUnits} decimal places allowed for ${normalizeCurrency(currency)}`
+    );
+  }
+
+  const minor = Number(`${sign}${integerPart}${fraction.padEnd(minorUnits, '0')}`);
+  assertMinorUnits(minor, currency);
+  // Avoid returning -0 for "-0.00"
+  return minor === 0 ? 0 : minor;
+}
+
+/**
+ * Convert integer minor units (e.g., 1234 cents) to a major-unit amount (12.34)
+ * @param amount - Amount in the smallest currency unit
+ * @param currency - Three-letter currency code
+ * @returns The amount in major units
+ * @throws RangeError if the amount is not a safe integer
+ */
+export function toMajorUnits(amount: number, currency: string): number {
+  assertMinorUnits(amount, currency);
+  return amount / 10 ** getMinorUnits(currency);
+}
+
+/**
+ * Throw unless an amount is a safe integer in the smallest currency unit
+ * @param amount - Amount in the smallest currency unit
+ * @param currency - Three-letter currency code (used in the error message)
+ * @throws RangeError if the amount is not a safe integer
+ */
+export function assertMinorUnits(amount: number, currency: string): void {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(
+      `Amount must be an integer in the smallest unit of ${normalizeCurrency(currency)}, got ${amount}`
+    );
+  }
+}
+
+/**
+ * Format money for display using Intl.NumberFormat
+ * @param money - Amount in minor units and its currency
+ * @param locale - BCP 47 locale (defaults to the runtime locale)
+ * @returns The formatted amount (e.g., '¥315,000' or '$99.00')
+ */
+export function formatMoney(money: Money, locale?: string): string {
+  const minorUnits = getMinorUnits(money.currency);
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: normalizeCurrency(money.currency),
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
+  }).format(toMajorUnits(money.amount, money.currency));
+}
+
+/**
+ * Calculate a tax adjustment for amounts in a specific currency
+ *
+ * Validates that both amounts are integer minor units in the same currency,
+ * then delegates to calculateAdjustment and formats the results.
+ *
+ * @param params - Adjustment parameters with Money amounts
+ * @returns Adjustment result with the currency and formatted amounts; like any
+ *   invalid input, a target in another currency gives an invalid result with
+ *   errorCode 'INVALID_INPUT'
+ * @throws RangeError if a currency code is malformed or an amount is not an integer
+ */
+export function calculateMoneyAdjustment(
+  params: MoneyAdjustmentParams
+): MoneyAdjustmentResult {
+  const { subtotal, targetTotal, locale, ...rest } = params;
+  const currency = normalizeCurrency(subtotal.currency);
+  const targetCurrency = normalizeCurrency(targetTotal.currency);
+
+  assertMinorUnits(subtotal.amount, currency);
+  assertMinorUnits(targetTotal.amount, targetCurrency);
+
+  const result: AdjustmentResult =
+    targetCurrency === currency
+      ? calculateAdjustment({
+          ...rest,
+          subtotal: subtotal.amount,
+          targetTotal: targetTotal.amount,
+        })
+      : {
+          discount: 0,
+          isValid: false,
+          adjustedSubtotal: subtotal.amount,
+          taxAmount: 0,
+          finalTotal: subtotal.amount,
+          error: `Currency mismatch: subtotal is ${currency}, target total is ${targetCurrency}`,
+          errorCode: 'INVALID_INPUT',
+        };
+
+  const format = (amount: number): string => formatMoney({ amount, currency }, locale);
+
+  return {
+    ...result,
+    currency,
+    formatted: {
+      discount: format(result.discount),
+      adjustedSubtotal: format(result.adjustedSubtotal),
+      taxAmount: format(result.taxAmount),
+      finalTotal: format(result.finalTotal),
+    },
+  };
+}
+
+/**
+ * Upper-case and validate a currency code
+ */
+function normalizeCurrency(currency: string): string {
+  const code = currency.toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new RangeError(`Invalid currency code: ${currency}`);
+  }
+  return code;
+}
+
+/**
+ * Plain decimal representation of a finite number (no exponent notation)
+ */
+function numberToDecimal(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Invalid amount: ${value}`);
+  }
+  // toString gives the shortest round-trip decimal; only tiny or huge values use exponents
+  const text = value.toString();
+  return text.includes('e') ? value.toFixed(20).replace(/\.?0+$/, '') : text;
+}
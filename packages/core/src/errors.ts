@@ -0,0 +1,51 @@
+import type { AdjustmentErrorCode, TaxFitterErrorCode } from './types';
+
+/**
+ * Base class for errors thrown by tax-fitter packages
+ *
+ * Branch on `code` rather than the message; codes are stable, messages may change.
+ * Packages with codes of their own (such as stripe-tax-fitter) extend it with
+ * their code union.
+ *
+ * @typeParam TCode - The codes the error can carry
+ */
+export class TaxFitterError<TCode extends string = TaxFitterErrorCode> extends Error {
+  /**
+   * The underlying error, if this one wraps another
+   */
+  readonly cause?: unknown;
+
+  constructor(
+    /**
+     * Machine-readable reason (e.g., 'INVALID_INPUT' or 'TARGET_UNREACHABLE')
+     */
+    readonly code: NoInfer<TCode>,
+    message: string,
+    options: { cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'TaxFitterError';
+    if ('cause' in options) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Throw a TaxFitterError for an invalid adjustment result
+ *
+ * @param result - Any adjustment result with isValid, error and errorCode
+ * @returns The result, when it is valid
+ * @throws TaxFitterError with the result's errorCode (INVALID_INPUT if missing)
+ */
+export function assertValidAdjustment<
+  T extends { isValid: boolean; error?: string; errorCode?: AdjustmentErrorCode },
+>(result: T): T {
+  if (!result.isValid) {
+    throw new TaxFitterError(
+      result.errorCode ?? 'INVALID_INPUT',
+      result.error ?? 'Invalid adjustment'
+    );
+  }
+  return result;
+}
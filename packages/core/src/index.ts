@@ -1,7 +1,69 @@
 export const version = '0.0.0';
 
 // Export types
-export type { RoundMode, AdjustmentParams, AdjustmentResult } from './types';
+export type {
+  RoundMode,
+  PricingMode,
+  RationalRate,
+  TaxRate,
+  SelectionPolicy,
+  RoundingScope,
+  AdjustmentErrorCode,
+  TaxFitterErrorCode,
+  AdjustmentParams,
+  AdjustmentResult,
+  AdjustmentCandidate,
+  AdjustmentTrace,
+  AdjustmentRange,
+  Money,
+  MoneyAdjustmentParams,
+  MoneyAdjustmentResult,
+  RateSubtotal,
+  MultiRateAdjustmentParams,
+  MultiRateAdjustmentResult,
+  RateAdjustmentResult,
+  TaxComponent,
+  ComponentTaxResult,
+  CompoundAdjustmentParams,
+  CompoundAdjustmentResult,
+  LineItem,
+  LineItemAdjustmentParams,
+  LineItemAdjustmentResult,
+  AllocationOptions,
+  LineAllocation,
+  DiscountAllocationResult,
+  TaxableBase,
+  DocumentAdjustment,
+  BillingAdapter,
+  FitDocumentOptions,
+  CalculatedDocumentAdjustment,
+  FitDocumentResult,
+  InMemoryDocument,
+  InMemoryLine,
+} from './types';
 
 // Export calculation functions
-export { calculateAdjustment, applyTax } from './calculate';
+export {
+  calculateAdjustment,
+  findAdjustmentRange,
+  applyTax,
+  extractTax,
+  ROUND_MODES,
+} from './calculate';
+export { calculateMultiRateAdjustment } from './multi-rate';
+export { calculateCompoundAdjustment, applyTaxComponents } from './compound';
+export { calculateLineItemAdjustment, calculateLineItemTax } from './line-items';
+export { allocateDiscount } from './allocation';
+export { fitDocument, calculateDocumentAdjustment, InMemoryBillingAdapter } from './billing';
+export { TaxFitterError, assertValidAdjustment } from './errors';
+export { summarizeTrace } from './trace';
+export { toRationalRate, basisPoints, rateToNumber, isSameRate } from './rate';
+export { roundToIncrement } from './rounding';
+export {
+  calculateMoneyAdjustment,
+  getMinorUnits,
+  toMinorUnits,
+  toMajorUnits,
+  assertMinorUnits,
+  formatMoney,
+} from './currency';
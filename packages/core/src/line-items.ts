@@ -0,0 +1,165 @@
+import { applyTax, extractTax } from './calculate';
+import { checkTaxRate, toRationalRate } from './rate';
+import { findClosestDiscount, findDiscountRange, selectDiscount } from './search';
+import type {
+  LineItem,
+  LineItemAdjustmentParams,
+  LineItemAdjustmentResult,
+  PricingMode,
+  RoundMode,
+  RoundingScope,
+} from './types';
+
+/**
+ * Calculate the tax on a set of line items
+ *
+ * With 'line' scope every line's tax is rounded on its own and the results are
+ * summed. With 'document' scope the lines are summed per tax rate and the tax is
+ * rounded once per rate. The two can differ by a few units on the same invoice.
+ * With 'inclusive' pricing the tax is extracted from the amounts instead of added.
+ *
+ * @param lineItems - Line items (amounts may be negative for credits)
+ * @param roundMode - Rounding mode to use
+ * @param roundingScope - Where the tax is rounded
+ * @param pricingMode - Whether the amounts include tax
+ * @returns The total tax for the line items
+ * @throws RangeError if an amount is not a safe integer or a rate is not usable
+ */
+export function calculateLineItemTax(
+  lineItems: LineItem[],
+  roundMode: RoundMode = 'floor',
+  roundingScope: RoundingScope = 'document',
+  pricingMode: PricingMode = 'exclusive'
+): number {
+  const tax = pricingMode === 'inclusive' ? extractTax : applyTax;
+  if (roundingScope === 'line') {
+    return lineItems.reduce(
+      (sum, { amount, taxRate }) => sum + tax(amount, taxRate, roundMode),
+      0
+    );
+  }
+
+  // Group by the exact rate so 0.1 and { numerator: 1, denominator: 10 } share a group
+  const groups = new Map<string, LineItem>();
+  for (const { amount, taxRate } of lineItems) {
+    const { numerator, denominator } = toRationalRate(taxRate);
+    const key = `${numerator}/${denominator}`;
+    const group = groups.get(key);
+    groups.set(key, { amount: (group?.amount ?? 0) + amount, taxRate });
+  }
+
+  let total = 0;
+  for (const { amount, taxRate } of groups.values()) {
+    total += tax(amount, taxRate, roundMode);
+  }
+  return total;
+}
+
+/**
+ * Calculate the adjustment line needed to reach a target total on an invoice
+ * with several line items
+ *
+ * The adjustment is added as one more line at params.taxRate (a negative amount
+ * for a discount), and the tax is calculated with the same rounding scope as the
+ * billing system, so the fitted total matches what it will produce.
+ *
+ * @param params - Line item adjustment parameters
+ * @returns Adjustment result; discount is the negated amount of the adjustment line
+ */
+export function calculateLineItemAdjustment(
+  params: LineItemAdjustmentParams
+): LineItemAdjustmentResult {
+  const {
+    lineItems,
+    targetTotal,
+    taxRate,
+    roundMode = 'floor',
+    roundingScope = 'document',
+    selectionPolicy = 'smallest-discount',
+  } = params;
+
+  const subtotal = lineItems.reduce((sum, { amount }) => sum + amount, 0);
+
+  const validationError = validateParams(params, subtotal);
+  if (validationError) {
+    return {
+      discount: 0,
+      isValid: false,
+      adjustedSubtotal: subtotal,
+      taxAmount: 0,
+      finalTotal: subtotal,
+      subtotal,
+      error: validationError,
+      errorCode: 'INVALID_INPUT',
+    };
+  }
+
+  const taxFor = (discount: number): number =>
+    calculateLineItemTax(
+      discount === 0 ? lineItems : [...lineItems, { amount: -discount, taxRate }],
+      roundMode,
+      roundingScope
+    );
+  const totalFor = (discount: number): number => subtotal - discount + taxFor(discount);
+
+  const range = findDiscountRange(-subtotal, subtotal, targetTotal, totalFor);
+  const discount = range
+    ? selectDiscount(range, selectionPolicy, taxFor)
+    : findClosestDiscount(-subtotal, subtotal, targetTotal, totalFor);
+
+  const adjustedSubtotal = subtotal - discount;
+  const taxAmount = taxFor(discount);
+  const finalTotal = adjustedSubtotal + taxAmount;
+
+  return {
+    discount,
+    isValid: finalTotal === targetTotal,
+    adjustedSubtotal,
+    taxAmount,
+    finalTotal,
+    subtotal,
+    error: finalTotal !== targetTotal
+      ? `Could not find exact adjustment. Closest total: ${finalTotal}, target: ${targetTotal}`
+      : undefined,
+    errorCode: finalTotal !== targetTotal ? 'TARGET_UNREACHABLE' : undefined,
+  };
+}
+
+/**
+ * Check line item adjustment parameters
+ * @returns An error message, or undefined if the parameters are valid
+ */
+function validateParams(
+  params: LineItemAdjustmentParams,
+  subtotal: number
+): string | undefined {
+  const { lineItems, targetTotal, taxRate } = params;
+
+  if (lineItems.length === 0) {
+    return 'At least one line item is required';
+  }
+
+  for (const { amount, taxRate: lineRate } of lineItems) {
+    if (!Number.isSafeInteger(amount)) {
+      return 'Line item amounts must be integers';
+    }
+    const taxRateError = checkTaxRate(lineRate);
+    if (taxRateError) {
+      return taxRateError;
+    }
+  }
+
+  if (subtotal < 0) {
+    return 'Subtotal cannot be negative';
+  }
+
+  if (!Number.isSafeInteger(subtotal)) {
+    return 'Subtotal must be an integer';
+  }
+
+  if (!Number.isSafeInteger(targetTotal)) {
+    return 'Target total must be an integer';
+  }
+
+  return checkTaxRate(taxRate);
+}
@@ -0,0 +1,247 @@
+import { applyTax, checkAmount, fitAdjustment } from './calculate';
+import { checkTaxRate, toRationalRate } from './rate';
+import type {
+  AdjustmentResult,
+  MultiRateAdjustmentParams,
+  MultiRateAdjustmentResult,
+  RateAdjustmentResult,
+  RateSubtotal,
+} from './types';
+
+/**
+ * Upper limit on how far a rate's share of the target may move
+ *
+ * A rate p/q in lowest terms repeats its pattern of reachable totals every
+ * p + q units (e.g., every 2 for 100%, every 27 for 8%), so two rates can
+ * have to move their shares by up to the longest of these periods before
+ * their shifts cancel out (e.g., 100% reaches only even totals and 99% only
+ * odd ones). Rates with a longer period (e.g., 6.35% = 127/2000) are searched
+ * only this far to bound the work, and may miss a reachable target.
+ */
+const MAX_SHIFT = 2000;
+
+/**
+ * Calculate per-rate discounts needed to reach a target grand total
+ * on an invoice that mixes several tax rates (e.g., 8% and 10%)
+ *
+ * Tax is calculated once per rate on that rate's subtotal, as required
+ * for Japanese qualified invoices. The algorithm:
+ * 1. Split the target total across rates in proportion to their current totals
+ * 2. Fit each rate to its share using calculateAdjustment
+ * 3. If rounding makes a share unreachable, fit each rate to nearby shares and
+ *    combine the ones whose shifts cancel out, moving as few units as possible.
+ *    The window widens up to the longest period of the rates' totals (at most
+ *    MAX_SHIFT units) until a combination is found
+ *
+ * @param params - Multi-rate adjustment parameters
+ * @returns Per-rate breakdown and combined totals
+ */
+export function calculateMultiRateAdjustment(
+  params: MultiRateAdjustmentParams
+): MultiRateAdjustmentResult {
+  const { subtotals, targetTotal, roundMode = 'floor' } = params;
+
+  if (subtotals.length === 0) {
+    return invalidResult(subtotals, 'At least one rate subtotal is required');
+  }
+
+  const targetError = checkAmount('Target total', targetTotal);
+  if (targetError) {
+    return invalidResult(subtotals, targetError);
+  }
+
+  for (const { subtotal, taxRate } of subtotals) {
+    if (subtotal < 0) {
+      return invalidResult(subtotals, 'Subtotal cannot be negative');
+    }
+    if (!Number.isSafeInteger(subtotal)) {
+      return invalidResult(subtotals, 'Subtotal must be an integer');
+    }
+    const taxRateError = checkTaxRate(taxRate);
+    if (taxRateError) {
+      return invalidResult(subtotals, taxRateError);
+    }
+  }
+
+  // Split the target in proportion to each rate's current total including tax
+  const currentTotals = subtotals.map(
+    ({ subtotal, taxRate }) => subtotal + applyTax(subtotal, taxRate, roundMode)
+  );
+  const currentGrandTotal = currentTotals.reduce((sum, total) => sum + total, 0);
+
+  if (currentGrandTotal === 0) {
+    return invalidResult(subtotals, 'Combined subtotal must be greater than zero');
+  }
+
+  // Integer arithmetic keeps the split exact for large amounts
+  const targets = currentTotals.map((total) =>
+    Number((BigInt(targetTotal) * BigInt(total)) / BigInt(currentGrandTotal))
+  );
+  const allocated = targets.slice(0, -1).reduce((sum, target) => sum + target, 0);
+  targets[targets.length - 1] = targetTotal - allocated;
+
+  // A rate's share can be zero (e.g., for a zero subtotal), which calculateAdjustment rejects
+  const solve = ({ subtotal, taxRate }: RateSubtotal, rateTarget: number): AdjustmentResult =>
+    fitAdjustment(
+      { subtotal, targetTotal: rateTarget, taxRate, roundMode },
+      { allowZeroTarget: true }
+    );
+
+  const initial = subtotals.map((rate, index) => solve(rate, targets[index] ?? 0));
+  if (initial.every((result) => result.isValid)) {
+    return buildResult(subtotals, initial);
+  }
+
+  // Some shares were skipped by rounding; fit every rate to the shares around its
+  // own, widening the window until the shifts can cancel out
+  const maxWindow = Math.min(
+    Math.max(
+      ...subtotals.map(({ taxRate }) => {
+        const { numerator, denominator } = toRationalRate(taxRate);
+        return numerator + denominator;
+      })
+    ),
+    MAX_SHIFT
+  );
+  const searches = subtotals.map((rate, index) => {
+    const reachable = new Map<number, AdjustmentResult>();
+    const result = initial[index];
+    if (result?.isValid) {
+      reachable.set(0, result);
+    }
+    return { rate, target: targets[index] ?? 0, reachable };
+  });
+
+  let searched = 0;
+  for (let window = Math.min(2, maxWindow); searched < maxWindow; window *= 2) {
+    const limit = Math.min(window, maxWindow);
+    for (const { rate, target, reachable } of searches) {
+      for (let distance = searched + 1; distance <= limit; distance++) {
+        for (const shift of [-distance, distance]) {
+          const result = solve(rate, target + shift);
+          if (result.isValid) {
+            reachable.set(shift, result);
+          }
+        }
+      }
+    }
+    searched = limit;
+
+    const balanced = balanceShifts(searches.map(({ reachable }) => reachable));
+    if (balanced) {
+      return buildResult(subtotals, balanced);
+    }
+  }
+
+  const closest = buildResult(subtotals, initial);
+  return {
+    ...closest,
+    isValid: false,
+    error: `Could not find exact multi-rate adjustment. Closest total: ${closest.finalTotal}, target: ${targetTotal}`,
+    errorCode: 'TARGET_UNREACHABLE',
+  };
+}
+
+/**
+ * Pick one result per rate so that the shifts of the shares add up to zero,
+ * moving as few units in total as possible
+ *
+ * @param candidates - For each rate, the valid results by shift of its share
+ * @returns One result per rate, or undefined if no combination cancels out
+ */
+function balanceShifts(
+  candidates: Map<number, AdjustmentResult>[]
+): AdjustmentResult[] | undefined {
+  const last = candidates[candidates.length - 1];
+  if (!last) {
+    return undefined;
+  }
+
+  // For each net shift so far, the choice that moves the fewest units
+  let best = new Map<number, { moved: number; results: AdjustmentResult[] }>([
+    [0, { moved: 0, results: [] }],
+  ]);
+
+  for (const reachable of candidates.slice(0, -1)) {
+    const next = new Map<number, { moved: number; results: AdjustmentResult[] }>();
+    for (const [net, choice] of best) {
+      for (const [shift, result] of reachable) {
+        const moved = choice.moved + Math.abs(shift);
+        const current = next.get(net + shift);
+        if (!current || moved < current.moved) {
+          next.set(net + shift, { moved, results: [...choice.results, result] });
+        }
+      }
+    }
+    best = next;
+  }
+
+  // The last rate must cancel the net shift of the others
+  let balanced: { moved: number; results: AdjustmentResult[] } | undefined;
+  for (const [net, choice] of best) {
+    const result = last.get(-net);
+    const moved = choice.moved + Math.abs(net);
+    if (result && (!balanced || moved < balanced.moved)) {
+      balanced = { moved, results: [...choice.results, result] };
+    }
+  }
+  return balanced?.results;
+}
+
+/**
+ * Combine per-rate results into a multi-rate result
+ */
+function buildResult(
+  subtotals: RateSubtotal[],
+  results: AdjustmentResult[]
+): MultiRateAdjustmentResult {
+  const breakdown: RateAdjustmentResult[] = results.map((result, index) => ({
+    ...result,
+    // A zero subtotal is fitted with a discount of -0
+    discount: result.discount === 0 ? 0 : result.discount,
+    taxRate: subtotals[index]?.taxRate ?? 0,
+    subtotal: subtotals[index]?.subtotal ?? 0,
+  }));
+
+  const sum = (pick: (result: RateAdjustmentResult) => number): number =>
+    breakdown.reduce((total, result) => total + pick(result), 0);
+
+  return {
+    breakdown,
+    discount: sum((result) => result.discount),
+    isValid: breakdown.every((result) => result.isValid),
+    adjustedSubtotal: sum((result) => result.adjustedSubtotal),
+    taxAmount: sum((result) => result.taxAmount),
+    finalTotal: sum((result) => result.finalTotal),
+  };
+}
+
+/**
+ * Build an invalid result that leaves every rate unchanged
+ */
+function invalidResult(
+  subtotals: RateSubtotal[],
+  error: string
+): MultiRateAdjustmentResult {
+  const breakdown: RateAdjustmentResult[] = subtotals.map(({ subtotal, taxRate }) => ({
+    discount: 0,
+    isValid: false,
+    adjustedSubtotal: subtotal,
+    taxAmount: 0,
+    finalTotal: subtotal,
+    taxRate,
+    subtotal,
+  }));
+  const adjustedSubtotal = subtotals.reduce((sum, { subtotal }) => sum + subtotal, 0);
+
+  return {
+    breakdown,
+    discount: 0,
+    isValid: false,
+    adjustedSubtotal,
+    taxAmount: 0,
+    finalTotal: adjustedSubtotal,
+    error,
+    errorCode: 'INVALID_INPUT',
+  };
+}
@@ -0,0 +1,146 @@
+import type { RationalRate, TaxRate } from './types';
+
+/**
+ * Convert a tax rate to an exact rational in lowest terms
+ *
+ * Plain numbers are converted through their shortest decimal representation,
+ * so 0.0825 becomes 825/10000 rather than the binary approximation of 0.0825.
+ *
+ * @param taxRate - Tax rate as a decimal (e.g., 0.1) or a rational
+ * @returns The equivalent rational rate with a positive denominator
+ * @throws RangeError if the rate is not finite or the rational parts are not safe integers
+ */
+export function toRationalRate(taxRate: TaxRate): RationalRate {
+  if (typeof taxRate === 'number') {
+    return decimalToRational(taxRate);
+  }
+
+  const { numerator, denominator } = taxRate;
+  if (!Number.isSafeInteger(numerator) || !Number.isSafeInteger(denominator)) {
+    throw new RangeError('Tax rate numerator and denominator must be integers');
+  }
+  if (denominator <= 0) {
+    throw new RangeError('Tax rate denominator must be positive');
+  }
+
+  return reduce(numerator, denominator);
+}
+
+/**
+ * Create a tax rate from basis points (1 basis point = 0.01%)
+ * @param value - Rate in basis points (e.g., 825 for 8.25%)
+ * @returns The rate as a rational over 10000
+ */
+export function basisPoints(value: number): RationalRate {
+  return toRationalRate({ numerator: value, denominator: 10000 });
+}
+
+/**
+ * Convert a tax rate to a plain number (for display or logging only)
+ * @param taxRate - Tax rate as a decimal or a rational
+ * @returns The rate as a decimal number
+ */
+export function rateToNumber(taxRate: TaxRate): number {
+  if (typeof taxRate === 'number') {
+    return taxRate;
+  }
+  return taxRate.numerator / taxRate.denominator;
+}
+
+/**
+ * Check whether two tax rates are exactly equal, whichever form they are given in
+ * @param a - Tax rate as a decimal or a rational
+ * @param b - Tax rate as a decimal or a rational
+ * @returns True if both describe the same rational rate (e.g., 0.0825 and 33/400)
+ */
+export function isSameRate(a: TaxRate, b: TaxRate): boolean {
+  const left = toRationalRate(a);
+  const right = toRationalRate(b);
+  return left.numerator === right.numerator && left.denominator === right.denominator;
+}
+
+/**
+ * Check that a tax rate is usable and between 0 and 1
+ * @param taxRate - Tax rate as a decimal or a rational
+ * @param allowAboveOne - Accept rates above 100% (only negative rates are rejected)
+ * @returns An error message, or undefined if the rate is valid
+ */
+export function checkTaxRate(taxRate: TaxRate, allowAboveOne = false): string | undefined {
+  if (typeof taxRate !== 'number' && (typeof taxRate !== 'object' || taxRate === null)) {
+    return 'Tax rate must be a number or a rational';
+  }
+
+  let rate: RationalRate;
+  try {
+    rate = toRationalRate(taxRate);
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  if (allowAboveOne) {
+    return rate.numerator < 0 ? 'Tax rate cannot be negative' : undefined;
+  }
+  if (rate.numerator < 0 || rate.numerator > rate.denominator) {
+    return 'Tax rate must be between 0 and 1';
+  }
+  return undefined;
+}
+
+/**
+ * Convert a finite number to a rational using its decimal representation
+ */
+function decimalToRational(value: number): RationalRate {
+  if (!Number.isFinite(value)) {
+    throw new RangeError('Tax rate must be a finite number');
+  }
+
+  // Number#toString gives the shortest decimal that round-trips, e.g. "0.0825" or "1e-7"
+  const match = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(value.toString());
+  if (!match) {
+    throw new RangeError(`Cannot convert tax rate ${value} to a rational`);
+  }
+
+  const [, sign = '', integerPart = '0', fractionPart = '', exponentPart = '0'] = match;
+  const digits = BigInt(`${sign}${integerPart}${fractionPart}`);
+  const scale = fractionPart.length - Number(exponentPart);
+
+  const numerator = scale >= 0 ? digits : digits * 10n ** BigInt(-scale);
+  const denominator = scale >= 0 ? 10n ** BigInt(scale) : 1n;
+  const divisor = gcd(numerator < 0n ? -numerator : numerator, denominator);
+
+  const reducedNumerator = numerator / divisor;
+  const reducedDenominator = denominator / divisor;
+  if (
+    reducedNumerator > BigInt(Number.MAX_SAFE_INTEGER) ||
+    reducedNumerator < BigInt(Number.MIN_SAFE_INTEGER) ||
+    reducedDenominator > BigInt(Number.MAX_SAFE_INTEGER)
+  ) {
+    throw new RangeError(`Cannot convert tax rate ${value} to a rational`);
+  }
+
+  return {
+    numerator: Number(reducedNumerator),
+    denominator: Number(reducedDenominator),
+  };
+}
+
+/**
+ * Reduce a rational to lowest terms
+ */
+function reduce(numerator: number, denominator: number): RationalRate {
+  const divisor = Number(gcd(BigInt(Math.abs(numerator)), BigInt(denominator)));
+  if (divisor <= 1) {
+    return { numerator, denominator };
+  }
+  return { numerator: numerator / divisor, denominator: denominator / divisor };
+}
+
+/**
+ * Greatest common divisor of two non-negative integers
+ */
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a === 0n ? 1n : a;
+}
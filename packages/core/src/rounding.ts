@@ -0,0 +1,96 @@
+import type { RoundMode } from './types';
+
+/**
+ * Divide two integers and round the quotient with the specified rounding mode
+ *
+ * All arithmetic is done on bigint so the result is exact for any
+ * safe-integer amount and rate, with no floating-point drift.
+ *
+ * @param dividend - Integer dividend
+ * @param divisor - Integer divisor (must be positive)
+ * @param roundMode - Rounding mode to use
+ * @returns The rounded quotient
+ */
+export function divideAndRound(
+  dividend: bigint,
+  divisor: bigint,
+  roundMode: RoundMode
+): bigint {
+  // bigint division truncates toward zero; derive floor from it
+  const truncated = dividend / divisor;
+  const remainder = dividend % divisor;
+  const floor = remainder < 0n ? truncated - 1n : truncated;
+
+  if (remainder === 0n) {
+    return floor;
+  }
+
+  const negative = dividend < 0n;
+
+  switch (roundMode) {
+    case 'floor':
+      return floor;
+    case 'ceil':
+      return floor + 1n;
+    case 'truncate':
+      return negative ? floor + 1n : floor;
+    default:
+      break;
+  }
+
+  // Remaining modes round to the nearest integer and differ only on exact halves
+  const twiceFraction = (dividend - floor * divisor) * 2n;
+  if (twiceFraction < divisor) {
+    return floor;
+  }
+  if (twiceFraction > divisor) {
+    return floor + 1n;
+  }
+
+  switch (roundMode) {
+    case 'round':
+      // Half toward +infinity, matching Math.round
+      return floor + 1n;
+    case 'half-even':
+      return floor % 2n === 0n ? floor : floor + 1n;
+    case 'half-down':
+      // Half toward zero
+      return negative ? floor + 1n : floor;
+    case 'half-away-from-zero':
+      return negative ? floor : floor + 1n;
+    default:
+      return floor;
+  }
+}
+
+/**
+ * Round an amount to a multiple of a cash rounding increment
+ * (e.g., 5 for CHF 0.05 or 100 for SEK 1.00, in smallest currency unit)
+ *
+ * @param amount - Integer amount in smallest currency unit
+ * @param increment - Positive integer increment
+ * @param roundMode - Rounding mode to use
+ * @returns The amount rounded to the increment
+ * @throws RangeError if the amount or increment is not a safe integer, or the increment is not positive
+ */
+export function roundToIncrement(
+  amount: number,
+  increment: number,
+  roundMode: RoundMode = 'round'
+): number {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Amount must be a safe integer, got ${amount}`);
+  }
+  assertIncrement(increment);
+
+  return Number(divideAndRound(BigInt(amount), BigInt(increment), roundMode)) * increment;
+}
+
+/**
+ * Throw unless the increment is a positive safe integer
+ */
+export function assertIncrement(increment: number): void {
+  if (!Number.isSafeInteger(increment) || increment <= 0) {
+    throw new RangeError(`Rounding increment must be a positive integer, got ${increment}`);
+  }
+}
@@ -0,0 +1,197 @@
+import type { SelectionPolicy } from './types';
+
+/**
+ * Inclusive range of discounts that all reach the same total
+ */
+export interface DiscountRange {
+  minDiscount: number;
+  maxDiscount: number;
+}
+
+/**
+ * Total including tax for a given discount.
+ * Must be non-increasing as the discount grows.
+ */
+export type TotalForDiscount = (discount: number) => number;
+
+/**
+ * Find every discount in [lower, upper] whose total equals the target
+ *
+ * Because the total never increases as the discount grows, the matching
+ * discounts always form one contiguous range, found with two binary searches.
+ *
+ * @returns The matching range, or undefined if no discount reaches the target
+ */
+export function findDiscountRange(
+  lower: number,
+  upper: number,
+  targetTotal: number,
+  totalFor: TotalForDiscount
+): DiscountRange | undefined {
+  const minDiscount = firstDiscountAtOrBelow(lower, upper, targetTotal, totalFor);
+  if (minDiscount === undefined || totalFor(minDiscount) !== targetTotal) {
+    return undefined;
+  }
+
+  // Largest discount whose total is still at or above the target
+  let low = minDiscount;
+  let high = upper;
+  while (low < high) {
+    const mid = low + Math.ceil((high - low) / 2);
+    if (totalFor(mid) >= targetTotal) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return { minDiscount, maxDiscount: low };
+}
+
+/**
+ * Find the discount whose total is closest to the target
+ *
+ * Used when no discount reaches the target exactly. On a tie the discount
+ * closest to zero wins.
+ */
+export function findClosestDiscount(
+  lower: number,
+  upper: number,
+  targetTotal: number,
+  totalFor: TotalForDiscount
+): number {
+  const below = firstDiscountAtOrBelow(lower, upper, targetTotal, totalFor);
+
+  // Candidates on either side of the point where the total crosses the target
+  const candidates = below === undefined ? [upper] : [below];
+  if (below !== undefined && below > lower) {
+    candidates.push(below - 1);
+  }
+
+  let best = candidates[0] ?? 0;
+  for (const candidate of candidates) {
+    const difference = Math.abs(totalFor(candidate) - targetTotal);
+    const bestDifference = Math.abs(totalFor(best) - targetTotal);
+    if (
+      difference < bestDifference ||
+      (difference === bestDifference && Math.abs(candidate) < Math.abs(best))
+    ) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/**
+ * Choose one discount from a matching range according to a selection policy
+ *
+ * @param range - Range of discounts that all reach the target
+ * @param policy - How to choose between them
+ * @param taxFor - Tax amount for a given discount (non-increasing as the discount grows)
+ * @param increment - Amount of one discount step, when the range counts steps rather than
+ *   amounts; 'round-number' looks for a round amount, not a round number of steps
+ * @returns The selected discount
+ */
+export function selectDiscount(
+  range: DiscountRange,
+  policy: SelectionPolicy,
+  taxFor: (discount: number) => number,
+  increment = 1
+): number {
+  const { minDiscount, maxDiscount } = range;
+
+  switch (policy) {
+    case 'smallest-discount':
+      return closestToZero(minDiscount, maxDiscount);
+
+    case 'largest-base':
+      return minDiscount;
+
+    case 'largest-tax': {
+      // The largest tax is at the smallest discount; narrow to the discounts
+      // sharing it and take the one closest to zero
+      const largestTax = taxFor(minDiscount);
+      let low = minDiscount;
+      let high = maxDiscount;
+      while (low < high) {
+        const mid = low + Math.ceil((high - low) / 2);
+        if (taxFor(mid) === largestTax) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return closestToZero(minDiscount, low);
+    }
+
+    case 'round-number':
+      return roundestNumber(minDiscount, maxDiscount, increment);
+
+    default:
+      return closestToZero(minDiscount, maxDiscount);
+  }
+}
+
+/**
+ * Smallest discount in [lower, upper] whose total is at or below the target
+ */
+function firstDiscountAtOrBelow(
+  lower: number,
+  upper: number,
+  targetTotal: number,
+  totalFor: TotalForDiscount
+): number | undefined {
+  if (lower > upper || totalFor(upper) > targetTotal) {
+    return undefined;
+  }
+
+  let low = lower;
+  let high = upper;
+  while (low < high) {
+    const mid = low + Math.floor((high - low) / 2);
+    if (totalFor(mid) <= targetTotal) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Value in [lower, upper] closest to zero
+ */
+function closestToZero(lower: number, upper: number): number {
+  return Math.min(Math.max(0, lower), upper);
+}
+
+/**
+ * Value in [lower, upper] whose amount (value * increment) is a multiple of the
+ * largest power of ten, closest to zero among those values
+ */
+function roundestNumber(lower: number, upper: number, increment: number): number {
+  if (lower <= 0 && upper >= 0) {
+    return 0;
+  }
+
+  const multipleClosestToZero = (unit: number): number | undefined => {
+    const candidate =
+      lower > 0 ? Math.ceil(lower / unit) * unit : Math.floor(upper / unit) * unit;
+    return candidate >= lower && candidate <= upper ? candidate : undefined;
+  };
+  // Steps whose amount is a multiple of the power of ten: lcm(power, increment) / increment
+  const stepsFor = (power: number): number => power / gcd(power, increment);
+
+  let power = 1;
+  while (multipleClosestToZero(stepsFor(power * 10)) !== undefined) {
+    power *= 10;
+  }
+  return multipleClosestToZero(stepsFor(power)) ?? closestToZero(lower, upper);
+}
+
+/**
+ * Greatest common divisor of two positive integers
+ */
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
@@ -0,0 +1,121 @@
+import type { AdjustmentCandidate, AdjustmentTrace, SelectionPolicy } from './types';
+import type { DiscountRange } from './search';
+
+/**
+ * Most alternatives listed in a trace
+ */
+const MAX_ALTERNATIVES = 10;
+
+/**
+ * How each selection policy picks from the matching range
+ */
+const POLICY_DESCRIPTIONS: Record<SelectionPolicy, string> = {
+  'smallest-discount': 'the discount closest to zero',
+  'largest-base': 'the smallest discount, which keeps the largest taxable base',
+  'largest-tax': 'the discount closest to zero among those with the largest tax',
+  'round-number': 'the roundest discount',
+};
+
+/**
+ * Build the trace of a calculateAdjustment run
+ *
+ * @param inputs - The parameters with their defaults filled in
+ * @param evaluated - Discounts the search evaluated, in evaluation order
+ * @param candidateFor - Totals for a discount
+ * @param range - Discounts that reach the target, if any do
+ * @param selected - The chosen discount
+ * @param residualDiscount - Non-taxable residual covering the rest, if any
+ */
+export function buildTrace(
+  inputs: AdjustmentTrace['inputs'],
+  evaluated: number[],
+  candidateFor: (discount: number) => AdjustmentCandidate,
+  range: DiscountRange | undefined,
+  selected: number,
+  residualDiscount?: number
+): AdjustmentTrace {
+  const { targetTotal, selectionPolicy, discountIncrement } = inputs;
+  const selectedCandidate = candidateFor(selected);
+
+  if (!range) {
+    const closest = `No discount reaches the target total ${targetTotal}; ${selected} gives the closest total (${selectedCandidate.finalTotal})`;
+    return {
+      inputs,
+      candidates: evaluated.map(candidateFor),
+      selected: selectedCandidate,
+      reason:
+        residualDiscount !== undefined && residualDiscount !== 0
+          ? `${closest}, and a non-taxable residual of ${residualDiscount} covers the difference`
+          : closest,
+      alternatives: [],
+    };
+  }
+
+  const { minDiscount, maxDiscount } = range;
+  const count = (maxDiscount - minDiscount) / discountIncrement + 1;
+
+  const alternatives: AdjustmentCandidate[] = [];
+  for (
+    let discount = minDiscount;
+    discount <= maxDiscount && alternatives.length < MAX_ALTERNATIVES;
+    discount += discountIncrement
+  ) {
+    if (discount !== selected) {
+      alternatives.push(candidateFor(discount));
+    }
+  }
+
+  return {
+    inputs,
+    candidates: evaluated.map(candidateFor),
+    matchingRange: { minDiscount, maxDiscount, count },
+    selected: selectedCandidate,
+    reason:
+      count === 1
+        ? `Only a discount of ${selected} reaches the target total ${targetTotal}`
+        : `${count} discounts from ${minDiscount} to ${maxDiscount} reach the target total ${targetTotal}; ` +
+          `'${selectionPolicy}' chose ${POLICY_DESCRIPTIONS[selectionPolicy]}`,
+    alternatives,
+  };
+}
+
+/**
+ * Summarize a trace in one line, e.g. for invoice metadata
+ *
+ * The summary lists the inputs, the chosen discount and its totals, the
+ * matching range and the number of evaluated candidates, followed by the
+ * reason. It is cut to maxLength characters, ending in '…' when shortened.
+ *
+ * @param trace - Trace from calculateAdjustment with explain enabled
+ * @param maxLength - Longest summary to return (Stripe allows 500 characters per metadata value)
+ * @returns The summary
+ */
+export function summarizeTrace(trace: AdjustmentTrace, maxLength = 500): string {
+  if (!Number.isSafeInteger(maxLength) || maxLength <= 0) {
+    throw new RangeError('Summary length must be a positive integer');
+  }
+
+  const { inputs, selected, matchingRange } = trace;
+  // The residual covers whatever the selected discount leaves over
+  const residualDiscount = inputs.allowResidual ? selected.finalTotal - inputs.targetTotal : 0;
+
+  const fields = [
+    `subtotal=${inputs.subtotal}`,
+    `target=${inputs.targetTotal}`,
+    `rate=${inputs.taxRate.numerator}/${inputs.taxRate.denominator}`,
+    `round=${inputs.roundMode}`,
+    `pricing=${inputs.pricingMode}`,
+    `policy=${inputs.selectionPolicy}`,
+    `discount=${selected.discount}`,
+    `tax=${selected.taxAmount}`,
+    `total=${selected.finalTotal}`,
+    ...(residualDiscount !== 0 ? [`residual=${residualDiscount}`] : []),
+    matchingRange
+      ? `matches=${matchingRange.minDiscount}..${matchingRange.maxDiscount}(${matchingRange.count})`
+      : 'matches=none',
+    `evaluated=${trace.candidates.length}`,
+  ];
+
+  const summary = `${fields.join(' ')} | ${trace.reason}`;
+  return summary.length <= maxLength ? summary : `${summary.slice(0, maxLength - 1)}…`;
+}
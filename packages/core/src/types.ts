@@ -1,7 +1,83 @@
 /**
  * Rounding mode for tax calculations
+ * - 'floor': toward -infinity
+ * - 'ceil': toward +infinity
+ * - 'round': to nearest, halves toward +infinity (like Math.round)
+ * - 'half-even': to nearest, halves to the even neighbour (banker's rounding)
+ * - 'half-down': to nearest, halves toward zero
+ * - 'half-away-from-zero': to nearest, halves away from zero
+ * - 'truncate': toward zero
  */
-export type RoundMode = 'floor' | 'ceil' | 'round';
+export type RoundMode =
+  | 'floor'
+  | 'ceil'
+  | 'round'
+  | 'half-even'
+  | 'half-down'
+  | 'half-away-from-zero'
+  | 'truncate';
+
+/**
+ * Whether amounts are stated before tax (外税) or already include tax (内税)
+ */
+export type PricingMode = 'exclusive' | 'inclusive';
+
+/**
+ * Tax rate as an exact fraction (e.g., { numerator: 825, denominator: 10000 } for 8.25%)
+ */
+export interface RationalRate {
+  /**
+   * Integer numerator
+   */
+  numerator: number;
+
+  /**
+   * Positive integer denominator
+   */
+  denominator: number;
+}
+
+/**
+ * Tax rate as a decimal (e.g., 0.1 for 10%) or an exact rational
+ */
+export type TaxRate = number | RationalRate;
+
+/**
+ * How to choose between several discounts that all reach the target total
+ * - 'smallest-discount': the discount (or surcharge) closest to zero
+ * - 'largest-base': the largest adjusted subtotal
+ * - 'largest-tax': the largest tax amount, then the discount closest to zero
+ * - 'round-number': the discount that is a multiple of the largest power of ten
+ */
+export type SelectionPolicy = 'smallest-discount' | 'largest-base' | 'largest-tax' | 'round-number';
+
+/**
+ * Where tax is rounded on an invoice with several line items
+ * - 'document': Sum the lines for each tax rate and round the tax once per rate
+ * - 'line': Round the tax of every line separately, then sum
+ */
+export type RoundingScope = 'document' | 'line';
+
+/**
+ * Machine-readable reason an adjustment is invalid
+ * - 'INVALID_INPUT': The parameters are invalid (e.g., a negative subtotal)
+ * - 'TARGET_UNREACHABLE': No discount reaches the target total exactly
+ */
+export type AdjustmentErrorCode = 'INVALID_INPUT' | 'TARGET_UNREACHABLE';
+
+/**
+ * Machine-readable reason a TaxFitterError from this package was thrown
+ * - 'ZERO_SUBTOTAL': The document has no taxable subtotal to adjust
+ * - 'DOCUMENT_NOT_FOUND': The billing adapter has no document with the ID
+ * - 'DOCUMENT_NOT_EDITABLE': The document can no longer be changed
+ * - 'IDEMPOTENCY_CONFLICT': An idempotency key was reused for a different write
+ */
+export type TaxFitterErrorCode =
+  | AdjustmentErrorCode
+  | 'ZERO_SUBTOTAL'
+  | 'DOCUMENT_NOT_FOUND'
+  | 'DOCUMENT_NOT_EDITABLE'
+  | 'IDEMPOTENCY_CONFLICT';
 
 /**
  * Parameters for calculating tax adjustments
@@ -18,15 +94,73 @@ export interface AdjustmentParams {
   targetTotal: number;
 
   /**
-   * Tax rate as a decimal (e.g., 0.1 for 10%)
+   * Tax rate as a decimal (e.g., 0.1 for 10%) or an exact rational
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Accept tax rates above 100% (e.g., excise levies on tobacco or alcohol)
+   * @default false
    */
-  taxRate: number;
+  allowRateAboveOne?: boolean;
 
   /**
    * Rounding mode for tax calculations
    * @default 'floor'
    */
   roundMode?: RoundMode;
+
+  /**
+   * Whether the subtotal is before tax ('exclusive') or already includes tax ('inclusive').
+   * In inclusive mode the tax is extracted as round(total * rate / (1 + rate)).
+   * @default 'exclusive'
+   */
+  pricingMode?: PricingMode;
+
+  /**
+   * How to choose a discount when several reach the target total
+   * @default 'smallest-discount'
+   */
+  selectionPolicy?: SelectionPolicy;
+
+  /**
+   * When no discount reaches the target exactly, use the closest discount and
+   * cover the remaining difference with a non-taxable residual adjustment
+   * @default false
+   */
+  allowResidual?: boolean;
+
+  /**
+   * Round the tax amount to a multiple of this increment (in smallest currency unit)
+   * @default 1
+   */
+  taxIncrement?: number;
+
+  /**
+   * Round the final total to a multiple of this cash increment (in smallest currency unit),
+   * e.g., 5 for CHF 0.05 or 100 for SEK 1.00. The target total must be on this grid
+   * @default 1
+   */
+  totalIncrement?: number;
+
+  /**
+   * Rounding mode for the cash rounding of the final total
+   * @default 'round'
+   */
+  totalRoundMode?: RoundMode;
+
+  /**
+   * Only consider discounts that are multiples of this amount (in smallest currency unit),
+   * e.g., 10 for payment providers that require three-decimal currencies to end in 0
+   * @default 1
+   */
+  discountIncrement?: number;
+
+  /**
+   * Return a trace of how the discount was found in the result's `trace`
+   * @default false
+   */
+  explain?: boolean;
 }
 
 /**
@@ -46,16 +180,294 @@ export interface AdjustmentResult {
 
   /**
    * Adjusted subtotal after applying discount
+   * (includes taxAmount in 'inclusive' pricing mode)
+   */
+  adjustedSubtotal: number;
+
+  /**
+   * Tax amount calculated on (or extracted from) adjusted subtotal
+   */
+  taxAmount: number;
+
+  /**
+   * Final total (adjustedSubtotal + taxAmount, or adjustedSubtotal in 'inclusive' pricing mode),
+   * plus roundingDifference and minus residualDiscount when those are used
+   */
+  finalTotal: number;
+
+  /**
+   * Cash rounding applied to the total (in smallest currency unit), set when totalIncrement is given.
+   * Positive values mean the total was rounded up
+   */
+  roundingDifference?: number;
+
+  /**
+   * Non-taxable residual adjustment (in smallest currency unit), set when allowResidual is enabled.
+   * Positive values reduce the total, negative values increase it; not included in adjustedSubtotal
+   */
+  residualDiscount?: number;
+
+  /**
+   * Error message if adjustment is invalid
+   */
+  error?: string;
+
+  /**
+   * Machine-readable reason, set together with error
+   */
+  errorCode?: AdjustmentErrorCode;
+
+  /**
+   * How the discount was found, set when explain is enabled and the parameters are valid
+   */
+  trace?: AdjustmentTrace;
+}
+
+/**
+ * A discount evaluated while searching for the adjustment
+ */
+export interface AdjustmentCandidate {
+  /**
+   * Discount amount (negative values are surcharges)
+   */
+  discount: number;
+
+  /**
+   * Subtotal after the discount
+   */
+  adjustedSubtotal: number;
+
+  /**
+   * Tax on (or contained in) the adjusted subtotal
+   */
+  taxAmount: number;
+
+  /**
+   * Total including tax, after cash rounding
+   */
+  finalTotal: number;
+
+  /**
+   * Whether the total equals the target total
+   */
+  matchesTarget: boolean;
+}
+
+/**
+ * Record of how calculateAdjustment chose a discount
+ */
+export interface AdjustmentTrace {
+  /**
+   * The parameters with their defaults filled in and the rate as an exact rational
+   */
+  inputs: Required<Omit<AdjustmentParams, 'taxRate' | 'explain'>> & { taxRate: RationalRate };
+
+  /**
+   * Every discount the search evaluated, in evaluation order
+   */
+  candidates: AdjustmentCandidate[];
+
+  /**
+   * Range of discounts that reach the target, if any do
+   */
+  matchingRange?: {
+    minDiscount: number;
+    maxDiscount: number;
+    count: number;
+  };
+
+  /**
+   * The chosen discount
+   */
+  selected: AdjustmentCandidate;
+
+  /**
+   * Why the discount was chosen
+   */
+  reason: string;
+
+  /**
+   * Other discounts that also reach the target (the first 10 in the matching range)
+   */
+  alternatives: AdjustmentCandidate[];
+}
+
+/**
+ * Range of discounts that all reach the target total
+ */
+export interface AdjustmentRange {
+  /**
+   * Whether at least one discount reaches the target total
+   */
+  isValid: boolean;
+
+  /**
+   * Smallest discount that reaches the target (negative values are surcharges)
+   */
+  minDiscount: number;
+
+  /**
+   * Largest discount that reaches the target; every integer (or multiple of
+   * discountIncrement) in between also does
+   */
+  maxDiscount: number;
+
+  /**
+   * Number of discounts in the range
+   */
+  count: number;
+
+  /**
+   * Error message if no discount reaches the target
+   */
+  error?: string;
+
+  /**
+   * Machine-readable reason, set together with error
+   */
+  errorCode?: AdjustmentErrorCode;
+}
+
+/**
+ * Amount in the smallest unit of a currency
+ */
+export interface Money {
+  /**
+   * Integer amount in the smallest currency unit (e.g., yen for JPY, cents for USD)
+   */
+  amount: number;
+
+  /**
+   * ISO 4217 currency code (e.g., 'JPY', 'usd')
+   */
+  currency: string;
+}
+
+/**
+ * Parameters for calculating tax adjustments on amounts in a specific currency
+ */
+export interface MoneyAdjustmentParams
+  extends Omit<AdjustmentParams, 'subtotal' | 'targetTotal'> {
+  /**
+   * Subtotal amount before tax
+   */
+  subtotal: Money;
+
+  /**
+   * Target total amount including tax, in the same currency as the subtotal
+   */
+  targetTotal: Money;
+
+  /**
+   * Locale used to format the result amounts
+   * @default runtime locale
+   */
+  locale?: string;
+}
+
+/**
+ * Result of a currency-aware tax adjustment calculation
+ */
+export interface MoneyAdjustmentResult extends AdjustmentResult {
+  /**
+   * Upper-case ISO 4217 currency code of all amounts
+   */
+  currency: string;
+
+  /**
+   * Amounts formatted for display in the currency
+   */
+  formatted: {
+    discount: string;
+    adjustedSubtotal: string;
+    taxAmount: string;
+    finalTotal: string;
+  };
+}
+
+/**
+ * Subtotal for a single tax rate on a mixed-rate invoice
+ */
+export interface RateSubtotal {
+  /**
+   * Subtotal amount before tax for this rate (in smallest currency unit)
+   */
+  subtotal: number;
+
+  /**
+   * Tax rate as a decimal (e.g., 0.08 for 8%) or an exact rational
+   */
+  taxRate: TaxRate;
+}
+
+/**
+ * Parameters for calculating tax adjustments across multiple tax rates
+ */
+export interface MultiRateAdjustmentParams {
+  /**
+   * Subtotals grouped by tax rate (e.g., 8% reduced rate and 10% standard rate)
+   */
+  subtotals: RateSubtotal[];
+
+  /**
+   * Target grand total including tax for all rates (in smallest currency unit)
+   */
+  targetTotal: number;
+
+  /**
+   * Rounding mode for tax calculations, applied once per tax rate
+   * @default 'floor'
+   */
+  roundMode?: RoundMode;
+}
+
+/**
+ * Adjustment breakdown for a single tax rate
+ */
+export interface RateAdjustmentResult extends AdjustmentResult {
+  /**
+   * Tax rate this breakdown applies to
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Original subtotal for this rate before the adjustment
+   */
+  subtotal: number;
+}
+
+/**
+ * Result of a multi-rate tax adjustment calculation
+ */
+export interface MultiRateAdjustmentResult {
+  /**
+   * Per-rate breakdown, in the same order as the input subtotals
+   */
+  breakdown: RateAdjustmentResult[];
+
+  /**
+   * Total discount across all rates
+   * Positive values represent discounts, negative values represent surcharges
+   */
+  discount: number;
+
+  /**
+   * Whether the adjustment is valid
+   */
+  isValid: boolean;
+
+  /**
+   * Sum of adjusted subtotals across all rates
    */
   adjustedSubtotal: number;
 
   /**
-   * Tax amount calculated on adjusted subtotal
+   * Sum of tax amounts across all rates
    */
   taxAmount: number;
 
   /**
-   * Final total (adjustedSubtotal + taxAmount)
+   * Grand total (adjustedSubtotal + taxAmount)
    */
   finalTotal: number;
 
@@ -63,4 +475,597 @@ export interface AdjustmentResult {
    * Error message if adjustment is invalid
    */
   error?: string;
+
+  /**
+   * Machine-readable reason, set together with error
+   */
+  errorCode?: AdjustmentErrorCode;
+}
+
+/**
+ * One component of a stacked tax (e.g., federal GST and provincial QST)
+ */
+export interface TaxComponent {
+  /**
+   * Label for the component (e.g., 'GST')
+   */
+  name?: string;
+
+  /**
+   * Tax rate as a decimal (e.g., 0.05 for 5%) or an exact rational
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Rounding mode for this component's tax
+   * @default 'floor'
+   */
+  roundMode?: RoundMode;
+
+  /**
+   * Levy this component on the amount plus every earlier component's tax
+   * (tax-on-tax) instead of on the amount alone
+   * @default false
+   */
+  compound?: boolean;
+}
+
+/**
+ * Tax calculated for one component
+ */
+export interface ComponentTaxResult {
+  /**
+   * Label of the component, if one was given
+   */
+  name?: string;
+
+  /**
+   * Tax rate of the component
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Amount the component was levied on
+   */
+  taxableAmount: number;
+
+  /**
+   * Rounded tax for the component
+   */
+  taxAmount: number;
+}
+
+/**
+ * Parameters for calculating tax adjustments with stacked tax components
+ */
+export interface CompoundAdjustmentParams {
+  /**
+   * Current subtotal amount before tax (in smallest currency unit)
+   */
+  subtotal: number;
+
+  /**
+   * Target grand total including every tax component (in smallest currency unit)
+   */
+  targetTotal: number;
+
+  /**
+   * Tax components in the order they are levied
+   */
+  components: TaxComponent[];
+
+  /**
+   * How to choose between several discounts that reach the target
+   * @default 'smallest-discount'
+   */
+  selectionPolicy?: SelectionPolicy;
+}
+
+/**
+ * Result of a compound tax adjustment calculation
+ */
+export interface CompoundAdjustmentResult extends AdjustmentResult {
+  /**
+   * Per-component taxes on the adjusted subtotal, in the same order as the input
+   */
+  components: ComponentTaxResult[];
+}
+
+/**
+ * A line item on an invoice
+ */
+export interface LineItem {
+  /**
+   * Line amount before tax (in smallest currency unit, negative for credits)
+   */
+  amount: number;
+
+  /**
+   * Tax rate of the line as a decimal (e.g., 0.1 for 10%) or an exact rational
+   */
+  taxRate: TaxRate;
+}
+
+/**
+ * Parameters for fitting an adjustment line to an invoice with line items
+ */
+export interface LineItemAdjustmentParams {
+  /**
+   * Existing line items on the invoice
+   */
+  lineItems: LineItem[];
+
+  /**
+   * Target total including tax (in smallest currency unit)
+   */
+  targetTotal: number;
+
+  /**
+   * Tax rate of the adjustment line
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Rounding mode for tax calculations
+   * @default 'floor'
+   */
+  roundMode?: RoundMode;
+
+  /**
+   * Whether tax is rounded per line or once per tax rate for the document
+   * @default 'document'
+   */
+  roundingScope?: RoundingScope;
+
+  /**
+   * How to choose between several discounts that reach the target
+   * @default 'smallest-discount'
+   */
+  selectionPolicy?: SelectionPolicy;
+}
+
+/**
+ * Result of fitting an adjustment line to an invoice with line items
+ */
+export interface LineItemAdjustmentResult extends AdjustmentResult {
+  /**
+   * Sum of the existing line amounts before the adjustment
+   */
+  subtotal: number;
+}
+
+/**
+ * Options for allocating a fitted discount across line items
+ */
+export interface AllocationOptions {
+  /**
+   * Rounding mode used to recalculate tax after the allocation
+   * @default 'floor'
+   */
+  roundMode?: RoundMode;
+
+  /**
+   * Rounding scope used to recalculate tax after the allocation
+   * @default 'document'
+   */
+  roundingScope?: RoundingScope;
+
+  /**
+   * Whether the line amounts include tax; must match the fitted result
+   * @default 'exclusive'
+   */
+  pricingMode?: PricingMode;
+
+  /**
+   * Allocate in multiples of this amount (e.g., 10 for three-decimal currencies on Stripe)
+   * @default 1
+   */
+  increment?: number;
+}
+
+/**
+ * Share of the discount allocated to one line item
+ */
+export interface LineAllocation extends LineItem {
+  /**
+   * Discount allocated to this line (negative for a surcharge)
+   */
+  discount: number;
+
+  /**
+   * Line amount after the allocated discount
+   */
+  adjustedAmount: number;
+}
+
+/**
+ * Result of allocating a fitted discount across line items
+ */
+export interface DiscountAllocationResult {
+  /**
+   * Allocation for each line item, in the same order as the input
+   */
+  lines: LineAllocation[];
+
+  /**
+   * Whether the allocated lines still reach the fitted total
+   */
+  isValid: boolean;
+
+  /**
+   * Tax recalculated on the allocated lines
+   */
+  taxAmount: number;
+
+  /**
+   * Total of the allocated lines including tax
+   */
+  finalTotal: number;
+
+  /**
+   * Error message if the allocation is invalid
+   */
+  error?: string;
+
+  /**
+   * Machine-readable reason, set together with error
+   */
+  errorCode?: AdjustmentErrorCode;
+}
+
+/**
+ * Amounts of a billing document that an adjustment is fitted to
+ */
+export interface TaxableBase {
+  /**
+   * Taxable subtotal after existing discounts, leaving out earlier adjustments
+   */
+  subtotal: number;
+
+  /**
+   * Net amount of untaxed lines, added to the total unchanged
+   * @default 0
+   */
+  untaxedAmount?: number;
+
+  /**
+   * Tax rate the document is charged at, if it records one
+   */
+  taxRate?: TaxRate;
+
+  /**
+   * Whether the document's amounts include tax
+   * @default 'exclusive'
+   */
+  pricingMode?: PricingMode;
+
+  /**
+   * Smallest step of amounts the billing system accepts
+   * @default 1
+   */
+  amountIncrement?: number;
+
+  /**
+   * Amount the target includes on top of the document total, e.g., a customer
+   * balance when the target is the amount due
+   * @default 0
+   */
+  targetOffset?: number;
+}
+
+/**
+ * Adjustment passed to BillingAdapter.writeAdjustment
+ */
+export interface DocumentAdjustment {
+  /**
+   * The adjusted document
+   */
+  documentId: string;
+
+  /**
+   * The document currency, as read by the adapter
+   */
+  currency: string;
+
+  /**
+   * The tax rate the adjustment was calculated with
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Whether the document's amounts include tax
+   */
+  pricingMode: PricingMode;
+
+  /**
+   * Rounding mode the tax was calculated with
+   */
+  roundMode: RoundMode;
+
+  /**
+   * The taxable subtotal before the adjustment
+   */
+  subtotal: number;
+
+  /**
+   * Net amount of untaxed lines
+   */
+  untaxedAmount: number;
+
+  /**
+   * The requested document total
+   */
+  targetTotal: number;
+
+  /**
+   * Amount the target includes on top of the document total (see TaxableBase)
+   */
+  targetOffset: number;
+
+  /**
+   * Taxable discount to write (negative for a surcharge)
+   */
+  discount: number;
+
+  /**
+   * Non-taxable residual to write (0 when the target is reached exactly)
+   */
+  residualDiscount: number;
+
+  /**
+   * The adjusted subtotal
+   */
+  adjustedSubtotal: number;
+
+  /**
+   * The tax amount
+   */
+  taxAmount: number;
+
+  /**
+   * The expected document total, including untaxed lines
+   */
+  finalTotal: number;
+
+  /**
+   * Description for the adjustment line
+   */
+  description: string;
+
+  /**
+   * Description for the residual line
+   */
+  residualDescription: string;
+
+  /**
+   * Metadata to record with the adjustment
+   */
+  metadata: Record<string, string>;
+
+  /**
+   * Key for making the write idempotent, if the caller passed one
+   */
+  idempotencyKey?: string;
+
+  /**
+   * How the discount was found (only with explain)
+   */
+  trace?: AdjustmentTrace;
+}
+
+/**
+ * Connects fitDocument to a billing system
+ *
+ * An adapter loads a document (an invoice, order or quote), checks that it
+ * can still be changed, reads the amounts to fit and writes the adjustment.
+ * Writing replaces any adjustment an earlier call wrote, so repeated calls
+ * never stack.
+ *
+ * @typeParam TDocument - The document as loaded from the billing system
+ * @typeParam TWritten - What writeAdjustment returns, e.g. the created line
+ */
+export interface BillingAdapter<TDocument, TWritten = unknown> {
+  /**
+   * Load a document by ID
+   */
+  loadDocument(documentId: string): Promise<TDocument>;
+
+  /**
+   * Throw if the document can no longer be adjusted (e.g., it is finalized)
+   */
+  assertEditable(document: TDocument): void;
+
+  /**
+   * Read the document currency
+   */
+  readCurrency(document: TDocument): string;
+
+  /**
+   * Read the amounts to fit
+   * @param taxRate - The rate the caller asked for, to check against the document's
+   */
+  readTaxableBase(document: TDocument, taxRate?: TaxRate): TaxableBase | Promise<TaxableBase>;
+
+  /**
+   * Throw if the billing system cannot store the target total (optional)
+   */
+  checkTarget?(document: TDocument, targetTotal: number): void;
+
+  /**
+   * Build the error thrown when no adjustment reaches the target (optional;
+   * defaults to a TaxFitterError)
+   * @param code - Why the calculation failed
+   * @param reason - The calculation's error message
+   */
+  calculationError?(document: TDocument, code: AdjustmentErrorCode, reason: string): Error;
+
+  /**
+   * Write the adjustment, replacing any earlier one
+   */
+  writeAdjustment(document: TDocument, adjustment: DocumentAdjustment): Promise<TWritten>;
+}
+
+/**
+ * Options for fitDocument
+ */
+export interface FitDocumentOptions {
+  /**
+   * The document to adjust
+   */
+  documentId: string;
+
+  /**
+   * Desired document total, including untaxed lines
+   */
+  targetTotal: number;
+
+  /**
+   * Tax rate (defaults to the document's rate)
+   */
+  taxRate?: TaxRate;
+
+  /**
+   * Rounding mode for tax calculation
+   * @default 'floor'
+   */
+  roundMode?: RoundMode;
+
+  /**
+   * Which discount to pick when several reach the target
+   * @default 'smallest-discount'
+   */
+  selectionPolicy?: SelectionPolicy;
+
+  /**
+   * Cover an unreachable target with a non-taxable residual
+   * @default false
+   */
+  allowResidual?: boolean;
+
+  /**
+   * Description for the adjustment line
+   * @default 'Tax adjustment'
+   */
+  description?: string;
+
+  /**
+   * Description for the residual line
+   * @default 'Rounding adjustment'
+   */
+  residualDescription?: string;
+
+  /**
+   * Metadata to record with the adjustment
+   */
+  metadata?: Record<string, string>;
+
+  /**
+   * Key for making the write idempotent, passed to the adapter
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Include a trace of how the discount was found
+   * @default false
+   */
+  explain?: boolean;
+}
+
+/**
+ * Result of calculateDocumentAdjustment
+ */
+export interface CalculatedDocumentAdjustment<TDocument> {
+  /**
+   * The document as loaded by the adapter
+   */
+  document: TDocument;
+
+  /**
+   * The adjustment fitDocument would write
+   */
+  adjustment: DocumentAdjustment;
+}
+
+/**
+ * Result of fitDocument
+ */
+export interface FitDocumentResult<TWritten = unknown>
+  extends Omit<DocumentAdjustment, 'description' | 'residualDescription' | 'metadata' | 'idempotencyKey'> {
+  /**
+   * What the adapter's writeAdjustment returned
+   */
+  written: TWritten;
+}
+
+/**
+ * A line of a document held by InMemoryBillingAdapter
+ */
+export interface InMemoryLine {
+  /**
+   * Line ID
+   */
+  id: string;
+
+  /**
+   * Net amount in the smallest currency unit (negative for discounts)
+   */
+  amount: number;
+
+  /**
+   * Whether the line is taxed
+   * @default true
+   */
+  taxable?: boolean;
+
+  /**
+   * Line description
+   */
+  description?: string;
+
+  /**
+   * Set on lines written by an adjustment
+   */
+  adjustment?: 'discount' | 'residual';
+
+  /**
+   * Metadata recorded with the line
+   */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * A document held by InMemoryBillingAdapter
+ */
+export interface InMemoryDocument {
+  /**
+   * Document ID
+   */
+  id: string;
+
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+
+  /**
+   * The document's lines
+   */
+  lines: InMemoryLine[];
+
+  /**
+   * Tax rate of the taxed lines
+   */
+  taxRate?: TaxRate;
+
+  /**
+   * Whether the line amounts include tax
+   * @default 'exclusive'
+   */
+  pricingMode?: PricingMode;
+
+  /**
+   * Whether the document can still be changed
+   * @default true
+   */
+  editable?: boolean;
 }
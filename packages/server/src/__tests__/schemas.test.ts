@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adjustmentParamsSchema,
+  stripeAdjustmentRequestSchema,
+  validate,
+} from '../schemas';
+
+describe('validate', () => {
+  it('should accept valid bodies', () => {
+    expect(
+      validate(adjustmentParamsSchema, {
+        subtotal: 40000,
+        targetTotal: 40000,
+        taxRate: 0.1,
+        roundMode: 'half-even',
+        explain: true,
+      })
+    ).toEqual([]);
+  });
+
+  it('should report nested paths', () => {
+    expect(
+      validate(adjustmentParamsSchema, {
+        subtotal: 1000,
+        targetTotal: 0,
+        taxRate: 0.1,
+        discountIncrement: 0,
+      })
+    ).toEqual([
+      { path: 'body.targetTotal', message: 'must be at least 1' },
+      { path: 'body.discountIncrement', message: 'must be at least 1' },
+    ]);
+
+    expect(
+      validate(stripeAdjustmentRequestSchema, {
+        targetTotal: 40000,
+        metadata: { order: 'A-1', count: 2 },
+      })
+    ).toEqual([{ path: 'body.metadata.count', message: 'must be a string' }]);
+  });
+
+  it('should reject non-object bodies', () => {
+    expect(validate(adjustmentParamsSchema, [1, 2])).toEqual([
+      { path: 'body', message: 'must be an object' },
+    ]);
+    expect(validate(adjustmentParamsSchema, null)).toEqual([
+      { path: 'body', message: 'must be an object' },
+    ]);
+  });
+});
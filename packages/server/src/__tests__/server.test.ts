@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { TaxFitterError } from '@tax-fitter/core';
+import { createMockStripe, draftInvoice } from '@tax-fitter/test-utils';
+import { createBearerAuthorizer } from '../auth';
+import { createRequestHandler, createTaxFitterServer } from '../handler';
+import { toHttpError } from '../errors';
+import type { ErrorPayload, TaxFitterServerOptions } from '../types';
+
+/**
+ * Start a server on a free port and return a fetch bound to it
+ */
+const startServer = async (options: TaxFitterServerOptions = {}) => {
+  const server = createTaxFitterServer(options);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`http://127.0.0.1:${port}${path}`, init);
+  const post = (path: string, body: unknown) =>
+    request(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  return { server, request, post };
+};
+
+const readError = async (response: Response) =>
+  ((await response.json()) as ErrorPayload).error;
+
+const stopServer = (server: Server) =>
+  new Promise<void>((resolve, reject) =>
+    server.close((error) => (error ? reject(error) : resolve()))
+  );
+
+describe('tax-fitter server', () => {
+  let started: Awaited<ReturnType<typeof startServer>>;
+
+  beforeAll(async () => {
+    started = await startServer({ maxBodySize: 1024 });
+  });
+
+  afterAll(() => stopServer(started.server));
+
+  it('should report its health', async () => {
+    const response = await started.request('/health');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should calculate adjustments', async () => {
+    const response = await started.post('/v1/calculate', {
+      subtotal: 40000,
+      targetTotal: 40000,
+      taxRate: { numerator: 1, denominator: 10 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      discount: 3636,
+      isValid: true,
+      adjustedSubtotal: 36364,
+      taxAmount: 3636,
+      finalTotal: 40000,
+    });
+  });
+
+  it('should respond with the error code of invalid adjustments', async () => {
+    const response = await started.post('/v1/calculate', {
+      subtotal: 1000,
+      targetTotal: 1001,
+      taxRate: 0.1,
+      totalIncrement: 10,
+    });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      error: {
+        code: 'INVALID_INPUT',
+        message: 'Target total must be a multiple of the total rounding increment (10)',
+      },
+    });
+  });
+
+  it('should apply and extract tax', async () => {
+    const exclusive = await started.post('/v1/apply-tax', { amount: 1000, taxRate: 0.1 });
+    expect(await exclusive.json()).toEqual({ taxAmount: 100 });
+
+    const inclusive = await started.post('/v1/apply-tax', {
+      amount: 1100,
+      taxRate: 0.1,
+      pricingMode: 'inclusive',
+    });
+    expect(await inclusive.json()).toEqual({ taxAmount: 100 });
+  });
+
+  it('should report every schema violation', async () => {
+    const response = await started.post('/v1/calculate', {
+      subtotal: 1.5,
+      taxRate: { numerator: 1, denominator: 0 },
+      roundMode: 'up',
+      extra: true,
+    });
+
+    expect(response.status).toBe(400);
+    const error = await readError(response);
+    expect(error.code).toBe('INVALID_REQUEST');
+    expect(error.details).toEqual([
+      { path: 'body.targetTotal', message: 'is required' },
+      { path: 'body.subtotal', message: 'must be an integer' },
+      { path: 'body.taxRate', message: 'must be one of: a number, an object' },
+      {
+        path: 'body.roundMode',
+        message:
+          'must be one of: floor, ceil, round, half-even, half-down, half-away-from-zero, truncate',
+      },
+      { path: 'body.extra', message: 'is not allowed' },
+    ]);
+  });
+
+  it('should not take inherited members for schema properties', async () => {
+    const response = await started.post('/v1/apply-tax', {
+      amount: 1000,
+      taxRate: 0.1,
+      constructor: 5,
+      toString: 'x',
+    });
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).details).toEqual([
+      { path: 'body.constructor', message: 'is not allowed' },
+      { path: 'body.toString', message: 'is not allowed' },
+    ]);
+  });
+
+  it('should reject malformed bodies', async () => {
+    const invalidJson = await started.request('/v1/apply-tax', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"amount":',
+    });
+    expect(invalidJson.status).toBe(400);
+    expect((await readError(invalidJson)).code).toBe('INVALID_JSON');
+
+    const text = await started.request('/v1/apply-tax', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'amount=1000',
+    });
+    expect(text.status).toBe(415);
+    expect((await readError(text)).code).toBe('UNSUPPORTED_MEDIA_TYPE');
+
+    const tooLarge = await started.post('/v1/apply-tax', { amount: 1000, padding: 'x'.repeat(2048) });
+    expect(tooLarge.status).toBe(413);
+    expect((await readError(tooLarge)).code).toBe('PAYLOAD_TOO_LARGE');
+  });
+
+  it('should respond to unknown routes and methods', async () => {
+    const notFound = await started.request('/v1/unknown');
+    expect(notFound.status).toBe(404);
+    expect((await readError(notFound)).code).toBe('NOT_FOUND');
+
+    const wrongMethod = await started.request('/v1/calculate');
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('POST');
+    expect((await readError(wrongMethod)).code).toBe('METHOD_NOT_ALLOWED');
+  });
+
+  it('should respond with 501 without a Stripe client', async () => {
+    const response = await started.post('/v1/stripe/invoices/in_test123/adjustments', {
+      targetTotal: 40000,
+    });
+
+    expect(response.status).toBe(501);
+    expect((await readError(response)).code).toBe('STRIPE_NOT_CONFIGURED');
+  });
+
+  it('should serve the OpenAPI document', async () => {
+    const response = await started.request('/openapi.json');
+    const document = (await response.json()) as {
+      openapi: string;
+      paths: Record<string, unknown>;
+      components: { schemas: Record<string, { required?: string[] }> };
+    };
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths)).toEqual([
+      '/health',
+      '/v1/calculate',
+      '/v1/apply-tax',
+      '/v1/stripe/invoices/{invoiceId}/adjustments',
+    ]);
+    expect(document.components.schemas.AdjustmentParams?.required).toEqual([
+      'subtotal',
+      'targetTotal',
+      'taxRate',
+    ]);
+  });
+});
+
+describe('tax-fitter server with Stripe', () => {
+  it('should adjust the invoice in the path', async () => {
+    const stripe = createMockStripe();
+    const { server, post } = await startServer({ stripe, authorize: () => true });
+
+    try {
+      const response = await post('/v1/stripe/invoices/in_test123/adjustments', {
+        targetTotal: 40000,
+        taxRate: 0.1,
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        invoiceItem: { id: 'ii_new' },
+        discount: 3636,
+        finalTotal: 40000,
+      });
+      expect(stripe.invoiceItems.create).toHaveBeenCalledWith(
+        expect.objectContaining({ invoice: 'in_test123', amount: -3636 })
+      );
+    } finally {
+      await stopServer(server);
+    }
+  });
+
+  it('should map adjustment errors to statuses', async () => {
+    const onError = vi.fn();
+    const stripe = createMockStripe({ ...draftInvoice, status: 'open' });
+    const { server, post } = await startServer({ stripe, authorize: () => true, onError });
+
+    try {
+      const response = await post('/v1/stripe/invoices/in_test123/adjustments', {
+        targetTotal: 40000,
+      });
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({
+        error: {
+          code: 'INVOICE_NOT_DRAFT',
+          message: expect.stringContaining('Invoice in_test123 is not in draft state'),
+        },
+      });
+      expect(onError).not.toHaveBeenCalled();
+    } finally {
+      await stopServer(server);
+    }
+  });
+
+  it('should only adjust invoices for authorized requests', async () => {
+    const stripe = createMockStripe();
+    const { server, request } = await startServer({
+      stripe,
+      authorize: createBearerAuthorizer('secret-token'),
+    });
+    const postWith = (authorization?: string) =>
+      request('/v1/stripe/invoices/in_test123/adjustments', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authorization ? { Authorization: authorization } : {}),
+        },
+        body: JSON.stringify({ targetTotal: 40000, taxRate: 0.1 }),
+      });
+
+    try {
+      for (const authorization of [undefined, 'Bearer wrong-token', 'Basic secret-token']) {
+        const response = await postWith(authorization);
+        expect(response.status).toBe(401);
+        expect((await readError(response)).code).toBe('UNAUTHORIZED');
+      }
+      expect(stripe.invoices.retrieve).not.toHaveBeenCalled();
+
+      expect((await postWith('Bearer secret-token')).status).toBe(200);
+    } finally {
+      await stopServer(server);
+    }
+  });
+
+  it('should require authorize with a Stripe client', () => {
+    expect(() => createRequestHandler({ stripe: createMockStripe() })).toThrow(
+      'authorize is required with a Stripe client'
+    );
+    expect(() => createBearerAuthorizer('')).toThrow(RangeError);
+  });
+
+  it('should respond with 502 when Stripe fails', async () => {
+    const stripe = createMockStripe();
+    vi.mocked(stripe.invoices.retrieve).mockRejectedValue(new Error('connection reset'));
+    const { server, post } = await startServer({ stripe, authorize: () => true });
+
+    try {
+      const response = await post('/v1/stripe/invoices/in_test123/adjustments', {
+        targetTotal: 40000,
+      });
+
+      expect(response.status).toBe(502);
+      expect((await readError(response)).code).toBe('STRIPE_API_ERROR');
+    } finally {
+      await stopServer(server);
+    }
+  });
+});
+
+describe('toHttpError', () => {
+  it('should hide unexpected errors', () => {
+    const { httpError, unexpected } = toHttpError(new TypeError('boom'));
+
+    expect(unexpected).toBe(true);
+    expect(httpError.status).toBe(500);
+    expect(httpError.toPayload()).toEqual({
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' },
+    });
+  });
+
+  it('should treat RangeErrors as invalid input', () => {
+    const { httpError, unexpected } = toHttpError(new RangeError('Increment must be positive'));
+
+    expect(unexpected).toBe(false);
+    expect(httpError.status).toBe(422);
+    expect(httpError.code).toBe('INVALID_INPUT');
+  });
+
+  it('should map billing document error codes', () => {
+    expect(toHttpError(new TaxFitterError('DOCUMENT_NOT_FOUND', 'missing')).httpError.status).toBe(404);
+    expect(toHttpError(new TaxFitterError('DOCUMENT_NOT_EDITABLE', 'locked')).httpError.status).toBe(409);
+    expect(toHttpError(new TaxFitterError('IDEMPOTENCY_CONFLICT', 'reused')).httpError.status).toBe(409);
+  });
+});
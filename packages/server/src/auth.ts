@@ -0,0 +1,30 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+
+/**
+ * Create an authorize hook that accepts requests carrying
+ * `Authorization: Bearer <token>`
+ *
+ * @param token - The shared secret clients send
+ * @returns The hook, for TaxFitterServerOptions.authorize
+ * @throws RangeError if the token is empty
+ */
+export function createBearerAuthorizer(token: string): (request: IncomingMessage) => boolean {
+  if (token.length === 0) {
+    throw new RangeError('The bearer token must not be empty');
+  }
+
+  // Comparing digests keeps the comparison constant-time whatever the length
+  const expected = digest(token);
+  return (request) => {
+    const match = /^Bearer +(\S+)$/i.exec(request.headers.authorization ?? '');
+    return match?.[1] !== undefined && timingSafeEqual(digest(match[1]), expected);
+  };
+}
+
+/**
+ * SHA-256 digest of a string
+ */
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+import Stripe from 'stripe';
+import { createBearerAuthorizer } from './auth';
+import { createTaxFitterServer } from './handler';
+
+const port = Number(process.env.PORT ?? 3000);
+// Only local clients unless HOST says otherwise (e.g., 0.0.0.0 in a container)
+const host = process.env.HOST ?? '127.0.0.1';
+const apiKey = process.env.STRIPE_API_KEY;
+const apiToken = process.env.TAX_FITTER_API_TOKEN;
+
+if (apiKey && !apiToken) {
+  console.error(
+    'STRIPE_API_KEY is set without TAX_FITTER_API_TOKEN. ' +
+      'Set a token to protect the Stripe endpoint, which changes invoices.'
+  );
+  process.exit(1);
+}
+
+const server = createTaxFitterServer({
+  stripe: apiKey ? new Stripe(apiKey) : undefined,
+  authorize: apiToken ? createBearerAuthorizer(apiToken) : undefined,
+  onError: (error) => console.error(error),
+});
+
+server.listen(port, host, () => {
+  console.log(`tax-fitter server listening on ${host}:${port}`);
+  if (!apiKey) {
+    console.log('STRIPE_API_KEY is not set; the Stripe endpoint responds with 501');
+  }
+});
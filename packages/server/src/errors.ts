@@ -0,0 +1,86 @@
+import { TaxFitterError } from '@tax-fitter/core';
+import type { TaxFitterErrorCode } from '@tax-fitter/core';
+import type { StripeAdjustmentErrorCode } from 'stripe-tax-fitter';
+import type { ErrorPayload, ValidationIssue } from './types';
+
+/**
+ * HTTP status for each adjustment failure reason
+ */
+const ADJUSTMENT_STATUS: Record<TaxFitterErrorCode | StripeAdjustmentErrorCode, number> = {
+  INVALID_INPUT: 422,
+  TARGET_UNREACHABLE: 422,
+  INVOICE_NOT_DRAFT: 409,
+  ZERO_SUBTOTAL: 422,
+  MISSING_CUSTOMER: 422,
+  STRIPE_API_ERROR: 502,
+  ADJUSTMENT_MISMATCH: 409,
+  DOCUMENT_NOT_FOUND: 404,
+  DOCUMENT_NOT_EDITABLE: 409,
+  IDEMPOTENCY_CONFLICT: 409,
+};
+
+/**
+ * An error with the HTTP status and payload to respond with
+ */
+export class HttpError extends Error {
+  constructor(
+    /**
+     * HTTP status code
+     */
+    readonly status: number,
+    /**
+     * Machine-readable reason, sent as error.code
+     */
+    readonly code: string,
+    message: string,
+    /**
+     * Validation problems, sent as error.details
+     */
+    readonly details?: ValidationIssue[]
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  /**
+   * The response body for this error
+   */
+  toPayload(): ErrorPayload {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.details ? { details: this.details } : {}),
+      },
+    };
+  }
+}
+
+/**
+ * Convert any thrown error to the HttpError to respond with
+ *
+ * Adjustment errors keep their code; RangeErrors from the core utilities are
+ * invalid input. Anything else becomes a 500 without its message.
+ *
+ * @param error - The thrown error
+ * @returns The HttpError, and whether the error was unexpected
+ */
+export function toHttpError(error: unknown): { httpError: HttpError; unexpected: boolean } {
+  if (error instanceof HttpError) {
+    return { httpError: error, unexpected: false };
+  }
+  if (error instanceof TaxFitterError) {
+    const code: TaxFitterErrorCode | StripeAdjustmentErrorCode = error.code;
+    return {
+      httpError: new HttpError(ADJUSTMENT_STATUS[code] ?? 500, code, error.message),
+      unexpected: false,
+    };
+  }
+  if (error instanceof RangeError) {
+    return { httpError: new HttpError(422, 'INVALID_INPUT', error.message), unexpected: false };
+  }
+  return {
+    httpError: new HttpError(500, 'INTERNAL_ERROR', 'Internal server error'),
+    unexpected: true,
+  };
+}
@@ -0,0 +1,225 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, RequestListener, Server, ServerResponse } from 'node:http';
+import { applyTax, calculateAdjustment, extractTax } from '@tax-fitter/core';
+import type { AdjustmentParams } from '@tax-fitter/core';
+import { TaxFitter } from 'stripe-tax-fitter';
+import { HttpError, toHttpError } from './errors';
+import { createOpenApiDocument } from './openapi';
+import {
+  adjustmentParamsSchema,
+  applyTaxRequestSchema,
+  stripeAdjustmentRequestSchema,
+  validate,
+} from './schemas';
+import type { JsonSchema } from './schemas';
+import type {
+  ApplyTaxRequest,
+  ApplyTaxResponse,
+  StripeAdjustmentRequest,
+  TaxFitterServerOptions,
+} from './types';
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+const INVOICE_ADJUSTMENTS_PATH = /^\/v1\/stripe\/invoices\/([^/]+)\/adjustments$/;
+
+/**
+ * Handles one route; resolves to the 200 response body
+ */
+type RouteHandler = (request: IncomingMessage, params: string[]) => Promise<unknown>;
+
+interface Route {
+  method: 'GET' | 'POST';
+  handle: RouteHandler;
+}
+
+/**
+ * Create a node:http request listener serving the tax-fitter API
+ *
+ * Routes:
+ * - GET /health
+ * - GET /openapi.json
+ * - POST /v1/calculate (calculateAdjustment)
+ * - POST /v1/apply-tax (applyTax, or extractTax with pricingMode 'inclusive')
+ * - POST /v1/stripe/invoices/{invoiceId}/adjustments (TaxFitter.applyAdjustment)
+ *
+ * Request bodies are validated against the schemas in the OpenAPI document.
+ * Every error responds with an ErrorPayload. Only requests passing
+ * options.authorize reach the Stripe endpoint.
+ *
+ * @param options - Server options
+ * @returns The request listener
+ * @throws RangeError if maxBodySize is not a positive integer
+ * @throws TypeError if stripe is set without authorize
+ */
+export function createRequestHandler(options: TaxFitterServerOptions = {}): RequestListener {
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  if (!Number.isSafeInteger(maxBodySize) || maxBodySize <= 0) {
+    throw new RangeError('maxBodySize must be a positive integer');
+  }
+
+  const { authorize } = options;
+  if (options.stripe && !authorize) {
+    throw new TypeError(
+      'authorize is required with a Stripe client: the Stripe endpoint changes invoices'
+    );
+  }
+
+  const fitter = options.stripe ? new TaxFitter(options.stripe) : undefined;
+  const openApiDocument = createOpenApiDocument();
+
+  async function readBody<T>(request: IncomingMessage, schema: JsonSchema): Promise<T> {
+    const contentType = request.headers['content-type'] ?? '';
+    if (!/^application\/json\s*(;|$)/i.test(contentType)) {
+      throw new HttpError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Content-Type must be application/json');
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      size += (chunk as Buffer).length;
+      if (size > maxBodySize) {
+        throw new HttpError(
+          413,
+          'PAYLOAD_TOO_LARGE',
+          `Request body exceeds ${maxBodySize} bytes`
+        );
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new HttpError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+    }
+
+    const issues = validate(schema, body);
+    if (issues.length > 0) {
+      throw new HttpError(400, 'INVALID_REQUEST', 'Request body is invalid', issues);
+    }
+    return body as T;
+  }
+
+  const routes: Record<string, Route> = {
+    '/health': { method: 'GET', handle: async () => ({ status: 'ok' }) },
+
+    '/openapi.json': { method: 'GET', handle: async () => openApiDocument },
+
+    '/v1/calculate': {
+      method: 'POST',
+      handle: async (request) => {
+        const params = await readBody<AdjustmentParams>(request, adjustmentParamsSchema);
+        const result = calculateAdjustment(params);
+        if (!result.isValid) {
+          throw new HttpError(
+            422,
+            result.errorCode ?? 'INVALID_INPUT',
+            result.error ?? 'Invalid parameters'
+          );
+        }
+        return result;
+      },
+    },
+
+    '/v1/apply-tax': {
+      method: 'POST',
+      handle: async (request): Promise<ApplyTaxResponse> => {
+        const { amount, taxRate, roundMode, increment, pricingMode } =
+          await readBody<ApplyTaxRequest>(request, applyTaxRequestSchema);
+        const tax = pricingMode === 'inclusive' ? extractTax : applyTax;
+        return { taxAmount: tax(amount, taxRate, roundMode, increment) };
+      },
+    },
+  };
+
+  const invoiceAdjustments: Route = {
+    method: 'POST',
+    handle: async (request, [invoiceId = '']) => {
+      if (!fitter || !authorize) {
+        throw new HttpError(
+          501,
+          'STRIPE_NOT_CONFIGURED',
+          'The server was started without a Stripe client'
+        );
+      }
+      if (!(await authorize(request))) {
+        throw new HttpError(401, 'UNAUTHORIZED', 'Missing or invalid credentials');
+      }
+      const body = await readBody<StripeAdjustmentRequest>(
+        request,
+        stripeAdjustmentRequestSchema
+      );
+      return fitter.applyAdjustment({ ...body, invoiceId });
+    },
+  };
+
+  async function dispatch(request: IncomingMessage, response: ServerResponse): Promise<unknown> {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+    let route = routes[pathname];
+    let params: string[] = [];
+    const invoiceMatch = INVOICE_ADJUSTMENTS_PATH.exec(pathname);
+    if (!route && invoiceMatch) {
+      route = invoiceAdjustments;
+      try {
+        params = [decodeURIComponent(invoiceMatch[1] ?? '')];
+      } catch {
+        throw new HttpError(400, 'INVALID_REQUEST', 'Invoice ID is not valid URL encoding');
+      }
+    }
+
+    if (!route) {
+      throw new HttpError(404, 'NOT_FOUND', `No route for ${pathname}`);
+    }
+    if (request.method !== route.method) {
+      response.setHeader('Allow', route.method);
+      throw new HttpError(
+        405,
+        'METHOD_NOT_ALLOWED',
+        `${request.method} is not allowed for ${pathname}; use ${route.method}`
+      );
+    }
+    return route.handle(request, params);
+  }
+
+  return (request, response) => {
+    dispatch(request, response).then(
+      (body) => send(response, 200, body),
+      (error: unknown) => {
+        const { httpError, unexpected } = toHttpError(error);
+        if (unexpected) {
+          options.onError?.(error);
+        }
+        if (httpError.status === 413) {
+          // Stop reading the rest of the oversized body
+          response.setHeader('Connection', 'close');
+        }
+        send(response, httpError.status, httpError.toPayload());
+      }
+    );
+  };
+}
+
+/**
+ * Create an HTTP server serving the tax-fitter API (see createRequestHandler)
+ *
+ * @param options - Server options
+ * @returns The server; call listen() to start it
+ */
+export function createTaxFitterServer(options: TaxFitterServerOptions = {}): Server {
+  return createServer(createRequestHandler(options));
+}
+
+/**
+ * Send a JSON response
+ */
+function send(response: ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body);
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(json),
+  });
+  response.end(json);
+}
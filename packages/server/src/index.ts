@@ -0,0 +1,26 @@
+// Export types
+export type {
+  TaxFitterServerOptions,
+  ApplyTaxRequest,
+  ApplyTaxResponse,
+  StripeAdjustmentRequest,
+  ValidationIssue,
+  ErrorPayload,
+} from './types';
+export type { JsonSchema } from './schemas';
+
+// Export server API
+export { createRequestHandler, createTaxFitterServer } from './handler';
+export { createOpenApiDocument } from './openapi';
+export { createBearerAuthorizer } from './auth';
+export { HttpError, toHttpError } from './errors';
+export {
+  validate,
+  adjustmentParamsSchema,
+  adjustmentResultSchema,
+  applyTaxRequestSchema,
+  applyTaxResponseSchema,
+  stripeAdjustmentRequestSchema,
+  stripeAdjustmentResultSchema,
+  errorPayloadSchema,
+} from './schemas';
@@ -0,0 +1,139 @@
+import { version } from '@tax-fitter/core';
+import {
+  adjustmentParamsSchema,
+  adjustmentResultSchema,
+  applyTaxRequestSchema,
+  applyTaxResponseSchema,
+  errorPayloadSchema,
+  stripeAdjustmentRequestSchema,
+  stripeAdjustmentResultSchema,
+} from './schemas';
+import type { JsonSchema } from './schemas';
+
+/**
+ * Reference to a component schema
+ */
+function ref(name: string): { $ref: string } {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * JSON request body with the given component schema
+ */
+function jsonBody(name: string) {
+  return { required: true, content: { 'application/json': { schema: ref(name) } } };
+}
+
+/**
+ * Response with the given description and component schema
+ */
+function jsonResponse(description: string, name: string) {
+  return { description, content: { 'application/json': { schema: ref(name) } } };
+}
+
+const invalidRequest = jsonResponse('The body is not valid JSON or does not match the schema', 'Error');
+
+/**
+ * Build the OpenAPI 3.1 document describing the server
+ *
+ * The component schemas are the ones requests are validated against, which the
+ * compiler ties to the core and Stripe types.
+ *
+ * @returns The document, served at GET /openapi.json
+ */
+export function createOpenApiDocument(): Record<string, unknown> {
+  const schemas: Record<string, JsonSchema> = {
+    AdjustmentParams: adjustmentParamsSchema,
+    AdjustmentResult: adjustmentResultSchema,
+    ApplyTaxRequest: applyTaxRequestSchema,
+    ApplyTaxResponse: applyTaxResponseSchema,
+    StripeAdjustmentRequest: stripeAdjustmentRequestSchema,
+    StripeAdjustmentResult: stripeAdjustmentResultSchema,
+    Error: errorPayloadSchema,
+  };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'tax-fitter',
+      version,
+      description: 'Calculate discounts that make tax-inclusive totals land on a target amount',
+    },
+    paths: {
+      '/health': {
+        get: {
+          operationId: 'health',
+          summary: 'Check that the server is running',
+          responses: {
+            200: {
+              description: 'The server is running',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { status: { type: 'string', enum: ['ok'] } },
+                    required: ['status'],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/v1/calculate': {
+        post: {
+          operationId: 'calculateAdjustment',
+          summary: 'Calculate the discount that reaches a target total',
+          requestBody: jsonBody('AdjustmentParams'),
+          responses: {
+            200: jsonResponse('The adjustment', 'AdjustmentResult'),
+            400: invalidRequest,
+            422: jsonResponse('The parameters are invalid or the target is unreachable', 'Error'),
+          },
+        },
+      },
+      '/v1/apply-tax': {
+        post: {
+          operationId: 'applyTax',
+          summary: 'Calculate the tax on an amount',
+          requestBody: jsonBody('ApplyTaxRequest'),
+          responses: {
+            200: jsonResponse('The tax amount', 'ApplyTaxResponse'),
+            400: invalidRequest,
+            422: jsonResponse('The parameters are invalid', 'Error'),
+          },
+        },
+      },
+      '/v1/stripe/invoices/{invoiceId}/adjustments': {
+        post: {
+          operationId: 'applyStripeAdjustment',
+          summary: 'Adjust a draft Stripe invoice to reach a target total',
+          parameters: [
+            {
+              name: 'invoiceId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          security: [{ bearerAuth: [] }],
+          requestBody: jsonBody('StripeAdjustmentRequest'),
+          responses: {
+            200: jsonResponse('The adjustment', 'StripeAdjustmentResult'),
+            400: invalidRequest,
+            401: jsonResponse('The request is not authorized', 'Error'),
+            409: jsonResponse('The invoice is not a draft, or verification failed', 'Error'),
+            422: jsonResponse('The adjustment cannot be calculated for the invoice', 'Error'),
+            501: jsonResponse('The server has no Stripe client', 'Error'),
+            502: jsonResponse('A Stripe API call failed', 'Error'),
+          },
+        },
+      },
+    },
+    components: {
+      schemas,
+      // The scheme of createBearerAuthorizer; other authorize hooks may differ
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+}
@@ -0,0 +1,431 @@
+import type {
+  AdjustmentCandidate,
+  AdjustmentErrorCode,
+  AdjustmentParams,
+  AdjustmentResult,
+  AdjustmentTrace,
+  PricingMode,
+  RationalRate,
+  RoundMode,
+  SelectionPolicy,
+} from '@tax-fitter/core';
+import type {
+  AdjustmentStrategy,
+  AllocationMode,
+  FitTarget,
+  StripeAdjustmentResult,
+  StripeAllocatedItem,
+} from 'stripe-tax-fitter';
+import type {
+  ApplyTaxRequest,
+  ApplyTaxResponse,
+  ErrorPayload,
+  StripeAdjustmentRequest,
+  ValidationIssue,
+} from './types';
+
+/**
+ * The subset of JSON Schema used for request validation and the OpenAPI document
+ */
+export interface JsonSchema {
+  type?: 'integer' | 'number' | 'string' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  oneOf?: readonly JsonSchema[];
+}
+
+/**
+ * Schema of an object type; the compiler checks that it describes every
+ * property of T and nothing else
+ */
+type ObjectSchema<T> = JsonSchema & {
+  type: 'object';
+  properties: { [K in keyof T]-?: JsonSchema };
+  required: readonly (keyof T & string)[];
+};
+
+/**
+ * List the members of a string union; the compiler checks that none is missing
+ */
+function enumValues<T extends string>(members: Record<T, true>): T[] {
+  return Object.keys(members) as T[];
+}
+
+const roundModeSchema: JsonSchema = {
+  type: 'string',
+  enum: enumValues<RoundMode>({
+    floor: true,
+    ceil: true,
+    round: true,
+    'half-even': true,
+    'half-down': true,
+    'half-away-from-zero': true,
+    truncate: true,
+  }),
+};
+
+const pricingModeSchema: JsonSchema = {
+  type: 'string',
+  enum: enumValues<PricingMode>({ exclusive: true, inclusive: true }),
+};
+
+const amountSchema: JsonSchema = {
+  type: 'integer',
+  description: 'Amount in the smallest currency unit',
+};
+
+const incrementSchema: JsonSchema = { type: 'integer', minimum: 1 };
+
+const rationalRateSchema: ObjectSchema<RationalRate> = {
+  type: 'object',
+  properties: {
+    numerator: { type: 'integer' },
+    denominator: { type: 'integer', minimum: 1 },
+  },
+  required: ['numerator', 'denominator'],
+  additionalProperties: false,
+};
+
+const taxRateSchema: JsonSchema = {
+  description: 'Tax rate as a decimal (e.g., 0.1 for 10%) or an exact rational',
+  oneOf: [{ type: 'number', minimum: 0 }, rationalRateSchema],
+};
+
+/**
+ * Body of POST /v1/calculate
+ */
+export const adjustmentParamsSchema: ObjectSchema<AdjustmentParams> = {
+  type: 'object',
+  description: 'Parameters for calculateAdjustment',
+  properties: {
+    subtotal: { ...amountSchema, minimum: 0 },
+    targetTotal: { ...amountSchema, minimum: 1 },
+    taxRate: taxRateSchema,
+    allowRateAboveOne: { type: 'boolean' },
+    roundMode: roundModeSchema,
+    pricingMode: pricingModeSchema,
+    selectionPolicy: {
+      type: 'string',
+      enum: enumValues<SelectionPolicy>({
+        'smallest-discount': true,
+        'largest-base': true,
+        'largest-tax': true,
+        'round-number': true,
+      }),
+    },
+    allowResidual: { type: 'boolean' },
+    taxIncrement: incrementSchema,
+    totalIncrement: incrementSchema,
+    totalRoundMode: roundModeSchema,
+    discountIncrement: incrementSchema,
+    explain: { type: 'boolean' },
+  },
+  required: ['subtotal', 'targetTotal', 'taxRate'],
+  additionalProperties: false,
+};
+
+const candidateSchema: ObjectSchema<AdjustmentCandidate> = {
+  type: 'object',
+  properties: {
+    discount: { type: 'integer' },
+    adjustedSubtotal: { type: 'integer' },
+    taxAmount: { type: 'integer' },
+    finalTotal: { type: 'integer' },
+    matchesTarget: { type: 'boolean' },
+  },
+  required: ['discount', 'adjustedSubtotal', 'taxAmount', 'finalTotal', 'matchesTarget'],
+};
+
+const traceSchema: ObjectSchema<AdjustmentTrace> = {
+  type: 'object',
+  description: 'How the discount was found (only with explain)',
+  properties: {
+    inputs: {
+      type: 'object',
+      description: 'The parameters with their defaults filled in and the rate as a rational',
+    },
+    candidates: { type: 'array', items: candidateSchema },
+    matchingRange: {
+      type: 'object',
+      properties: {
+        minDiscount: { type: 'integer' },
+        maxDiscount: { type: 'integer' },
+        count: { type: 'integer' },
+      },
+      required: ['minDiscount', 'maxDiscount', 'count'],
+    },
+    selected: candidateSchema,
+    reason: { type: 'string' },
+    alternatives: { type: 'array', items: candidateSchema },
+  },
+  required: ['inputs', 'candidates', 'selected', 'reason', 'alternatives'],
+};
+
+const adjustmentErrorCodeSchema: JsonSchema = {
+  type: 'string',
+  enum: enumValues<AdjustmentErrorCode>({ INVALID_INPUT: true, TARGET_UNREACHABLE: true }),
+};
+
+/**
+ * Response of POST /v1/calculate
+ */
+export const adjustmentResultSchema: ObjectSchema<AdjustmentResult> = {
+  type: 'object',
+  description: 'Result of calculateAdjustment',
+  properties: {
+    discount: { type: 'integer', description: 'Negative values are surcharges' },
+    isValid: { type: 'boolean' },
+    adjustedSubtotal: { type: 'integer' },
+    taxAmount: { type: 'integer' },
+    finalTotal: { type: 'integer' },
+    roundingDifference: { type: 'integer' },
+    residualDiscount: { type: 'integer' },
+    error: { type: 'string' },
+    errorCode: adjustmentErrorCodeSchema,
+    trace: traceSchema,
+  },
+  required: ['discount', 'isValid', 'adjustedSubtotal', 'taxAmount', 'finalTotal'],
+};
+
+/**
+ * Body of POST /v1/apply-tax
+ */
+export const applyTaxRequestSchema: ObjectSchema<ApplyTaxRequest> = {
+  type: 'object',
+  description: 'Parameters for applyTax (or extractTax with pricingMode inclusive)',
+  properties: {
+    amount: amountSchema,
+    taxRate: taxRateSchema,
+    roundMode: roundModeSchema,
+    increment: incrementSchema,
+    pricingMode: pricingModeSchema,
+  },
+  required: ['amount', 'taxRate'],
+  additionalProperties: false,
+};
+
+/**
+ * Response of POST /v1/apply-tax
+ */
+export const applyTaxResponseSchema: ObjectSchema<ApplyTaxResponse> = {
+  type: 'object',
+  properties: {
+    taxAmount: { type: 'integer' },
+  },
+  required: ['taxAmount'],
+};
+
+/**
+ * Body of POST /v1/stripe/invoices/{invoiceId}/adjustments
+ */
+export const stripeAdjustmentRequestSchema: ObjectSchema<StripeAdjustmentRequest> = {
+  type: 'object',
+  description: 'Options for TaxFitter.applyAdjustment',
+  properties: {
+    targetTotal: { ...amountSchema, minimum: 1 },
+    taxRate: taxRateSchema,
+    roundMode: roundModeSchema,
+    description: { type: 'string' },
+    metadata: { type: 'object', additionalProperties: { type: 'string' } },
+    allowResidual: { type: 'boolean' },
+    residualDescription: { type: 'string' },
+    allocation: {
+      type: 'string',
+      enum: enumValues<AllocationMode>({ lump: true, 'per-line': true }),
+    },
+    idempotencyKey: { type: 'string', minLength: 1 },
+    verify: { type: 'boolean' },
+    strategy: {
+      type: 'string',
+      enum: enumValues<AdjustmentStrategy>({ 'invoice-item': true, coupon: true }),
+    },
+    fitTo: {
+      type: 'string',
+      enum: enumValues<FitTarget>({ total: true, amount_due: true }),
+    },
+    explain: { type: 'boolean' },
+  },
+  required: ['targetTotal'],
+  additionalProperties: false,
+};
+
+const allocatedItemSchema: ObjectSchema<StripeAllocatedItem> = {
+  type: 'object',
+  properties: {
+    lineId: { type: 'string' },
+    discount: { type: 'integer' },
+    invoiceItem: { type: 'object', description: 'Stripe invoice item' },
+  },
+  required: ['lineId', 'discount', 'invoiceItem'],
+};
+
+/**
+ * Response of POST /v1/stripe/invoices/{invoiceId}/adjustments
+ */
+export const stripeAdjustmentResultSchema: ObjectSchema<StripeAdjustmentResult> = {
+  type: 'object',
+  description: 'Result of TaxFitter.applyAdjustment',
+  properties: {
+    invoiceItem: { type: 'object', description: 'Stripe invoice item' },
+    coupon: { type: 'object', description: 'Stripe coupon' },
+    allocatedItems: { type: 'array', items: allocatedItemSchema },
+    residualItem: { type: 'object', description: 'Stripe invoice item' },
+    currency: { type: 'string' },
+    taxRate: taxRateSchema,
+    pricingMode: pricingModeSchema,
+    discount: { type: 'integer' },
+    residualDiscount: { type: 'integer' },
+    adjustedSubtotal: { type: 'integer' },
+    taxAmount: { type: 'integer' },
+    finalTotal: { type: 'integer' },
+    amountDue: { type: 'integer' },
+    untaxedAmount: { type: 'integer' },
+    replacedItems: { type: 'integer' },
+    trace: traceSchema,
+  },
+  required: [
+    'currency',
+    'taxRate',
+    'pricingMode',
+    'discount',
+    'residualDiscount',
+    'adjustedSubtotal',
+    'taxAmount',
+    'finalTotal',
+    'amountDue',
+    'untaxedAmount',
+    'replacedItems',
+  ],
+};
+
+/**
+ * Body of every error response
+ */
+export const errorPayloadSchema: ObjectSchema<ErrorPayload> = {
+  type: 'object',
+  properties: {
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' },
+        details: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { path: { type: 'string' }, message: { type: 'string' } },
+            required: ['path', 'message'],
+          },
+        },
+      },
+      required: ['code', 'message'],
+    },
+  },
+  required: ['error'],
+};
+
+/**
+ * Validate a value against a schema
+ * @param schema - The schema
+ * @param value - The value, e.g. a parsed request body
+ * @param path - Location of the value in messages
+ * @returns Every problem found (empty when the value is valid)
+ */
+export function validate(schema: JsonSchema, value: unknown, path = 'body'): ValidationIssue[] {
+  if (schema.oneOf) {
+    const matches = schema.oneOf.some((option) => validate(option, value, path).length === 0);
+    return matches
+      ? []
+      : [{ path, message: `must be one of: ${schema.oneOf.map(describe).join(', ')}` }];
+  }
+
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ path, message: `must be ${schema.type === 'integer' ? 'an integer' : 'a number'}` }];
+      }
+      if (schema.type === 'integer' && !Number.isSafeInteger(value)) {
+        return [{ path, message: 'must be an integer' }];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [{ path, message: `must be at least ${schema.minimum}` }];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [{ path, message: `must be at most ${schema.maximum}` }];
+      }
+      return [];
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [{ path, message: 'must be a string' }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `must be one of: ${schema.enum.join(', ')}` }];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [{ path, message: `must be at least ${schema.minLength} characters` }];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, message: 'must be a boolean' }];
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path, message: 'must be an array' }];
+      }
+      const { items } = schema;
+      return items
+        ? value.flatMap((item, index) => validate(items, item, `${path}[${index}]`))
+        : [];
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [{ path, message: 'must be an object' }];
+      }
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const issues: ValidationIssue[] = [];
+
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          issues.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+      for (const [key, item] of Object.entries(record)) {
+        // Own properties only, so keys like 'constructor' are not taken for schema properties
+        const propertySchema = Object.prototype.hasOwnProperty.call(properties, key)
+          ? properties[key]
+          : undefined;
+        if (propertySchema) {
+          issues.push(...validate(propertySchema, item, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          issues.push({ path: `${path}.${key}`, message: 'is not allowed' });
+        } else if (typeof schema.additionalProperties === 'object') {
+          issues.push(...validate(schema.additionalProperties, item, `${path}.${key}`));
+        }
+      }
+      return issues;
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Short name of a schema for messages
+ */
+function describe(schema: JsonSchema): string {
+  return schema.type === 'integer' ? 'an integer' : `a${schema.type === 'object' ? 'n' : ''} ${schema.type ?? 'value'}`;
+}
@@ -0,0 +1,118 @@
+import type { IncomingMessage } from 'node:http';
+import type Stripe from 'stripe';
+import type { PricingMode, RoundMode, TaxRate } from '@tax-fitter/core';
+import type { StripeAdjustmentOptions } from 'stripe-tax-fitter';
+
+/**
+ * Options for createRequestHandler and createTaxFitterServer
+ */
+export interface TaxFitterServerOptions {
+  /**
+   * Stripe client for the invoice adjustment endpoint
+   * Without it, that endpoint responds with 501 STRIPE_NOT_CONFIGURED.
+   */
+  stripe?: Stripe;
+
+  /**
+   * Decide whether a request may use the invoice adjustment endpoint, which
+   * changes invoices with the server's Stripe client; other requests respond
+   * with 401 UNAUTHORIZED. Required with stripe (see createBearerAuthorizer).
+   */
+  authorize?: (request: IncomingMessage) => boolean | Promise<boolean>;
+
+  /**
+   * Largest accepted request body in bytes
+   * @default 1048576
+   */
+  maxBodySize?: number;
+
+  /**
+   * Called with unexpected errors before responding with 500 INTERNAL_ERROR
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Body of POST /v1/apply-tax
+ */
+export interface ApplyTaxRequest {
+  /**
+   * Amount in the smallest currency unit (tax-inclusive with pricingMode 'inclusive')
+   */
+  amount: number;
+
+  /**
+   * Tax rate as a decimal or an exact rational
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Rounding mode for the tax
+   * @default 'floor'
+   */
+  roundMode?: RoundMode;
+
+  /**
+   * Round the tax to a multiple of this increment
+   * @default 1
+   */
+  increment?: number;
+
+  /**
+   * 'exclusive' adds tax to the amount (applyTax); 'inclusive' extracts the tax it contains (extractTax)
+   * @default 'exclusive'
+   */
+  pricingMode?: PricingMode;
+}
+
+/**
+ * Response of POST /v1/apply-tax
+ */
+export interface ApplyTaxResponse {
+  /**
+   * The tax amount
+   */
+  taxAmount: number;
+}
+
+/**
+ * Body of POST /v1/stripe/invoices/{invoiceId}/adjustments
+ */
+export type StripeAdjustmentRequest = Omit<StripeAdjustmentOptions, 'invoiceId'>;
+
+/**
+ * One problem found while validating a request body
+ */
+export interface ValidationIssue {
+  /**
+   * Location of the value, e.g. 'body.taxRate.denominator'
+   */
+  path: string;
+
+  /**
+   * What is wrong with it
+   */
+  message: string;
+}
+
+/**
+ * Body of every error response
+ */
+export interface ErrorPayload {
+  error: {
+    /**
+     * Machine-readable reason, e.g. 'INVALID_REQUEST' or 'TARGET_UNREACHABLE'
+     */
+    code: string;
+
+    /**
+     * Human-readable description
+     */
+    message: string;
+
+    /**
+     * Validation problems (only for INVALID_REQUEST)
+     */
+    details?: ValidationIssue[];
+  };
+}
@@ -1,20 +1,40 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type Stripe from 'stripe';
-import { TaxFitter, applyStripeAdjustment } from '../adjuster';
+import { TaxFitter, applyStripeAdjustment, previewStripeAdjustment } from '../adjuster';
+import { executePlan } from '../invoice';
+import {
+  AdjustmentMismatchError,
+  InvalidInputError,
+  InvoiceNotDraftError,
+  MissingCustomerError,
+  StripeApiError,
+  TargetUnreachableError,
+  ZeroSubtotalError,
+} from '../errors';
 
 // Mock Stripe SDK
 const createMockStripe = () => {
   const mockInvoices = {
     retrieve: vi.fn(),
+    listLineItems: vi.fn(),
+    update: vi.fn(),
   };
 
   const mockInvoiceItems = {
     create: vi.fn(),
+    update: vi.fn(),
+    del: vi.fn(),
+  };
+
+  const mockCoupons = {
+    create: vi.fn(),
+    del: vi.fn(),
   };
 
   return {
     invoices: mockInvoices,
     invoiceItems: mockInvoiceItems,
+    coupons: mockCoupons,
   } as unknown as Stripe;
 };
 
@@ -54,7 +74,9 @@ describe('TaxFitter', () => {
       });
 
       // Verify invoice was retrieved
-      expect(mockStripe.invoices.retrieve).toHaveBeenCalledWith('in_test123');
+      expect(mockStripe.invoices.retrieve).toHaveBeenCalledWith('in_test123', {
+        expand: ['discounts'],
+      });
 
       // Verify invoice item was created with correct parameters
       expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(
@@ -239,6 +261,8 @@ describe('TaxFitter', () => {
         id: 'in_test123',
         status: 'draft',
         subtotal: 0,
+        customer: 'cus_test123',
+        currency: 'usd',
       } as Stripe.Invoice;
 
       vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(mockInvoice);
@@ -338,6 +362,1627 @@ describe('TaxFitter', () => {
 
       expect(result.finalTotal).toBe(12100);
     });
+
+    describe('currency handling', () => {
+      it('should reject fractional target totals', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 10000,
+          customer: 'cus_test123',
+          currency: 'usd',
+        } as Stripe.Response<Stripe.Invoice>);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 99.99,
+            taxRate: 0.1,
+          })
+        ).rejects.toThrow(
+          'Invalid target total for invoice in_test123: Amount 99.99 must be an integer in the smallest unit of USD'
+        );
+        expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+      });
+
+      it('should reject three-decimal targets that do not end in 0', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 100000,
+          customer: 'cus_test123',
+          currency: 'kwd',
+        } as Stripe.Response<Stripe.Invoice>);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 104995,
+            taxRate: 0.05,
+          })
+        ).rejects.toThrow('must be a multiple of 10 for KWD on Stripe');
+      });
+
+      it('should only create three-decimal adjustments that end in 0', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 100000,
+          customer: 'cus_test123',
+          currency: 'kwd',
+        } as Stripe.Response<Stripe.Invoice>);
+        vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+          { id: 'ii_test123' } as Stripe.Response<Stripe.InvoiceItem>
+        );
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 99750,
+          taxRate: 0.05,
+          allowResidual: true,
+        });
+
+        const createCall = vi.mocked(mockStripe.invoiceItems.create).mock.calls[0]?.[0];
+        expect(Math.abs(createCall?.amount ?? 1) % 10).toBe(0);
+        expect(result.currency).toBe('kwd');
+        expect(result.finalTotal).toBe(99750);
+      });
+
+      it('should throw error for invoice without currency', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 1000,
+          customer: 'cus_test123',
+        } as Stripe.Response<Stripe.Invoice>);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 1100,
+            taxRate: 0.1,
+          })
+        ).rejects.toThrow('Invoice in_test123 has no currency');
+      });
+    });
+
+    describe('residual handling', () => {
+      // With ceil rounding at 10%, a total of 1101 cannot be reached by a taxable discount
+      const mockInvoice = {
+        id: 'in_test123',
+        status: 'draft',
+        subtotal: 2000,
+        customer: 'cus_test123',
+        currency: 'usd',
+      } as Stripe.Response<Stripe.Invoice>;
+
+      it('should throw when the target is unreachable without residual', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(mockInvoice);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 1101,
+            taxRate: 0.1,
+            roundMode: 'ceil',
+          })
+        ).rejects.toThrow('Failed to calculate valid adjustment');
+        expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+      });
+
+      it('should create a taxable item and a non-taxable residual item', async () => {
+        const mockInvoiceItem = { id: 'ii_main' } as Stripe.Response<Stripe.InvoiceItem>;
+        const mockResidualItem = { id: 'ii_residual' } as Stripe.Response<Stripe.InvoiceItem>;
+
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(mockInvoice);
+        vi.spyOn(mockStripe.invoiceItems, 'create')
+          .mockResolvedValueOnce(mockInvoiceItem)
+          .mockResolvedValueOnce({ id: 'ii_residual' } as Stripe.Response<Stripe.InvoiceItem>);
+        vi.spyOn(mockStripe.invoiceItems, 'update').mockResolvedValue(mockResidualItem);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 1101,
+          taxRate: 0.1,
+          roundMode: 'ceil',
+          allowResidual: true,
+        });
+
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledTimes(2);
+
+        const residualCall = vi.mocked(mockStripe.invoiceItems.create).mock.calls[1]?.[0];
+        expect(residualCall).toEqual(
+          expect.objectContaining({
+            invoice: 'in_test123',
+            customer: 'cus_test123',
+            amount: -result.residualDiscount,
+            description: 'Rounding adjustment',
+            metadata: expect.objectContaining({
+              tax_fitter_adjustment: 'true',
+              tax_fitter_residual: 'true',
+            }),
+          })
+        );
+        // Only updates accept '' to clear the inherited tax rates
+        expect(residualCall).not.toHaveProperty('tax_rates');
+        expect(mockStripe.invoiceItems.update).toHaveBeenCalledWith('ii_residual', {
+          tax_rates: '',
+        });
+
+        expect(result.invoiceItem).toBe(mockInvoiceItem);
+        expect(result.residualItem).toBe(mockResidualItem);
+        expect(Math.abs(result.residualDiscount)).toBe(1);
+        expect(result.finalTotal).toBe(1101);
+      });
+
+      it('should not create a residual item when the target is reachable', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(mockInvoice);
+        vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+          { id: 'ii_main' } as Stripe.Response<Stripe.InvoiceItem>
+        );
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 1100,
+          taxRate: 0.1,
+          roundMode: 'ceil',
+          allowResidual: true,
+        });
+
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledTimes(1);
+        expect(result.residualItem).toBeUndefined();
+        expect(result.residualDiscount).toBe(0);
+      });
+    });
+
+    describe('tax rate from the invoice', () => {
+      const taxRate = (id: string, percentage: number, inclusive = false) =>
+        ({ id, percentage, inclusive }) as Stripe.TaxRate;
+
+      beforeEach(() => {
+        vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+          { id: 'ii_test123' } as Stripe.Response<Stripe.InvoiceItem>
+        );
+      });
+
+      it('should use the default tax rate when taxRate is omitted', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 290000,
+          customer: 'cus_test123',
+          currency: 'jpy',
+          default_tax_rates: [taxRate('txr_10', 10)],
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 315000,
+        });
+
+        expect(result.discount).toBe(3636);
+        expect(result.taxRate).toEqual({ numerator: 1, denominator: 10 });
+        expect(result.pricingMode).toBe('exclusive');
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(
+          expect.objectContaining({ amount: -3636, tax_rates: ['txr_10'] })
+        );
+      });
+
+      it('should fit inclusive tax rates in inclusive mode', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 11000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          lines: {
+            data: [{ id: 'il_1', amount: 11000, tax_rates: [taxRate('txr_10i', 10, true)] }],
+            has_more: false,
+          },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 9900,
+        });
+
+        expect(result.pricingMode).toBe('inclusive');
+        expect(result.discount).toBe(1100);
+        expect(result.taxAmount).toBe(900);
+        expect(result.finalTotal).toBe(9900);
+      });
+
+      it('should accept a taxRate that matches the invoice', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 10000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          default_tax_rates: [taxRate('txr_825', 8.25)],
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 10000,
+          taxRate: 0.0825,
+        });
+
+        expect(result.taxRate).toBe(0.0825);
+      });
+
+      it('should throw when taxRate disagrees with the invoice', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 10000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          default_tax_rates: [taxRate('txr_8', 8)],
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 11000,
+            taxRate: 0.1,
+          })
+        ).rejects.toThrow('Tax rate 0.1 does not match the tax rate on invoice in_test123 (0.08).');
+        expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+      });
+
+      it('should throw when the rate is neither given nor on the invoice', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 10000,
+          customer: 'cus_test123',
+          currency: 'usd',
+        } as Stripe.Response<Stripe.Invoice>);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 11000,
+          })
+        ).rejects.toThrow(
+          'Invoice in_test123 has no tax rates. Pass taxRate to calculate the adjustment.'
+        );
+      });
+
+      it('should throw when the invoice mixes rates', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 20000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          lines: {
+            data: [
+              { id: 'il_1', amount: 10000, tax_rates: [taxRate('txr_8', 8)] },
+              { id: 'il_2', amount: 10000, tax_rates: [taxRate('txr_10', 10)] },
+            ],
+            has_more: false,
+          },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 21000,
+          })
+        ).rejects.toThrow('Invoice in_test123 mixes tax rates (8% and 10%)');
+      });
+    });
+
+    describe('re-applying adjustments', () => {
+      const originalLine = {
+        id: 'il_1',
+        amount: 290000,
+        tax_rates: [],
+        metadata: {},
+      };
+      const adjustmentLine = (itemId: string, amount: number, metadata = {}) => ({
+        id: `il_${itemId}`,
+        amount,
+        invoice_item: itemId,
+        tax_rates: [],
+        metadata: { tax_fitter_adjustment: 'true', ...metadata },
+      });
+      const invoiceWith = (adjustmentLines: ReturnType<typeof adjustmentLine>[]) =>
+        ({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal:
+            290000 + adjustmentLines.reduce((sum, line) => sum + line.amount, 0),
+          customer: 'cus_test123',
+          currency: 'jpy',
+          lines: { data: [originalLine, ...adjustmentLines], has_more: false },
+        }) as unknown as Stripe.Response<Stripe.Invoice>;
+
+      beforeEach(() => {
+        vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+          { id: 'ii_new' } as Stripe.Response<Stripe.InvoiceItem>
+        );
+        vi.spyOn(mockStripe.invoiceItems, 'update').mockImplementation(
+          async (id) => ({ id }) as Stripe.Response<Stripe.InvoiceItem>
+        );
+        vi.spyOn(mockStripe.invoiceItems, 'del').mockImplementation(
+          async (id) => ({ id, deleted: true }) as Stripe.Response<Stripe.DeletedInvoiceItem>
+        );
+      });
+
+      it('should update the earlier item instead of stacking a new one', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+          invoiceWith([adjustmentLine('ii_old', -3636)])
+        );
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 315000,
+          taxRate: 0.1,
+        });
+
+        // Calculated from the subtotal before the earlier adjustment
+        expect(result.discount).toBe(3636);
+        expect(result.invoiceItem?.id).toBe('ii_old');
+        expect(result.replacedItems).toBe(1);
+        expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+        expect(mockStripe.invoiceItems.update).toHaveBeenCalledWith('ii_old', {
+          amount: -3636,
+          description: 'Tax adjustment',
+          discountable: false,
+          metadata: expect.objectContaining({
+            tax_fitter_adjustment: 'true',
+            original_subtotal: '290000',
+            calculated_discount: '3636',
+          }),
+        });
+      });
+
+      it('should refit when the target changes', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+          invoiceWith([adjustmentLine('ii_old', -3636)])
+        );
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 308000,
+          taxRate: 0.1,
+        });
+
+        expect(result.discount).toBe(10000);
+        expect(mockStripe.invoiceItems.update).toHaveBeenCalledWith(
+          'ii_old',
+          expect.objectContaining({ amount: -10000 })
+        );
+      });
+
+      it('should delete stacked duplicates and residuals that are no longer needed', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+          invoiceWith([
+            adjustmentLine('ii_first', -3636),
+            adjustmentLine('ii_second', -3636),
+            adjustmentLine('ii_residual', -1, { tax_fitter_residual: 'true' }),
+          ])
+        );
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 315000,
+          taxRate: 0.1,
+        });
+
+        expect(result.invoiceItem?.id).toBe('ii_first');
+        expect(result.residualItem).toBeUndefined();
+        expect(result.replacedItems).toBe(3);
+        expect(mockStripe.invoiceItems.del).toHaveBeenCalledWith('ii_second');
+        expect(mockStripe.invoiceItems.del).toHaveBeenCalledWith('ii_residual');
+        expect(mockStripe.invoiceItems.del).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reuse an earlier residual item', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 999,
+          customer: 'cus_test123',
+          currency: 'usd',
+          lines: {
+            data: [
+              { id: 'il_1', amount: 1000, tax_rates: [], metadata: {} },
+              adjustmentLine('ii_residual', -1, { tax_fitter_residual: 'true' }),
+            ],
+            has_more: false,
+          },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 1101,
+          taxRate: 0.1,
+          roundMode: 'ceil',
+          allowResidual: true,
+        });
+
+        expect(result.residualDiscount).not.toBe(0);
+        expect(result.residualItem?.id).toBe('ii_residual');
+        expect(mockStripe.invoiceItems.update).toHaveBeenCalledWith(
+          'ii_residual',
+          expect.objectContaining({ tax_rates: '', discountable: false })
+        );
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledTimes(1);
+      });
+
+      it('should pass idempotency keys to Stripe', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+          invoiceWith([adjustmentLine('ii_first', -3636), adjustmentLine('ii_second', -3636)])
+        );
+
+        await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 315000,
+          taxRate: 0.1,
+          idempotencyKey: 'order-42',
+        });
+
+        expect(mockStripe.invoiceItems.update).toHaveBeenCalledWith(
+          'ii_first',
+          expect.any(Object),
+          { idempotencyKey: 'order-42:adjustment' }
+        );
+        expect(mockStripe.invoiceItems.del).toHaveBeenCalledWith('ii_second', {
+          idempotencyKey: 'order-42:delete:ii_second',
+        });
+      });
+
+      it('should pass the idempotency key when creating items', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(invoiceWith([]));
+
+        await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 315000,
+          taxRate: 0.1,
+          idempotencyKey: 'order-42',
+        });
+
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(
+          expect.objectContaining({ amount: -3636 }),
+          { idempotencyKey: 'order-42:adjustment' }
+        );
+      });
+    });
+
+    describe('per-line allocation', () => {
+      const line = (id: string, amount: number, description: string) =>
+        ({
+          id,
+          amount,
+          description,
+          tax_rates: [{ id: 'txr_10', percentage: 10, inclusive: false }],
+        }) as Stripe.InvoiceLineItem;
+
+      beforeEach(() => {
+        vi.spyOn(mockStripe.invoiceItems, 'create').mockImplementation(
+          async (params) =>
+            ({ id: `ii_${String(params.amount)}` }) as Stripe.Response<Stripe.InvoiceItem>
+        );
+      });
+
+      it('should create one item per line in proportion to the line amounts', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 30000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          lines: {
+            data: [line('il_1', 20000, 'Widget'), line('il_2', 10000, 'Gadget')],
+            has_more: false,
+          },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 29700,
+          taxRate: 0.1,
+          allocation: 'per-line',
+        });
+
+        expect(result.discount).toBe(3000);
+        expect(result.allocatedItems?.map((item) => [item.lineId, item.discount])).toEqual([
+          ['il_1', 2000],
+          ['il_2', 1000],
+        ]);
+        expect(result.invoiceItem?.id).toBe('ii_-2000');
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledTimes(2);
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            amount: -2000,
+            description: 'Tax adjustment: Widget',
+            tax_rates: ['txr_10'],
+            metadata: expect.objectContaining({
+              tax_fitter_adjustment: 'true',
+              allocated_line: 'il_1',
+              allocated_discount: '2000',
+            }),
+          })
+        );
+      });
+
+      it('should allocate across lines with an inclusive default rate', async () => {
+        const inclusiveLine = (id: string, amount: number, description: string) =>
+          ({ id, amount, description, tax_rates: [] }) as unknown as Stripe.InvoiceLineItem;
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 11000,
+          customer: 'cus_test123',
+          currency: 'jpy',
+          default_tax_rates: [{ id: 'txr_incl', percentage: 10, inclusive: true }],
+          lines: {
+            data: [inclusiveLine('il_1', 6600, 'Widget'), inclusiveLine('il_2', 4400, 'Gadget')],
+            has_more: false,
+          },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 10000,
+          allocation: 'per-line',
+        });
+
+        expect(result.pricingMode).toBe('inclusive');
+        expect(result.finalTotal).toBe(10000);
+        expect(result.allocatedItems?.map((item) => [item.lineId, item.discount])).toEqual([
+          ['il_1', 600],
+          ['il_2', 400],
+        ]);
+      });
+
+      it('should page through lines not embedded in the invoice', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 30000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          lines: { data: [line('il_1', 15000, 'Widget')], has_more: true },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+        vi.spyOn(mockStripe.invoices, 'listLineItems').mockResolvedValue({
+          data: [line('il_2', 15000, 'Gadget')],
+          has_more: false,
+        } as unknown as Awaited<ReturnType<Stripe['invoices']['listLineItems']>>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 29700,
+          taxRate: 0.1,
+          allocation: 'per-line',
+        });
+
+        expect(mockStripe.invoices.listLineItems).toHaveBeenCalledWith('in_test123', {
+          limit: 100,
+          starting_after: 'il_1',
+        });
+        expect(result.allocatedItems?.map((item) => item.discount)).toEqual([1500, 1500]);
+      });
+
+      it('should create a single item when there is nothing to allocate', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 1000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          lines: { data: [line('il_1', 1000, 'Widget')], has_more: false },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        const result = await taxFitter.applyAdjustment({
+          invoiceId: 'in_test123',
+          targetTotal: 1100,
+          taxRate: 0.1,
+          allocation: 'per-line',
+        });
+
+        expect(result.discount).toBe(0);
+        expect(result.allocatedItems).toBeUndefined();
+        expect(mockStripe.invoiceItems.create).toHaveBeenCalledTimes(1);
+      });
+
+      it('should throw when no line can take the discount', async () => {
+        vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+          id: 'in_test123',
+          status: 'draft',
+          subtotal: 1000,
+          customer: 'cus_test123',
+          currency: 'usd',
+          lines: { data: [], has_more: false },
+        } as unknown as Stripe.Response<Stripe.Invoice>);
+
+        await expect(
+          taxFitter.applyAdjustment({
+            invoiceId: 'in_test123',
+            targetTotal: 990,
+            taxRate: 0.1,
+            allocation: 'per-line',
+          })
+        ).rejects.toThrow('Failed to allocate adjustment across invoice in_test123 lines');
+        expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
+
+describe('TaxFitter.applyAdjustment with existing discounts and credits', () => {
+  let mockStripe: Stripe;
+  let taxFitter: TaxFitter;
+
+  const taxed = { id: 'txr_10', percentage: 10, inclusive: false };
+  const invoice = (fields: object) =>
+    ({
+      id: 'in_test123',
+      status: 'draft',
+      subtotal: 30000,
+      customer: 'cus_test123',
+      currency: 'usd',
+      lines: {
+        data: [{ id: 'il_1', amount: 30000, tax_rates: [taxed], metadata: {} }],
+        has_more: false,
+      },
+      ...fields,
+    }) as unknown as Stripe.Response<Stripe.Invoice>;
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+    taxFitter = new TaxFitter(mockStripe);
+    vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+      { id: 'ii_new' } as Stripe.Response<Stripe.InvoiceItem>
+    );
+  });
+
+  it('should subtract existing discounts from the taxable subtotal', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+      invoice({ total_discount_amounts: [{ amount: 3000, discount: 'di_1' }] })
+    );
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 28600,
+    });
+
+    // 27000 after the coupon, 26000 + 10% = 28600
+    expect(result.discount).toBe(1000);
+    expect(result.finalTotal).toBe(28600);
+    expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: -1000, discountable: false })
+    );
+  });
+
+  it('should leave lines without tax rates out of the taxable subtotal', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+      invoice({
+        lines: {
+          data: [
+            { id: 'il_1', amount: 20000, tax_rates: [taxed], metadata: {} },
+            {
+              id: 'il_2',
+              amount: 10000,
+              tax_rates: [],
+              metadata: {},
+              discount_amounts: [{ amount: 500, discount: 'di_1' }],
+            },
+          ],
+          has_more: false,
+        },
+        total_discount_amounts: [{ amount: 500, discount: 'di_1' }],
+      })
+    );
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 30400,
+    });
+
+    // 9500 untaxed, 19000 + 10% = 20900
+    expect(result.untaxedAmount).toBe(9500);
+    expect(result.discount).toBe(1000);
+    expect(result.finalTotal).toBe(30400);
+  });
+
+  it('should ignore discounts from an earlier adjustment coupon', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+      invoice({
+        discounts: [
+          { id: 'di_old', coupon: { id: 'co_old', metadata: { tax_fitter_adjustment: 'true' } } },
+        ],
+        total_discount_amounts: [{ amount: 2000, discount: 'di_old' }],
+      })
+    );
+    vi.spyOn(mockStripe.invoices, 'update').mockResolvedValue(invoice({}));
+
+    const plan = await taxFitter.previewAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 29700,
+    });
+
+    expect(plan.subtotal).toBe(30000);
+    expect(plan.discount).toBe(3000);
+  });
+
+  it('should fit the amount due after the customer balance', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(
+      invoice({ starting_balance: -3000, amount_paid: 0 })
+    );
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 26700,
+      fitTo: 'amount_due',
+    });
+
+    // A total of 29700 leaves 26700 due after the 3000 credit
+    expect(result.discount).toBe(3000);
+    expect(result.finalTotal).toBe(29700);
+    expect(result.amountDue).toBe(26700);
+  });
+
+  it('should verify the amount due when fitting it', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockResolvedValueOnce(invoice({ starting_balance: -3000 }))
+      .mockResolvedValueOnce(invoice({ total: 29700, amount_due: 26700 }));
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 26700,
+      fitTo: 'amount_due',
+      verify: true,
+    });
+
+    expect(result.amountDue).toBe(26700);
+  });
+});
+
+describe('TaxFitter.applyAdjustment with verify', () => {
+  let mockStripe: Stripe;
+  let taxFitter: TaxFitter;
+
+  const draftInvoice = {
+    id: 'in_test123',
+    status: 'draft',
+    subtotal: 290000,
+    customer: 'cus_test123',
+    currency: 'jpy',
+  } as Stripe.Response<Stripe.Invoice>;
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+    taxFitter = new TaxFitter(mockStripe);
+    vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+      { id: 'ii_new' } as Stripe.Response<Stripe.InvoiceItem>
+    );
+    vi.spyOn(mockStripe.invoiceItems, 'update').mockImplementation(
+      async (id) => ({ id }) as Stripe.Response<Stripe.InvoiceItem>
+    );
+    vi.spyOn(mockStripe.invoiceItems, 'del').mockImplementation(
+      async (id) => ({ id, deleted: true }) as Stripe.Response<Stripe.DeletedInvoiceItem>
+    );
+  });
+
+  it('should return the result when Stripe reaches the target', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockResolvedValueOnce(draftInvoice)
+      .mockResolvedValueOnce({ ...draftInvoice, total: 315000 });
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 315000,
+      taxRate: 0.1,
+      verify: true,
+    });
+
+    expect(result.finalTotal).toBe(315000);
+    expect(mockStripe.invoices.retrieve).toHaveBeenCalledTimes(2);
+    expect(mockStripe.invoices.retrieve).toHaveBeenLastCalledWith('in_test123', {
+      expand: ['discounts'],
+    });
+    expect(mockStripe.invoiceItems.del).not.toHaveBeenCalled();
+  });
+
+  it('should not retrieve the invoice again without verify', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+
+    await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 315000,
+      taxRate: 0.1,
+    });
+
+    expect(mockStripe.invoices.retrieve).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete the created item and throw when the totals differ', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockResolvedValueOnce(draftInvoice)
+      .mockResolvedValueOnce({ ...draftInvoice, total: 314999 });
+
+    const error = await taxFitter
+      .applyAdjustment({
+        invoiceId: 'in_test123',
+        targetTotal: 315000,
+        taxRate: 0.1,
+        verify: true,
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AdjustmentMismatchError);
+    expect(error).toMatchObject({
+      invoiceId: 'in_test123',
+      expectedTotal: 315000,
+      actualTotal: 314999,
+      rolledBack: true,
+      message:
+        'Invoice in_test123 total 314999 does not match target total 315000. ' +
+        'The adjustment was rolled back.',
+    });
+    expect(mockStripe.invoiceItems.del).toHaveBeenCalledWith('ii_new');
+  });
+
+  it('should restore the amount of an updated earlier item', async () => {
+    const withEarlierItem = {
+      ...draftInvoice,
+      subtotal: 289000,
+      lines: {
+        data: [
+          { id: 'il_1', amount: 290000, tax_rates: [], metadata: {} },
+          {
+            id: 'il_2',
+            amount: -1000,
+            invoice_item: 'ii_old',
+            tax_rates: [],
+            metadata: { tax_fitter_adjustment: 'true' },
+          },
+        ],
+        has_more: false,
+      },
+    } as unknown as Stripe.Response<Stripe.Invoice>;
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockResolvedValueOnce(withEarlierItem)
+      .mockResolvedValueOnce({ ...withEarlierItem, total: 315001 });
+
+    await expect(
+      taxFitter.applyAdjustment({
+        invoiceId: 'in_test123',
+        targetTotal: 315000,
+        taxRate: 0.1,
+        verify: true,
+        idempotencyKey: 'order-42',
+      })
+    ).rejects.toThrow(AdjustmentMismatchError);
+
+    expect(mockStripe.invoiceItems.update).toHaveBeenLastCalledWith(
+      'ii_old',
+      { amount: -1000 },
+      { idempotencyKey: 'order-42:rollback:ii_old' }
+    );
+    expect(mockStripe.invoiceItems.del).not.toHaveBeenCalled();
+  });
+
+  it('should report when the rollback fails', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockResolvedValueOnce(draftInvoice)
+      .mockResolvedValueOnce({ ...draftInvoice, total: 314999 });
+    vi.spyOn(mockStripe.invoiceItems, 'del').mockRejectedValue(new Error('Network error'));
+
+    await expect(
+      taxFitter.applyAdjustment({
+        invoiceId: 'in_test123',
+        targetTotal: 315000,
+        taxRate: 0.1,
+        verify: true,
+      })
+    ).rejects.toMatchObject({
+      rolledBack: false,
+      message: expect.stringContaining('could not be rolled back'),
+    });
+  });
+});
+
+describe('TaxFitter.applyAdjustment with the coupon strategy', () => {
+  let mockStripe: Stripe;
+  let taxFitter: TaxFitter;
+
+  const draftInvoice = {
+    id: 'in_test123',
+    status: 'draft',
+    subtotal: 290000,
+    customer: 'cus_test123',
+    currency: 'jpy',
+  } as Stripe.Response<Stripe.Invoice>;
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+    taxFitter = new TaxFitter(mockStripe);
+    vi.spyOn(mockStripe.coupons, 'create').mockResolvedValue(
+      { id: 'co_new' } as Stripe.Response<Stripe.Coupon>
+    );
+    vi.spyOn(mockStripe.coupons, 'del').mockImplementation(
+      async (id) => ({ id, deleted: true }) as Stripe.Response<Stripe.DeletedCoupon>
+    );
+    vi.spyOn(mockStripe.invoices, 'update').mockImplementation(
+      async (id) => ({ ...draftInvoice, id }) as Stripe.Response<Stripe.Invoice>
+    );
+    vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+      { id: 'ii_new' } as Stripe.Response<Stripe.InvoiceItem>
+    );
+    vi.spyOn(mockStripe.invoiceItems, 'del').mockImplementation(
+      async (id) => ({ id, deleted: true }) as Stripe.Response<Stripe.DeletedInvoiceItem>
+    );
+  });
+
+  it('should create a one-off coupon and attach it to the invoice', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 300000,
+      taxRate: 0.1,
+      strategy: 'coupon',
+    });
+
+    expect(result.discount).toBeGreaterThan(0);
+    expect(mockStripe.coupons.create).toHaveBeenCalledWith({
+      amount_off: result.discount,
+      currency: 'jpy',
+      duration: 'once',
+      max_redemptions: 1,
+      name: 'Tax adjustment',
+      metadata: expect.objectContaining({
+        tax_fitter_adjustment: 'true',
+        calculated_discount: result.discount.toString(),
+      }),
+    });
+    expect(mockStripe.invoices.update).toHaveBeenCalledWith('in_test123', {
+      discounts: [{ coupon: 'co_new' }],
+    });
+    expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+    expect(result.coupon?.id).toBe('co_new');
+    expect(result.invoiceItem).toBeUndefined();
+  });
+
+  it('should keep other discounts and replace an earlier adjustment coupon', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      ...draftInvoice,
+      discounts: [
+        'di_string',
+        { id: 'di_other', coupon: { id: 'co_other', metadata: {} } },
+        { id: 'di_old', coupon: { id: 'co_old', metadata: { tax_fitter_adjustment: 'true' } } },
+      ],
+    } as unknown as Stripe.Response<Stripe.Invoice>);
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 300000,
+      taxRate: 0.1,
+      strategy: 'coupon',
+      idempotencyKey: 'order-42',
+    });
+
+    expect(mockStripe.invoices.update).toHaveBeenCalledWith(
+      'in_test123',
+      {
+        discounts: [{ discount: 'di_string' }, { discount: 'di_other' }, { coupon: 'co_new' }],
+      },
+      { idempotencyKey: 'order-42:discounts' }
+    );
+    expect(mockStripe.coupons.create).toHaveBeenCalledWith(expect.any(Object), {
+      idempotencyKey: 'order-42:coupon',
+    });
+    expect(result.replacedItems).toBe(1);
+  });
+
+  it('should expand discounts to recognize an earlier adjustment coupon', async () => {
+    const oldDiscount = {
+      id: 'di_old',
+      coupon: { id: 'co_old', metadata: { tax_fitter_adjustment: 'true' } },
+    };
+    // Like the API, return bare discount IDs unless the discounts are expanded
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockImplementation(async (_id, params) => {
+      const { expand = [] } = (params ?? {}) as Stripe.InvoiceRetrieveParams;
+      return {
+        ...draftInvoice,
+        discounts: expand.includes('discounts') ? [oldDiscount] : ['di_old'],
+      } as unknown as Stripe.Response<Stripe.Invoice>;
+    });
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 300000,
+      taxRate: 0.1,
+      strategy: 'coupon',
+    });
+
+    expect(mockStripe.invoices.update).toHaveBeenCalledWith('in_test123', {
+      discounts: [{ coupon: 'co_new' }],
+    });
+    expect(result.replacedItems).toBe(1);
+  });
+
+  it('should delete an earlier adjustment item when switching to a coupon', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      ...draftInvoice,
+      subtotal: 289000,
+      lines: {
+        data: [
+          { id: 'il_1', amount: 290000, tax_rates: [], metadata: {} },
+          {
+            id: 'il_2',
+            amount: -1000,
+            invoice_item: 'ii_old',
+            tax_rates: [],
+            metadata: { tax_fitter_adjustment: 'true' },
+          },
+        ],
+        has_more: false,
+      },
+    } as unknown as Stripe.Response<Stripe.Invoice>);
+
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 300000,
+      taxRate: 0.1,
+      strategy: 'coupon',
+    });
+
+    expect(mockStripe.invoiceItems.del).toHaveBeenCalledWith('ii_old');
+    expect(result.replacedItems).toBe(1);
+  });
+
+  it('should clear the discounts when only an earlier coupon is removed', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      ...draftInvoice,
+      discounts: [
+        { id: 'di_old', coupon: { id: 'co_old', metadata: { tax_fitter_adjustment: 'true' } } },
+      ],
+    } as unknown as Stripe.Response<Stripe.Invoice>);
+
+    // A surcharge cannot be a coupon
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 330000,
+      taxRate: 0.1,
+      strategy: 'coupon',
+    });
+
+    expect(result.discount).toBeLessThan(0);
+    expect(mockStripe.coupons.create).not.toHaveBeenCalled();
+    expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: -result.discount })
+    );
+    expect(mockStripe.invoices.update).toHaveBeenCalledWith('in_test123', { discounts: '' });
+  });
+
+  it('should reject per-line allocation', async () => {
+    await expect(
+      taxFitter.applyAdjustment({
+        invoiceId: 'in_test123',
+        targetTotal: 300000,
+        taxRate: 0.1,
+        strategy: 'coupon',
+        allocation: 'per-line',
+      })
+    ).rejects.toThrow("Use allocation 'lump' with the 'coupon' strategy.");
+    expect(mockStripe.invoices.retrieve).not.toHaveBeenCalled();
+  });
+
+  it('should reject invoices with discountable untaxed lines', async () => {
+    const taxed = { id: 'txr_10', percentage: 10, inclusive: false };
+    const linesWith = (untaxed: object) => ({
+      data: [
+        { id: 'il_1', amount: 280000, tax_rates: [taxed], metadata: {} },
+        { id: 'il_2', amount: 10000, tax_rates: [], metadata: {}, ...untaxed },
+      ],
+      has_more: false,
+    });
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockResolvedValueOnce({
+        ...draftInvoice,
+        lines: linesWith({ discountable: true }),
+      } as unknown as Stripe.Response<Stripe.Invoice>)
+      .mockResolvedValueOnce({
+        ...draftInvoice,
+        lines: linesWith({ discountable: false }),
+      } as unknown as Stripe.Response<Stripe.Invoice>);
+
+    await expect(
+      taxFitter.applyAdjustment({ invoiceId: 'in_test123', targetTotal: 300000, strategy: 'coupon' })
+    ).rejects.toThrow(InvalidInputError);
+    expect(mockStripe.coupons.create).not.toHaveBeenCalled();
+
+    // Lines the coupon cannot reach are fine
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 300000,
+      strategy: 'coupon',
+    });
+    expect(result.coupon?.id).toBe('co_new');
+  });
+
+  it('should restore the discounts and delete the coupon on a mismatch', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockResolvedValueOnce({ ...draftInvoice, discounts: ['di_string'] })
+      .mockResolvedValueOnce({ ...draftInvoice, total: 299999 });
+
+    await expect(
+      taxFitter.applyAdjustment({
+        invoiceId: 'in_test123',
+        targetTotal: 300000,
+        taxRate: 0.1,
+        strategy: 'coupon',
+        verify: true,
+      })
+    ).rejects.toMatchObject({ rolledBack: true });
+
+    expect(mockStripe.invoices.update).toHaveBeenLastCalledWith('in_test123', {
+      discounts: [{ discount: 'di_string' }],
+    });
+    expect(mockStripe.coupons.del).toHaveBeenCalledWith('co_new');
+  });
+});
+
+describe('TaxFitter.applyAdjustment with explain', () => {
+  let mockStripe: Stripe;
+  let taxFitter: TaxFitter;
+
+  const draftInvoice = {
+    id: 'in_test123',
+    status: 'draft',
+    subtotal: 40000,
+    customer: 'cus_test123',
+    currency: 'jpy',
+  } as Stripe.Response<Stripe.Invoice>;
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+    taxFitter = new TaxFitter(mockStripe);
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+    vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+      { id: 'ii_new' } as Stripe.Response<Stripe.InvoiceItem>
+    );
+    vi.spyOn(mockStripe.coupons, 'create').mockResolvedValue(
+      { id: 'co_new' } as Stripe.Response<Stripe.Coupon>
+    );
+    vi.spyOn(mockStripe.invoices, 'update').mockResolvedValue(draftInvoice);
+  });
+
+  it('should return the trace and store its summary in the item metadata', async () => {
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 40000,
+      taxRate: 0.1,
+      explain: true,
+    });
+
+    expect(result.discount).toBe(3636);
+    expect(result.trace?.selected.discount).toBe(3636);
+    expect(result.trace?.reason).toBe('Only a discount of 3636 reaches the target total 40000');
+
+    const metadata = vi.mocked(mockStripe.invoiceItems.create).mock.calls[0]?.[0].metadata;
+    const summary = (metadata as Record<string, string> | undefined)?.tax_fitter_trace;
+    expect(summary).toMatch(/^subtotal=40000 target=40000 rate=1\/10 .* discount=3636 /);
+    expect(summary?.length).toBeLessThanOrEqual(500);
+  });
+
+  it('should store the summary on the coupon with the coupon strategy', async () => {
+    await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 40000,
+      taxRate: 0.1,
+      strategy: 'coupon',
+      explain: true,
+    });
+
+    expect(mockStripe.coupons.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({
+          tax_fitter_trace: expect.stringContaining('discount=3636'),
+        }),
+      })
+    );
+  });
+
+  it('should not trace by default', async () => {
+    const result = await taxFitter.applyAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 40000,
+      taxRate: 0.1,
+    });
+
+    expect(result.trace).toBeUndefined();
+    const metadata = vi.mocked(mockStripe.invoiceItems.create).mock.calls[0]?.[0].metadata;
+    expect(metadata).not.toHaveProperty('tax_fitter_trace');
+  });
+});
+
+describe('TaxFitter error classes', () => {
+  let mockStripe: Stripe;
+  let taxFitter: TaxFitter;
+
+  const draftInvoice = {
+    id: 'in_test123',
+    status: 'draft',
+    subtotal: 290000,
+    customer: 'cus_test123',
+    currency: 'jpy',
+  } as Stripe.Response<Stripe.Invoice>;
+
+  const apply = (fields: object, options: object = {}) => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      ...draftInvoice,
+      ...fields,
+    } as Stripe.Response<Stripe.Invoice>);
+    return taxFitter
+      .applyAdjustment({ invoiceId: 'in_test123', targetTotal: 315000, taxRate: 0.1, ...options })
+      .catch((caught: unknown) => caught);
+  };
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+    taxFitter = new TaxFitter(mockStripe);
+  });
+
+  it('should throw InvoiceNotDraftError for finalized invoices', async () => {
+    const error = await apply({ status: 'open' });
+
+    expect(error).toBeInstanceOf(InvoiceNotDraftError);
+    expect(error).toMatchObject({
+      code: 'INVOICE_NOT_DRAFT',
+      invoiceId: 'in_test123',
+      status: 'open',
+    });
+  });
+
+  it('should throw ZeroSubtotalError and MissingCustomerError', async () => {
+    expect(await apply({ subtotal: 0 })).toBeInstanceOf(ZeroSubtotalError);
+    expect(await apply({ customer: null })).toMatchObject({ code: 'MISSING_CUSTOMER' });
+    expect(await apply({ customer: null })).toBeInstanceOf(MissingCustomerError);
+  });
+
+  it('should throw InvalidInputError for invalid options and tax setups', async () => {
+    expect(await apply({}, { targetTotal: 315000.5 })).toBeInstanceOf(InvalidInputError);
+
+    const automaticTax = await apply({ automatic_tax: { enabled: true } }, { taxRate: undefined });
+    expect(automaticTax).toMatchObject({ code: 'INVALID_INPUT', invoiceId: 'in_test123' });
+  });
+
+  it('should throw TargetUnreachableError when no discount reaches the target', async () => {
+    // 1101 is skipped with ceil rounding
+    const error = await apply(
+      { subtotal: 2000, currency: 'usd' },
+      { targetTotal: 1101, roundMode: 'ceil' }
+    );
+
+    expect(error).toBeInstanceOf(TargetUnreachableError);
+    expect(error).toMatchObject({
+      code: 'TARGET_UNREACHABLE',
+      message: expect.stringContaining('Failed to calculate valid adjustment'),
+    });
+  });
+
+  it('should wrap Stripe failures in StripeApiError', async () => {
+    const stripeError = Object.assign(new Error('No such invoice'), { statusCode: 404 });
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockRejectedValue(stripeError);
+
+    const error = await taxFitter
+      .applyAdjustment({ invoiceId: 'in_missing', targetTotal: 315000, taxRate: 0.1 })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(StripeApiError);
+    expect(error).toMatchObject({
+      code: 'STRIPE_API_ERROR',
+      invoiceId: 'in_missing',
+      statusCode: 404,
+      cause: stripeError,
+      message: 'Stripe request for invoice in_missing failed: No such invoice',
+    });
+  });
+});
+
+describe('TaxFitter.applyAdjustments', () => {
+  let mockStripe: Stripe;
+  let taxFitter: TaxFitter;
+
+  const invoiceFor = (id: string) =>
+    ({
+      id,
+      status: 'draft',
+      subtotal: 290000,
+      customer: 'cus_test123',
+      currency: 'jpy',
+    }) as Stripe.Response<Stripe.Invoice>;
+
+  const rateLimitError = Object.assign(new Error('Too many requests'), {
+    type: 'StripeRateLimitError',
+    statusCode: 429,
+  });
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+    taxFitter = new TaxFitter(mockStripe);
+    vi.spyOn(mockStripe.invoiceItems, 'create').mockImplementation(
+      async (params) => ({ id: `ii_${params.invoice}` }) as Stripe.Response<Stripe.InvoiceItem>
+    );
+  });
+
+  it('should report each invoice in input order', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockImplementation(async (id) =>
+      id === 'in_open' ? { ...invoiceFor(id), status: 'open' } : invoiceFor(id)
+    );
+
+    const report = await taxFitter.applyAdjustments([
+      { invoiceId: 'in_1', targetTotal: 315000, taxRate: 0.1 },
+      { invoiceId: 'in_open', targetTotal: 315000, taxRate: 0.1 },
+      { invoiceId: 'in_2', targetTotal: 300000, taxRate: 0.1 },
+    ]);
+
+    expect(report.succeeded).toBe(2);
+    expect(report.failed).toBe(1);
+    expect(report.outcomes.map((outcome) => outcome.invoiceId)).toEqual([
+      'in_1',
+      'in_open',
+      'in_2',
+    ]);
+    expect(report.outcomes[0]).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(report.outcomes[1]).toMatchObject({
+      status: 'failed',
+      error: expect.objectContaining({ message: expect.stringContaining('not in draft state') }),
+    });
+    expect(report.outcomes[2]?.status === 'succeeded' && report.outcomes[2].result.finalTotal).toBe(
+      300000
+    );
+  });
+
+  it('should limit the number of invoices adjusted at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockImplementation(async (id) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return invoiceFor(id);
+    });
+
+    const adjustments = Array.from({ length: 7 }, (_, index) => ({
+      invoiceId: `in_${index}`,
+      targetTotal: 315000,
+      taxRate: 0.1,
+    }));
+    const report = await taxFitter.applyAdjustments(adjustments, { concurrency: 3 });
+
+    expect(report.succeeded).toBe(7);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should retry rate-limited invoices', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve')
+      .mockRejectedValueOnce(rateLimitError)
+      .mockRejectedValueOnce(rateLimitError)
+      .mockResolvedValue(invoiceFor('in_1'));
+
+    const report = await taxFitter.applyAdjustments(
+      [{ invoiceId: 'in_1', targetTotal: 315000, taxRate: 0.1 }],
+      { retryDelay: 0 }
+    );
+
+    expect(report.outcomes[0]).toMatchObject({ status: 'succeeded', attempts: 3 });
+  });
+
+  it('should give up after maxRetries', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockRejectedValue(rateLimitError);
+
+    const report = await taxFitter.applyAdjustments(
+      [{ invoiceId: 'in_1', targetTotal: 315000, taxRate: 0.1 }],
+      { maxRetries: 2, retryDelay: 0 }
+    );
+
+    expect(report.outcomes[0]).toMatchObject({
+      status: 'failed',
+      error: expect.objectContaining({ code: 'STRIPE_API_ERROR', cause: rateLimitError }),
+      attempts: 3,
+    });
+    expect(mockStripe.invoices.retrieve).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry other errors', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockRejectedValue(new Error('Network error'));
+
+    const report = await taxFitter.applyAdjustments(
+      [{ invoiceId: 'in_1', targetTotal: 315000, taxRate: 0.1 }],
+      { retryDelay: 0 }
+    );
+
+    expect(report.outcomes[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(mockStripe.invoices.retrieve).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid batch options', async () => {
+    await expect(taxFitter.applyAdjustments([], { concurrency: 0 })).rejects.toThrow(
+      'Concurrency must be a positive integer, got 0'
+    );
+    await expect(taxFitter.applyAdjustments([], { maxRetries: -1 })).rejects.toThrow(
+      'maxRetries must be a non-negative integer, got -1'
+    );
+  });
+
+  it('should return an empty report for no invoices', async () => {
+    expect(await taxFitter.applyAdjustments([])).toEqual({
+      outcomes: [],
+      succeeded: 0,
+      failed: 0,
+    });
+  });
+});
+
+describe('TaxFitter.previewAdjustment', () => {
+  let mockStripe: Stripe;
+  let taxFitter: TaxFitter;
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+    taxFitter = new TaxFitter(mockStripe);
+  });
+
+  it('should plan the adjustment without changing the invoice', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      id: 'in_test123',
+      status: 'draft',
+      subtotal: 290000,
+      customer: 'cus_test123',
+      currency: 'jpy',
+    } as Stripe.Response<Stripe.Invoice>);
+
+    const plan = await taxFitter.previewAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 315000,
+      taxRate: 0.1,
+    });
+
+    expect(plan).toMatchObject({
+      invoiceId: 'in_test123',
+      currency: 'jpy',
+      subtotal: 290000,
+      discount: 3636,
+      adjustedSubtotal: 286364,
+      taxAmount: 28636,
+      finalTotal: 315000,
+      amountDue: 315000,
+      untaxedAmount: 0,
+      fitTo: 'total',
+      deletions: [],
+      replacedItems: 0,
+    });
+    expect(plan.items).toEqual([
+      {
+        kind: 'adjustment',
+        action: 'create',
+        params: {
+          invoice: 'in_test123',
+          customer: 'cus_test123',
+          amount: -3636,
+          currency: 'jpy',
+          description: 'Tax adjustment',
+          discountable: false,
+          metadata: {
+            tax_fitter_adjustment: 'true',
+            original_subtotal: '290000',
+            target_total: '315000',
+            calculated_discount: '3636',
+          },
+        },
+      },
+    ]);
+    expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+    expect(mockStripe.invoiceItems.update).not.toHaveBeenCalled();
+    expect(mockStripe.invoiceItems.del).not.toHaveBeenCalled();
+  });
+
+  it('should plan updates, residuals and deletions of earlier items', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      id: 'in_test123',
+      status: 'draft',
+      subtotal: 998,
+      customer: 'cus_test123',
+      currency: 'usd',
+      lines: {
+        data: [
+          { id: 'il_1', amount: 1000, tax_rates: [], metadata: {} },
+          {
+            id: 'il_2',
+            amount: -1,
+            invoice_item: 'ii_old',
+            tax_rates: [],
+            metadata: { tax_fitter_adjustment: 'true' },
+          },
+          {
+            id: 'il_3',
+            amount: -1,
+            invoice_item: 'ii_dup',
+            tax_rates: [],
+            metadata: { tax_fitter_adjustment: 'true' },
+          },
+        ],
+        has_more: false,
+      },
+    } as unknown as Stripe.Response<Stripe.Invoice>);
+
+    const plan = await taxFitter.previewAdjustment({
+      invoiceId: 'in_test123',
+      targetTotal: 1101,
+      taxRate: 0.1,
+      roundMode: 'ceil',
+      allowResidual: true,
+    });
+
+    expect(plan.subtotal).toBe(1000);
+    expect(plan.items.map(({ kind, action, invoiceItemId }) => ({ kind, action, invoiceItemId }))).toEqual([
+      { kind: 'adjustment', action: 'update', invoiceItemId: 'ii_old' },
+      { kind: 'residual', action: 'create', invoiceItemId: undefined },
+    ]);
+    expect(plan.deletions).toEqual(['ii_dup']);
+    expect(plan.replacedItems).toBe(2);
+    expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+  });
+
+  it('should fail the same way as applyAdjustment', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      id: 'in_test123',
+      status: 'open',
+    } as Stripe.Response<Stripe.Invoice>);
+
+    await expect(
+      taxFitter.previewAdjustment({ invoiceId: 'in_test123', targetTotal: 1100, taxRate: 0.1 })
+    ).rejects.toThrow('Invoice in_test123 is not in draft state');
+  });
+
+  it('should be applied exactly as previewed', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      id: 'in_test123',
+      status: 'draft',
+      subtotal: 290000,
+      customer: 'cus_test123',
+      currency: 'jpy',
+    } as Stripe.Response<Stripe.Invoice>);
+    vi.spyOn(mockStripe.invoiceItems, 'create').mockResolvedValue(
+      { id: 'ii_test123' } as Stripe.Response<Stripe.InvoiceItem>
+    );
+    const options = { invoiceId: 'in_test123', targetTotal: 315000, taxRate: 0.1 };
+
+    const plan = await previewStripeAdjustment(mockStripe, options);
+    const result = await taxFitter.applyAdjustment(options);
+
+    expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(plan.items[0]?.params);
+    expect(result.finalTotal).toBe(plan.finalTotal);
+  });
+
+  it('should reject a plan without an adjustment before writing anything', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      id: 'in_test123',
+      status: 'draft',
+      subtotal: 290000,
+      customer: 'cus_test123',
+      currency: 'jpy',
+    } as Stripe.Response<Stripe.Invoice>);
+    const plan = await previewStripeAdjustment(mockStripe, {
+      invoiceId: 'in_test123',
+      targetTotal: 315000,
+      taxRate: 0.1,
+    });
+
+    await expect(executePlan(mockStripe, { ...plan, items: [] }, undefined)).rejects.toThrow(
+      InvalidInputError
+    );
+    expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
   });
 });
 
@@ -367,6 +2012,8 @@ describe('applyStripeAdjustment (functional interface)', () => {
     });
 
     expect(result.invoiceItem).toBe(mockInvoiceItem);
-    expect(mockStripe.invoices.retrieve).toHaveBeenCalledWith('in_test123');
+    expect(mockStripe.invoices.retrieve).toHaveBeenCalledWith('in_test123', {
+        expand: ['discounts'],
+      });
   });
 });
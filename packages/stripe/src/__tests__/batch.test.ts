@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { isRateLimitError, mapWithConcurrency } from '../batch';
+
+describe('mapWithConcurrency', () => {
+  it('should keep results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('should handle more workers than items', async () => {
+    expect(await mapWithConcurrency([1], 10, async (value) => value * 2)).toEqual([2]);
+    expect(await mapWithConcurrency([], 10, async (value) => value)).toEqual([]);
+  });
+});
+
+describe('isRateLimitError', () => {
+  it('should detect Stripe rate-limit errors by type or status', () => {
+    expect(isRateLimitError({ type: 'StripeRateLimitError' })).toBe(true);
+    expect(isRateLimitError({ statusCode: 429 })).toBe(true);
+    expect(isRateLimitError({ code: 'STRIPE_API_ERROR', cause: { type: 'StripeRateLimitError' } })).toBe(
+      true
+    );
+  });
+
+  it('should ignore other errors', () => {
+    expect(isRateLimitError(new Error('Network error'))).toBe(false);
+    expect(isRateLimitError({ type: 'StripeAPIError', statusCode: 500 })).toBe(false);
+    expect(isRateLimitError(null)).toBe(false);
+    expect(isRateLimitError('429')).toBe(false);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import type Stripe from 'stripe';
+import { calculateDocumentAdjustment, fitDocument } from '@tax-fitter/core';
+import { createMockStripe } from '@tax-fitter/test-utils';
+import { StripeBillingAdapter } from '../billing-adapter';
+import { InvoiceNotDraftError } from '../errors';
+
+const taxRate = { id: 'txr_10', percentage: 10, inclusive: false } as Stripe.TaxRate;
+
+const invoiceWith = (fields: object = {}) =>
+  ({
+    id: 'in_test123',
+    status: 'draft',
+    subtotal: 40000,
+    customer: 'cus_test123',
+    currency: 'jpy',
+    default_tax_rates: [taxRate],
+    lines: {
+      data: [{ id: 'il_1', amount: 40000, tax_rates: [], metadata: {} }],
+      has_more: false,
+    },
+    ...fields,
+  }) as unknown as Stripe.Invoice;
+
+describe('StripeBillingAdapter', () => {
+  it('should fit a draft invoice with fitDocument', async () => {
+    const stripe = createMockStripe(invoiceWith());
+
+    const result = await fitDocument(new StripeBillingAdapter(stripe), {
+      documentId: 'in_test123',
+      targetTotal: 40000,
+      metadata: { order: 'A-1' },
+      idempotencyKey: 'order-42',
+    });
+
+    expect(result).toMatchObject({
+      currency: 'jpy',
+      taxRate: { numerator: 1, denominator: 10 },
+      discount: 3636,
+      finalTotal: 40000,
+    });
+    expect(result.written.invoiceItem).toEqual({ id: 'ii_new' });
+    expect(stripe.invoiceItems.create).toHaveBeenCalledWith(
+      {
+        invoice: 'in_test123',
+        customer: 'cus_test123',
+        amount: -3636,
+        currency: 'jpy',
+        description: 'Tax adjustment',
+        tax_rates: ['txr_10'],
+        discountable: false,
+        metadata: {
+          order: 'A-1',
+          tax_fitter_adjustment: 'true',
+          original_subtotal: '40000',
+          target_total: '40000',
+          calculated_discount: '3636',
+        },
+      },
+      { idempotencyKey: 'order-42:adjustment' }
+    );
+  });
+
+  it('should replace an earlier adjustment item', async () => {
+    const stripe = createMockStripe(
+      invoiceWith({
+        subtotal: 39000,
+        lines: {
+          data: [
+            { id: 'il_1', amount: 40000, tax_rates: [], metadata: {} },
+            {
+              id: 'il_2',
+              amount: -1000,
+              invoice_item: 'ii_old',
+              tax_rates: [],
+              metadata: { tax_fitter_adjustment: 'true' },
+            },
+          ],
+          has_more: false,
+        },
+      })
+    );
+
+    const result = await fitDocument(new StripeBillingAdapter(stripe), {
+      documentId: 'in_test123',
+      targetTotal: 40000,
+    });
+
+    expect(result.subtotal).toBe(40000);
+    expect(result.written.replacedItems).toBe(1);
+    expect(stripe.invoiceItems.create).not.toHaveBeenCalled();
+    expect(stripe.invoiceItems.update).toHaveBeenCalledWith(
+      'ii_old',
+      expect.objectContaining({ amount: -3636 })
+    );
+  });
+
+  it('should only adjust draft invoices', async () => {
+    const stripe = createMockStripe(invoiceWith({ status: 'open' }));
+
+    await expect(
+      fitDocument(new StripeBillingAdapter(stripe), { documentId: 'in_test123', targetTotal: 40000 })
+    ).rejects.toThrow(InvoiceNotDraftError);
+    expect(stripe.invoiceItems.create).not.toHaveBeenCalled();
+  });
+
+  it('should read the taxable base on the currency grid', async () => {
+    const adapter = new StripeBillingAdapter(
+      createMockStripe(invoiceWith({ currency: 'kwd' }))
+    );
+
+    const document = await adapter.loadDocument('in_test123');
+
+    expect(adapter.readCurrency(document)).toBe('kwd');
+    expect(adapter.readTaxableBase(document)).toEqual({
+      subtotal: 40000,
+      untaxedAmount: 0,
+      taxRate: { numerator: 1, denominator: 10 },
+      pricingMode: 'exclusive',
+      amountIncrement: 10,
+    });
+  });
+
+  it('should write a coupon when the strategy asks for one', async () => {
+    const stripe = createMockStripe(invoiceWith());
+
+    const result = await fitDocument(new StripeBillingAdapter(stripe, { strategy: 'coupon' }), {
+      documentId: 'in_test123',
+      targetTotal: 40000,
+    });
+
+    expect(result.written.coupon).toEqual({ id: 'co_new' });
+    expect(stripe.coupons.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount_off: 3636, currency: 'jpy' })
+    );
+    expect(stripe.invoices.update).toHaveBeenCalledWith('in_test123', {
+      discounts: [{ coupon: 'co_new' }],
+    });
+    expect(stripe.invoiceItems.create).not.toHaveBeenCalled();
+  });
+
+  it('should plan for the amount due after the customer balance', async () => {
+    // A credit of 4000 is applied to the amount due
+    const adapter = new StripeBillingAdapter(
+      createMockStripe(invoiceWith({ starting_balance: -4000 })),
+      { fitTo: 'amount_due' }
+    );
+
+    const { document, adjustment } = await calculateDocumentAdjustment(adapter, {
+      documentId: 'in_test123',
+      targetTotal: 39000,
+    });
+    const plan = adapter.planAdjustment(document, adjustment);
+
+    expect(plan).toMatchObject({ fitTo: 'amount_due', finalTotal: 43000, amountDue: 39000 });
+    expect(plan.items).toHaveLength(1);
+  });
+});
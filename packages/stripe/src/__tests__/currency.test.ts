@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isZeroDecimalCurrency,
+  getStripeMinorUnits,
+  getStripeAmountIncrement,
+  checkStripeAmount,
+} from '../currency';
+
+describe('isZeroDecimalCurrency', () => {
+  it('should recognise Stripe zero-decimal currencies', () => {
+    expect(isZeroDecimalCurrency('jpy')).toBe(true);
+    expect(isZeroDecimalCurrency('KRW')).toBe(true);
+    expect(isZeroDecimalCurrency('usd')).toBe(false);
+    expect(isZeroDecimalCurrency('isk')).toBe(false);
+  });
+});
+
+describe('getStripeMinorUnits', () => {
+  it('should follow Stripe conventions', () => {
+    expect(getStripeMinorUnits('jpy')).toBe(0);
+    expect(getStripeMinorUnits('usd')).toBe(2);
+    expect(getStripeMinorUnits('kwd')).toBe(3);
+    // ISO 4217 says 0, Stripe uses two decimals
+    expect(getStripeMinorUnits('isk')).toBe(2);
+  });
+});
+
+describe('getStripeAmountIncrement', () => {
+  it('should require coarser amounts for special currencies', () => {
+    expect(getStripeAmountIncrement('usd')).toBe(1);
+    expect(getStripeAmountIncrement('jpy')).toBe(1);
+    expect(getStripeAmountIncrement('kwd')).toBe(10);
+    expect(getStripeAmountIncrement('ISK')).toBe(100);
+  });
+});
+
+describe('checkStripeAmount', () => {
+  it('should accept valid amounts', () => {
+    expect(checkStripeAmount(315000, 'jpy')).toBeUndefined();
+    expect(checkStripeAmount(12340, 'kwd')).toBeUndefined();
+  });
+
+  it('should reject fractional amounts', () => {
+    expect(checkStripeAmount(99.5, 'usd')).toBe(
+      'Amount 99.5 must be an integer in the smallest unit of USD'
+    );
+  });
+
+  it('should reject amounts off the Stripe grid', () => {
+    expect(checkStripeAmount(12345, 'kwd')).toBe(
+      'Amount 12345 must be a multiple of 10 for KWD on Stripe'
+    );
+    expect(checkStripeAmount(550, 'isk')).toBe(
+      'Amount 550 must be a multiple of 100 for ISK on Stripe'
+    );
+  });
+});
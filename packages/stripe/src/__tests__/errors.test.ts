@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { TaxFitterError } from '@tax-fitter/core';
+import {
+  AdjustmentMismatchError,
+  InvalidInputError,
+  InvoiceNotDraftError,
+  StripeAdjustmentError,
+  StripeApiError,
+} from '../errors';
+
+describe('AdjustmentMismatchError', () => {
+  it('should carry both totals', () => {
+    const error = new AdjustmentMismatchError('in_test123', 1100, 1101, true);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('AdjustmentMismatchError');
+    expect(error.code).toBe('ADJUSTMENT_MISMATCH');
+    expect(error.expectedTotal).toBe(1100);
+    expect(error.actualTotal).toBe(1101);
+    expect(error.message).toBe(
+      'Invoice in_test123 total 1101 does not match target total 1100. The adjustment was rolled back.'
+    );
+  });
+});
+
+describe('StripeAdjustmentError', () => {
+  it('should share the core base class', () => {
+    const error = new InvalidInputError('Bad target', 'in_test123');
+
+    expect(error).toBeInstanceOf(StripeAdjustmentError);
+    expect(error).toBeInstanceOf(TaxFitterError);
+    expect(error.name).toBe('InvalidInputError');
+    expect(error.code).toBe('INVALID_INPUT');
+    expect(error.invoiceId).toBe('in_test123');
+  });
+
+  it('should keep the existing not-draft message', () => {
+    expect(new InvoiceNotDraftError('in_test123', 'paid').message).toBe(
+      'Invoice in_test123 is not in draft state. Current status: paid. ' +
+        'Tax adjustments can only be applied to draft invoices.'
+    );
+  });
+
+  it('should keep the Stripe error as the cause', () => {
+    const cause = Object.assign(new Error('Too many requests'), { statusCode: 429 });
+    const error = new StripeApiError('in_test123', cause);
+
+    expect(error.cause).toBe(cause);
+    expect(error.statusCode).toBe(429);
+    expect(new StripeApiError('in_test123', 'timeout').statusCode).toBeUndefined();
+  });
+});
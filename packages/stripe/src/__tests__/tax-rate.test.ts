@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import type Stripe from 'stripe';
+import { percentageToTaxRate, resolveInvoiceTaxRate } from '../tax-rate';
+
+const rate = (id: string, percentage: number, inclusive = false) =>
+  ({ id, percentage, inclusive }) as Stripe.TaxRate;
+
+const line = (id: string, taxRates: Stripe.TaxRate[] = [], metadata = {}) =>
+  ({ id, amount: 1000, tax_rates: taxRates, metadata }) as unknown as Stripe.InvoiceLineItem;
+
+const invoice = (fields: Partial<Stripe.Invoice> = {}) =>
+  ({ id: 'in_test123', default_tax_rates: [], total_tax_amounts: [], ...fields }) as Stripe.Invoice;
+
+describe('percentageToTaxRate', () => {
+  it('should convert percentages to exact rationals', () => {
+    expect(percentageToTaxRate(10)).toEqual({ numerator: 1, denominator: 10 });
+    expect(percentageToTaxRate(8.25)).toEqual({ numerator: 33, denominator: 400 });
+    expect(percentageToTaxRate(0)).toEqual({ numerator: 0, denominator: 1 });
+  });
+});
+
+describe('resolveInvoiceTaxRate', () => {
+  it('should return undefined when the invoice has no tax rates', () => {
+    expect(resolveInvoiceTaxRate(invoice(), [line('il_1')])).toBeUndefined();
+  });
+
+  it('should read the default tax rate', () => {
+    const resolved = resolveInvoiceTaxRate(invoice({ default_tax_rates: [rate('txr_10', 10)] }), [
+      line('il_1'),
+    ]);
+
+    expect(resolved).toEqual({
+      taxRate: { numerator: 1, denominator: 10 },
+      pricingMode: 'exclusive',
+      taxRateId: 'txr_10',
+    });
+  });
+
+  it('should read per-line tax rates', () => {
+    const resolved = resolveInvoiceTaxRate(invoice(), [
+      line('il_1', [rate('txr_8', 8, true)]),
+      line('il_2', [rate('txr_8b', 8, true)]),
+    ]);
+
+    expect(resolved?.taxRate).toEqual({ numerator: 2, denominator: 25 });
+    expect(resolved?.pricingMode).toBe('inclusive');
+  });
+
+  it('should let line rates override the default rate', () => {
+    const resolved = resolveInvoiceTaxRate(
+      invoice({ default_tax_rates: [rate('txr_10', 10)] }),
+      [line('il_1', [rate('txr_8', 8)])]
+    );
+
+    expect(resolved?.taxRateId).toBe('txr_8');
+  });
+
+  it('should use the default rate when the invoice has no lines', () => {
+    const resolved = resolveInvoiceTaxRate(invoice({ default_tax_rates: [rate('txr_10', 10)] }), []);
+    expect(resolved?.taxRateId).toBe('txr_10');
+  });
+
+  it('should ignore residual lines', () => {
+    const resolved = resolveInvoiceTaxRate(invoice(), [
+      line('il_1', [rate('txr_10', 10)]),
+      line('il_2', [], { tax_fitter_residual: 'true' }),
+    ]);
+
+    expect(resolved?.taxRateId).toBe('txr_10');
+  });
+
+  it('should throw when lines mix rates', () => {
+    expect(() =>
+      resolveInvoiceTaxRate(invoice({ default_tax_rates: [rate('txr_10', 10)] }), [
+        line('il_1'),
+        line('il_2', [rate('txr_8', 8)]),
+      ])
+    ).toThrow('Invoice in_test123 mixes tax rates (10% and 8%)');
+  });
+
+  it('should throw when lines mix inclusive and exclusive rates', () => {
+    expect(() =>
+      resolveInvoiceTaxRate(invoice(), [
+        line('il_1', [rate('txr_10', 10)]),
+        line('il_2', [rate('txr_10i', 10, true)]),
+      ])
+    ).toThrow('Invoice in_test123 mixes inclusive and exclusive tax rates');
+  });
+
+  it('should throw when a line stacks several rates', () => {
+    expect(() =>
+      resolveInvoiceTaxRate(invoice(), [line('il_1', [rate('txr_5', 5), rate('txr_7', 7)])])
+    ).toThrow('Invoice in_test123 line il_1 has 2 tax rates');
+  });
+
+  it('should throw for automatic tax', () => {
+    expect(() =>
+      resolveInvoiceTaxRate(
+        invoice({ automatic_tax: { enabled: true } as Stripe.Invoice.AutomaticTax }),
+        [line('il_1')]
+      )
+    ).toThrow('Invoice in_test123 uses automatic tax');
+  });
+
+  it('should check expanded tax totals against the line rates', () => {
+    expect(() =>
+      resolveInvoiceTaxRate(
+        invoice({
+          total_tax_amounts: [
+            { amount: 80, inclusive: false, tax_rate: rate('txr_8', 8) },
+          ] as Stripe.Invoice.TotalTaxAmount[],
+        }),
+        [line('il_1', [rate('txr_10', 10)])]
+      )
+    ).toThrow('mixes tax rates');
+  });
+
+  it('should throw for tax totals from rates not applied to any line', () => {
+    expect(() =>
+      resolveInvoiceTaxRate(
+        invoice({
+          total_tax_amounts: [
+            { amount: 80, inclusive: false, tax_rate: 'txr_other' },
+          ] as Stripe.Invoice.TotalTaxAmount[],
+        }),
+        [line('il_1', [rate('txr_10', 10)])]
+      )
+    ).toThrow('has tax from rate txr_other, which is not applied to any line');
+  });
+
+  it('should throw for tax totals without any known rate', () => {
+    expect(() =>
+      resolveInvoiceTaxRate(
+        invoice({
+          total_tax_amounts: [
+            { amount: 80, inclusive: false, tax_rate: 'txr_other' },
+          ] as Stripe.Invoice.TotalTaxAmount[],
+        }),
+        [line('il_1')]
+      )
+    ).toThrow('has tax amounts but no expanded tax rates');
+  });
+});
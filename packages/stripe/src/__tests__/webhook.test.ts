@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import { createMockStripe } from '@tax-fitter/test-utils';
+import { createInvoiceWebhookHandler } from '../webhook';
+
+const draftInvoice = {
+  id: 'in_test123',
+  object: 'invoice',
+  status: 'draft',
+  subtotal: 290000,
+  customer: 'cus_test123',
+  currency: 'jpy',
+  lines: { data: [], has_more: false },
+} as unknown as Stripe.Response<Stripe.Invoice>;
+
+const invoiceEvent = (type: string, invoice: object = draftInvoice): Stripe.Event =>
+  ({ id: 'evt_1', type, data: { object: invoice } }) as unknown as Stripe.Event;
+
+describe('createInvoiceWebhookHandler', () => {
+  let mockStripe: Stripe;
+
+  beforeEach(() => {
+    mockStripe = createMockStripe();
+  });
+
+  it('should adjust a draft invoice to the resolved target', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+    const resolveTargetTotal = vi.fn().mockReturnValue(315000);
+
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal,
+      adjustment: { taxRate: 0.1 },
+    });
+    const outcome = await handler(invoiceEvent('invoice.created'));
+
+    expect(outcome).toMatchObject({ status: 'adjusted', invoiceId: 'in_test123' });
+    expect(outcome.status === 'adjusted' && outcome.result.finalTotal).toBe(315000);
+    expect(resolveTargetTotal).toHaveBeenCalledWith(draftInvoice, invoiceEvent('invoice.created'));
+    expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(
+      expect.objectContaining({ invoice: 'in_test123' }),
+      { idempotencyKey: 'tax-fitter:evt_1:adjustment' }
+    );
+  });
+
+  it('should support async target resolvers', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal: async () => 315000,
+      idempotencyKey: (event) => `custom:${event.id}`,
+      adjustment: { taxRate: 0.1 },
+    });
+    const outcome = await handler(invoiceEvent('invoice.created'));
+
+    expect(outcome.status).toBe('adjusted');
+    expect(mockStripe.invoiceItems.create).toHaveBeenCalledWith(expect.any(Object), {
+      idempotencyKey: 'custom:evt_1:adjustment',
+    });
+  });
+
+  it('should skip unhandled event types', async () => {
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal: () => 315000,
+    });
+
+    expect(await handler(invoiceEvent('invoice.finalized'))).toEqual({
+      status: 'skipped',
+      reason: 'unhandled-event',
+    });
+    expect(
+      await handler(invoiceEvent('invoice.created', { id: 'cus_1', object: 'customer' }))
+    ).toEqual({ status: 'skipped', reason: 'unhandled-event' });
+    expect(mockStripe.invoices.retrieve).not.toHaveBeenCalled();
+  });
+
+  it('should handle configured event types', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal: () => 315000,
+      events: ['invoice.updated'],
+      adjustment: { taxRate: 0.1 },
+    });
+
+    expect((await handler(invoiceEvent('invoice.updated'))).status).toBe('adjusted');
+    expect((await handler(invoiceEvent('invoice.created'))).status).toBe('skipped');
+  });
+
+  it('should skip invoices that are no longer drafts', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      ...draftInvoice,
+      status: 'open',
+    });
+    const resolveTargetTotal = vi.fn();
+
+    const handler = createInvoiceWebhookHandler(mockStripe, { resolveTargetTotal });
+
+    expect(await handler(invoiceEvent('invoice.created'))).toEqual({
+      status: 'skipped',
+      reason: 'not-draft',
+      invoiceId: 'in_test123',
+    });
+    expect(resolveTargetTotal).not.toHaveBeenCalled();
+  });
+
+  it('should skip invoices with an adjustment item', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue({
+      ...draftInvoice,
+      lines: {
+        data: [{ id: 'il_1', amount: 290000, metadata: {} }],
+        has_more: true,
+      },
+    } as unknown as Stripe.Response<Stripe.Invoice>);
+    vi.spyOn(mockStripe.invoices, 'listLineItems').mockResolvedValue({
+      data: [{ id: 'il_2', amount: -1000, metadata: { tax_fitter_adjustment: 'true' } }],
+      has_more: false,
+    } as unknown as Stripe.Response<Stripe.ApiList<Stripe.InvoiceLineItem>>);
+
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal: () => 315000,
+    });
+
+    expect(await handler(invoiceEvent('invoice.created'))).toMatchObject({
+      status: 'skipped',
+      reason: 'already-adjusted',
+    });
+    expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+  });
+
+  it('should skip invoices with an adjustment coupon', async () => {
+    const oldDiscount = {
+      id: 'di_old',
+      coupon: { id: 'co_old', metadata: { tax_fitter_adjustment: 'true' } },
+    };
+    // Like the API, return bare discount IDs unless the discounts are expanded
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockImplementation(async (_id, params) => {
+      const { expand = [] } = (params ?? {}) as Stripe.InvoiceRetrieveParams;
+      return {
+        ...draftInvoice,
+        discounts: ['di_string', expand.includes('discounts') ? oldDiscount : 'di_old'],
+      } as unknown as Stripe.Response<Stripe.Invoice>;
+    });
+
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal: () => 315000,
+    });
+
+    expect(await handler(invoiceEvent('invoice.created'))).toMatchObject({
+      status: 'skipped',
+      reason: 'already-adjusted',
+    });
+  });
+
+  it('should skip invoices without a target', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal: () => undefined,
+    });
+
+    expect(await handler(invoiceEvent('invoice.created'))).toEqual({
+      status: 'skipped',
+      reason: 'no-target',
+      invoiceId: 'in_test123',
+    });
+    expect(mockStripe.invoiceItems.create).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the adjustment fails', async () => {
+    vi.spyOn(mockStripe.invoices, 'retrieve').mockResolvedValue(draftInvoice);
+
+    const handler = createInvoiceWebhookHandler(mockStripe, {
+      resolveTargetTotal: () => 315000,
+    });
+
+    await expect(handler(invoiceEvent('invoice.created'))).rejects.toThrow(
+      'Invoice in_test123 has no tax rates.'
+    );
+  });
+});
@@ -1,6 +1,17 @@
 import type Stripe from 'stripe';
-import { calculateAdjustment } from '@tax-fitter/core';
-import type { StripeAdjustmentOptions, StripeAdjustmentResult } from './types';
+import { calculateDocumentAdjustment, fitDocument } from '@tax-fitter/core';
+import type { FitDocumentOptions } from '@tax-fitter/core';
+import { isRateLimitError, mapWithConcurrency, sleep } from './batch';
+import { StripeBillingAdapter } from './billing-adapter';
+import { InvalidInputError } from './errors';
+import type {
+  BatchAdjustmentOptions,
+  BatchAdjustmentOutcome,
+  BatchAdjustmentReport,
+  StripeAdjustmentOptions,
+  StripeAdjustmentPlan,
+  StripeAdjustmentResult,
+} from './types';
 
 /**
  * TaxFitter class for adjusting Stripe invoices to match target totals
@@ -12,102 +23,139 @@ export class TaxFitter {
    * Apply a tax adjustment to a Stripe invoice
    *
    * This function:
-   * 1. Retrieves the invoice from Stripe
-   * 2. Validates the invoice is in draft state
-   * 3. Extracts the subtotal from the invoice
-   * 4. Calculates the required adjustment using @tax-fitter/core
-   * 5. Creates an invoice item with the calculated discount
+   * 1. Plans the adjustment like previewAdjustment
+   * 2. Creates an invoice item with the calculated discount, one item per
+   *    invoice line when allocation is 'per-line', or a one-off coupon attached
+   *    to the invoice when strategy is 'coupon'
+   * 3. Creates a non-taxable invoice item for any residual (when allowResidual is set)
+   * 4. With verify, retrieves the invoice again and rolls the changes back if
+   *    Stripe's total differs from the target
+   *
+   * Items and coupons from an earlier call (tagged with tax_fitter_adjustment metadata)
+   * are left out of the subtotal, then updated in place or removed, so calling this
+   * again with the same or a new target never stacks adjustments.
    *
    * @param options - Adjustment options
-   * @returns The result including the created invoice item
-   * @throws Error if the invoice is not in draft state or if adjustment calculation fails
+   * @returns The result including the created invoice item or coupon
+   * @throws InvoiceNotDraftError if the invoice is not in draft state
+   * @throws ZeroSubtotalError if the invoice has nothing to adjust
+   * @throws MissingCustomerError if the invoice has no customer
+   * @throws InvalidInputError if the options are invalid, or the invoice's tax rates are
+   *   ambiguous or disagree with options.taxRate
+   * @throws TargetUnreachableError if no discount reaches the target
+   * @throws StripeApiError if a Stripe request fails
+   * @throws AdjustmentMismatchError if verify is set and Stripe's total differs from the target
    */
   async applyAdjustment(
     options: StripeAdjustmentOptions
   ): Promise<StripeAdjustmentResult> {
-    const {
-      invoiceId,
-      targetTotal,
-      taxRate,
-      roundMode = 'floor',
-      description = 'Tax adjustment',
-      metadata,
-    } = options;
+    const { written } = await fitDocument(this.adapterFor(options), toFitDocumentOptions(options));
+    return written;
+  }
 
-    // Retrieve the invoice
-    const invoice = await this.stripe.invoices.retrieve(invoiceId);
+  /**
+   * Apply tax adjustments to many Stripe invoices
+   *
+   * Invoices are adjusted with applyAdjustment, at most `concurrency` at a time.
+   * An invoice that hits a Stripe rate-limit error is retried with exponential
+   * backoff; any other error, or running out of retries, is recorded as a failure
+   * for that invoice and the rest of the batch carries on.
+   *
+   * @param adjustments - Adjustment options, one per invoice
+   * @param batchOptions - Concurrency and retry settings
+   * @returns One outcome per invoice, in the same order as the input
+   * @throws InvalidInputError if the concurrency or retry settings are invalid
+   */
+  async applyAdjustments(
+    adjustments: StripeAdjustmentOptions[],
+    batchOptions: BatchAdjustmentOptions = {}
+  ): Promise<BatchAdjustmentReport> {
+    const {
+      concurrency = 4,
+      maxRetries = 3,
+      retryDelay = 1000,
+      maxRetryDelay = 30000,
+    } = batchOptions;
 
-    // Validate invoice is in draft state
-    if (invoice.status !== 'draft') {
-      throw new Error(
-        `Invoice ${invoiceId} is not in draft state. Current status: ${invoice.status}. ` +
-          'Tax adjustments can only be applied to draft invoices.'
-      );
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidInputError(`Concurrency must be a positive integer, got ${concurrency}`);
     }
-
-    // Extract subtotal (in smallest currency unit)
-    // Stripe amounts are already in cents/smallest unit
-    const subtotal = invoice.subtotal ?? 0;
-
-    if (subtotal === 0) {
-      throw new Error(
-        `Invoice ${invoiceId} has zero subtotal. Cannot calculate adjustment.`
-      );
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new InvalidInputError(`maxRetries must be a non-negative integer, got ${maxRetries}`);
     }
 
-    // Extract customer ID (handle both string and expanded object forms)
-    let customerId: string;
-    if (typeof invoice.customer === 'string') {
-      customerId = invoice.customer;
-    } else if (invoice.customer && typeof invoice.customer === 'object' && 'id' in invoice.customer) {
-      customerId = invoice.customer.id;
-    } else {
-      throw new Error(
-        `Invoice ${invoiceId} has invalid or missing customer. Cannot create adjustment.`
-      );
-    }
+    const outcomes = await mapWithConcurrency(
+      adjustments,
+      concurrency,
+      async (options): Promise<BatchAdjustmentOutcome> => {
+        for (let attempt = 1; ; attempt++) {
+          try {
+            const result = await this.applyAdjustment(options);
+            return { status: 'succeeded', invoiceId: options.invoiceId, result, attempts: attempt };
+          } catch (error) {
+            if (!isRateLimitError(error) || attempt > maxRetries) {
+              return { status: 'failed', invoiceId: options.invoiceId, error, attempts: attempt };
+            }
+            await sleep(Math.min(retryDelay * 2 ** (attempt - 1), maxRetryDelay));
+          }
+        }
+      }
+    );
 
-    // Calculate the required adjustment
-    const adjustmentResult = calculateAdjustment({
-      subtotal,
-      targetTotal,
-      taxRate,
-      roundMode,
-    });
-
-    if (!adjustmentResult.isValid) {
-      throw new Error(
-        `Failed to calculate valid adjustment: ${adjustmentResult.error ?? 'Unknown error'}`
-      );
-    }
+    const succeeded = outcomes.filter((outcome) => outcome.status === 'succeeded').length;
+    return { outcomes, succeeded, failed: outcomes.length - succeeded };
+  }
 
-    // Create invoice item with the calculated discount
-    // Negative amount for discount, positive for surcharge
-    const invoiceItem = await this.stripe.invoiceItems.create({
-      invoice: invoiceId,
-      customer: customerId,
-      amount: -adjustmentResult.discount, // Negative for discount
-      currency: invoice.currency,
-      description,
-      metadata: {
-        ...metadata,
-        tax_fitter_adjustment: 'true',
-        original_subtotal: subtotal.toString(),
-        target_total: targetTotal.toString(),
-        calculated_discount: adjustmentResult.discount.toString(),
-      },
-    });
+  /**
+   * Plan a tax adjustment without changing the invoice
+   *
+   * This function:
+   * 1. Retrieves the invoice from Stripe
+   * 2. Validates the invoice is in draft state
+   * 3. Reads the tax rate and inclusive setting from the invoice's tax rates,
+   *    checking them against options.taxRate
+   * 4. Calculates the taxable subtotal: existing discounts are subtracted, and
+   *    lines without tax rates are left out and added to the total unchanged
+   * 5. Validates the target total against the invoice currency (including Stripe's
+   *    zero-decimal and three-decimal currencies) and calculates the required
+   *    adjustment with calculateDocumentAdjustment from @tax-fitter/core, fitting the total or, with fitTo
+   *    'amount_due', the amount due after the customer balance
+   * 6. Lists the invoice items that applyAdjustment would create, update or delete,
+   *    and the coupon and invoice discounts it would set (see
+   *    StripeBillingAdapter.planAdjustment)
+   *
+   * Only read requests are sent to Stripe.
+   *
+   * @param options - Adjustment options
+   * @returns The planned invoice item changes and the expected totals
+   * @throws StripeAdjustmentError under the same conditions as applyAdjustment
+   */
+  async previewAdjustment(options: StripeAdjustmentOptions): Promise<StripeAdjustmentPlan> {
+    const adapter = this.adapterFor(options);
+    const { document, adjustment } = await calculateDocumentAdjustment(
+      adapter,
+      toFitDocumentOptions(options)
+    );
+    return adapter.planAdjustment(document, adjustment);
+  }
 
-    return {
-      invoiceItem,
-      discount: adjustmentResult.discount,
-      adjustedSubtotal: adjustmentResult.adjustedSubtotal,
-      taxAmount: adjustmentResult.taxAmount,
-      finalTotal: adjustmentResult.finalTotal,
-    };
+  /**
+   * Adapter writing the adjustment the way the options ask
+   */
+  private adapterFor(options: StripeAdjustmentOptions): StripeBillingAdapter {
+    const { allocation, strategy, fitTo, verify } = options;
+    return new StripeBillingAdapter(this.stripe, { allocation, strategy, fitTo, verify });
   }
 }
 
+/**
+ * fitDocument options for a Stripe adjustment; the rest configure the adapter
+ */
+function toFitDocumentOptions(options: StripeAdjustmentOptions): FitDocumentOptions {
+  const { invoiceId, allocation, strategy, fitTo, verify, ...fitOptions } = options;
+  return { documentId: invoiceId, ...fitOptions };
+}
+
 /**
  * Apply a tax adjustment to a Stripe invoice (functional interface)
  *
@@ -124,3 +172,35 @@ export async function applyStripeAdjustment(
   const fitter = new TaxFitter(stripe);
   return fitter.applyAdjustment(options);
 }
+
+/**
+ * Apply tax adjustments to many Stripe invoices (functional interface)
+ *
+ * @param stripe - Stripe instance
+ * @param adjustments - Adjustment options, one per invoice
+ * @param batchOptions - Concurrency and retry settings
+ * @returns One outcome per invoice, in the same order as the input
+ */
+export async function applyStripeAdjustments(
+  stripe: Stripe,
+  adjustments: StripeAdjustmentOptions[],
+  batchOptions?: BatchAdjustmentOptions
+): Promise<BatchAdjustmentReport> {
+  const fitter = new TaxFitter(stripe);
+  return fitter.applyAdjustments(adjustments, batchOptions);
+}
+
+/**
+ * Plan a tax adjustment for a Stripe invoice without changing it (functional interface)
+ *
+ * @param stripe - Stripe instance
+ * @param options - Adjustment options
+ * @returns The planned invoice item changes and the expected totals
+ */
+export async function previewStripeAdjustment(
+  stripe: Stripe,
+  options: StripeAdjustmentOptions
+): Promise<StripeAdjustmentPlan> {
+  const fitter = new TaxFitter(stripe);
+  return fitter.previewAdjustment(options);
+}
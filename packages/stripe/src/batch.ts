@@ -0,0 +1,47 @@
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight
+ * @returns The task results, in the same order as the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index] as T, index);
+    }
+  };
+
+  const workers = Math.min(concurrency, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Whether an error is a Stripe rate-limit error (HTTP 429), directly or as the
+ * cause of a StripeApiError
+ *
+ * Checked by shape, since Stripe is only a peer dependency and errors may come
+ * from a different copy of the SDK.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const { type, statusCode, cause } = error as {
+    type?: unknown;
+    statusCode?: unknown;
+    cause?: unknown;
+  };
+  return type === 'StripeRateLimitError' || statusCode === 429 || isRateLimitError(cause);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
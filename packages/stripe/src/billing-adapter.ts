@@ -0,0 +1,295 @@
+import type Stripe from 'stripe';
+import type {
+  AdjustmentErrorCode,
+  BillingAdapter,
+  DocumentAdjustment,
+  TaxableBase,
+  TaxRate,
+} from '@tax-fitter/core';
+import { checkStripeAmount, getStripeAmountIncrement } from './currency';
+import {
+  AdjustmentMismatchError,
+  InvalidInputError,
+  TargetUnreachableError,
+  ZeroSubtotalError,
+} from './errors';
+import {
+  assertDraft,
+  executePlan,
+  invoiceAmountDueOffset,
+  invoiceCurrency,
+  invoiceCustomerId,
+  loadInvoice,
+  planInvoiceChanges,
+  readInvoiceBase,
+  requestOptions,
+  retrieveInvoice,
+  toDiscountsParam,
+} from './invoice';
+import type {
+  StripeAdjustmentPlan,
+  StripeAdjustmentResult,
+  StripeBillingAdapterOptions,
+  StripeInvoiceDocument,
+} from './types';
+
+/**
+ * BillingAdapter for Stripe invoices, for use with fitDocument from @tax-fitter/core
+ *
+ * This is the implementation behind TaxFitter: only drafts can be adjusted,
+ * the tax rate comes from the invoice's tax rates, and earlier adjustments are
+ * replaced rather than stacked. The options choose how the adjustment is
+ * written (an invoice item, one item per line, or a coupon), whether the total
+ * or the amount due is fitted, and whether Stripe's total is checked afterwards.
+ */
+export class StripeBillingAdapter
+  implements BillingAdapter<StripeInvoiceDocument, StripeAdjustmentResult>
+{
+  constructor(
+    private stripe: Stripe,
+    private options: StripeBillingAdapterOptions = {}
+  ) {}
+
+  /**
+   * Retrieve the invoice and all of its lines
+   * @throws InvalidInputError if the options combine a coupon with per-line allocation
+   * @throws StripeApiError if a Stripe request fails
+   */
+  async loadDocument(invoiceId: string): Promise<StripeInvoiceDocument> {
+    const { allocation = 'lump', strategy = 'invoice-item' } = this.options;
+    if (strategy === 'coupon' && allocation === 'per-line') {
+      throw new InvalidInputError(
+        `Cannot allocate a coupon adjustment per line on invoice ${invoiceId}. ` +
+          "Use allocation 'lump' with the 'coupon' strategy.",
+        invoiceId
+      );
+    }
+
+    return loadInvoice(this.stripe, invoiceId);
+  }
+
+  /**
+   * @throws InvoiceNotDraftError if the invoice is not in draft state
+   */
+  assertEditable(document: StripeInvoiceDocument): void {
+    assertDraft(document.invoice);
+  }
+
+  /**
+   * @throws InvalidInputError if the invoice has no currency
+   */
+  readCurrency(document: StripeInvoiceDocument): string {
+    return invoiceCurrency(document.invoice);
+  }
+
+  /**
+   * @throws InvalidInputError if the invoice's tax rates are ambiguous or disagree
+   *   with taxRate, or neither gives a rate, or a coupon would reach untaxed lines
+   * @throws ZeroSubtotalError if the invoice has nothing to adjust
+   * @throws MissingCustomerError if the invoice has no customer
+   */
+  readTaxableBase(document: StripeInvoiceDocument, taxRate?: TaxRate): TaxableBase {
+    const { invoice } = document;
+    const { strategy = 'invoice-item', fitTo = 'total' } = this.options;
+    const base = readInvoiceBase(document, taxRate);
+
+    // Stripe spreads an invoice coupon over every discountable line, so part of
+    // it would land on untaxed lines and miss the target
+    if (strategy === 'coupon' && base.untaxedLines.some((line) => line.discountable !== false)) {
+      throw new InvalidInputError(
+        `Cannot apply a coupon adjustment to invoice ${invoice.id}: ` +
+          "it has discountable lines without tax rates. Use the 'invoice-item' strategy.",
+        invoice.id
+      );
+    }
+
+    if (base.subtotal === 0) {
+      throw new ZeroSubtotalError(invoice.id);
+    }
+    // Adjustment items are created for the invoice's customer
+    invoiceCustomerId(invoice);
+
+    return {
+      subtotal: base.subtotal,
+      untaxedAmount: base.untaxedAmount,
+      taxRate: base.taxRate,
+      pricingMode: base.pricingMode,
+      // Three-decimal currencies (and ISK) only accept amounts on a coarser grid
+      amountIncrement: getStripeAmountIncrement(invoiceCurrency(invoice)),
+      // The customer balance (negative for credit) and payments separate the
+      // amount due from the total
+      ...(fitTo === 'amount_due' ? { targetOffset: invoiceAmountDueOffset(invoice) } : {}),
+    };
+  }
+
+  /**
+   * @throws InvalidInputError if the target total is not a valid amount in the
+   *   invoice currency (including Stripe's zero-decimal and three-decimal currencies)
+   */
+  checkTarget(document: StripeInvoiceDocument, targetTotal: number): void {
+    const { invoice } = document;
+    const amountError = checkStripeAmount(targetTotal, invoiceCurrency(invoice));
+    if (amountError) {
+      throw new InvalidInputError(
+        `Invalid target total for invoice ${invoice.id}: ${amountError}`,
+        invoice.id
+      );
+    }
+  }
+
+  calculationError(
+    document: StripeInvoiceDocument,
+    code: AdjustmentErrorCode,
+    reason: string
+  ): Error {
+    const invoiceId = document.invoice.id;
+    const message = `Failed to calculate valid adjustment: ${reason}`;
+    return code === 'TARGET_UNREACHABLE'
+      ? new TargetUnreachableError(message, invoiceId)
+      : new InvalidInputError(message, invoiceId);
+  }
+
+  /**
+   * List the invoice items, coupon and invoice discounts writeAdjustment would
+   * create, update or delete for an adjustment
+   *
+   * @param document - The invoice, as loaded by loadDocument
+   * @param adjustment - The adjustment, e.g. from calculateDocumentAdjustment
+   * @returns The planned changes and the expected totals
+   * @throws MissingCustomerError if the invoice has no customer
+   * @throws InvalidInputError or TargetUnreachableError if the discount cannot be
+   *   allocated across the lines
+   */
+  planAdjustment(
+    document: StripeInvoiceDocument,
+    adjustment: DocumentAdjustment
+  ): StripeAdjustmentPlan {
+    const { invoice } = document;
+    const { allocation = 'lump', strategy = 'invoice-item', fitTo = 'total' } = this.options;
+    const { currency, untaxedAmount, finalTotal } = adjustment;
+
+    const changes = planInvoiceChanges(
+      document,
+      readInvoiceBase(document, adjustment.taxRate),
+      {
+        discount: adjustment.discount,
+        isValid: true,
+        adjustedSubtotal: adjustment.adjustedSubtotal,
+        taxAmount: adjustment.taxAmount,
+        finalTotal: finalTotal - untaxedAmount,
+        residualDiscount: adjustment.residualDiscount,
+        ...(adjustment.trace ? { trace: adjustment.trace } : {}),
+      },
+      {
+        customerId: invoiceCustomerId(invoice),
+        currency,
+        targetTotal: adjustment.targetTotal,
+        roundMode: adjustment.roundMode,
+        description: adjustment.description,
+        metadata: adjustment.metadata,
+        residualDescription: adjustment.residualDescription,
+        allocation,
+        strategy,
+      }
+    );
+
+    return {
+      invoiceId: invoice.id,
+      currency,
+      taxRate: adjustment.taxRate,
+      pricingMode: adjustment.pricingMode,
+      subtotal: adjustment.subtotal,
+      untaxedAmount,
+      fitTo,
+      discount: adjustment.discount,
+      residualDiscount: adjustment.residualDiscount,
+      adjustedSubtotal: adjustment.adjustedSubtotal,
+      taxAmount: adjustment.taxAmount,
+      finalTotal,
+      amountDue: finalTotal + adjustment.targetOffset,
+      ...changes,
+      ...(adjustment.trace ? { trace: adjustment.trace } : {}),
+    };
+  }
+
+  /**
+   * Create or update the adjustment items or coupon and remove earlier ones
+   *
+   * With verify, the invoice is retrieved again and the changes are rolled back
+   * if Stripe's total differs from the target.
+   *
+   * @throws MissingCustomerError if the invoice has no customer
+   * @throws StripeApiError if a Stripe request fails
+   * @throws AdjustmentMismatchError if verify is set and Stripe's total differs from the target
+   */
+  async writeAdjustment(
+    document: StripeInvoiceDocument,
+    adjustment: DocumentAdjustment
+  ): Promise<StripeAdjustmentResult> {
+    const { idempotencyKey, targetTotal } = adjustment;
+
+    const plan = this.planAdjustment(document, adjustment);
+    const { result, savedItems } = await executePlan(this.stripe, plan, idempotencyKey);
+
+    if (this.options.verify) {
+      // Stripe Tax, per-line rounding or invoice discounts can make Stripe's
+      // total differ from the one calculated here
+      const invoice = await retrieveInvoice(this.stripe, plan.invoiceId);
+      const actualTotal = plan.fitTo === 'amount_due' ? invoice.amount_due : invoice.total;
+      if (actualTotal !== targetTotal) {
+        const rolledBack = await this.rollBack(plan, savedItems, result.coupon, idempotencyKey);
+        throw new AdjustmentMismatchError(plan.invoiceId, targetTotal, actualTotal, rolledBack);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Undo the changes of an executed plan: delete created items, restore the
+   * amounts of updated ones, and restore the invoice discounts and delete the
+   * created coupon (deleted earlier items and coupons cannot be restored)
+   * @returns Whether every change was undone
+   */
+  private async rollBack(
+    plan: StripeAdjustmentPlan,
+    savedItems: Stripe.InvoiceItem[],
+    coupon: Stripe.Coupon | undefined,
+    idempotencyKey: string | undefined
+  ): Promise<boolean> {
+    try {
+      if (plan.discounts) {
+        await this.stripe.invoices.update(
+          plan.invoiceId,
+          { discounts: toDiscountsParam(plan.discounts.previous) },
+          ...requestOptions(idempotencyKey && `${idempotencyKey}:rollback:discounts`)
+        );
+      }
+      if (coupon) {
+        await this.stripe.coupons.del(
+          coupon.id,
+          ...requestOptions(idempotencyKey && `${idempotencyKey}:rollback:${coupon.id}`)
+        );
+      }
+
+      for (const [index, planned] of plan.items.entries()) {
+        const itemId = savedItems[index]?.id;
+        if (!itemId) continue;
+
+        const key = idempotencyKey && `${idempotencyKey}:rollback:${itemId}`;
+        if (planned.action === 'create') {
+          await this.stripe.invoiceItems.del(itemId, ...requestOptions(key));
+        } else if (planned.previousAmount !== undefined) {
+          await this.stripe.invoiceItems.update(
+            itemId,
+            { amount: planned.previousAmount },
+            ...requestOptions(key)
+          );
+        }
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { getMinorUnits } from '@tax-fitter/core';
+
+/**
+ * Currencies Stripe treats as zero-decimal (amounts are whole units)
+ * @see https://docs.stripe.com/currencies#zero-decimal
+ */
+const STRIPE_ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif',
+  'clp',
+  'djf',
+  'gnf',
+  'jpy',
+  'kmf',
+  'krw',
+  'mga',
+  'pyg',
+  'rwf',
+  'ugx',
+  'vnd',
+  'vuv',
+  'xaf',
+  'xof',
+  'xpf',
+]);
+
+/**
+ * Currencies Stripe treats as three-decimal; amounts must end in 0
+ * @see https://docs.stripe.com/currencies#three-decimal
+ */
+const STRIPE_THREE_DECIMAL_CURRENCIES = new Set(['bhd', 'jod', 'kwd', 'omr', 'tnd']);
+
+/**
+ * Zero-decimal currencies Stripe still represents with two decimals;
+ * amounts must end in 00
+ * @see https://docs.stripe.com/currencies#special-cases
+ */
+const STRIPE_WHOLE_TWO_DECIMAL_CURRENCIES = new Set(['isk']);
+
+/**
+ * Check whether Stripe treats a currency as zero-decimal
+ * @param currency - Three-letter currency code, case-insensitive
+ */
+export function isZeroDecimalCurrency(currency: string): boolean {
+  return STRIPE_ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase());
+}
+
+/**
+ * Get the number of decimal places Stripe uses for a currency's amounts
+ * (which can differ from ISO 4217, e.g., ISK)
+ * @param currency - Three-letter currency code, case-insensitive
+ */
+export function getStripeMinorUnits(currency: string): number {
+  const code = currency.toLowerCase();
+  if (STRIPE_ZERO_DECIMAL_CURRENCIES.has(code)) return 0;
+  if (STRIPE_THREE_DECIMAL_CURRENCIES.has(code)) return 3;
+  if (STRIPE_WHOLE_TWO_DECIMAL_CURRENCIES.has(code)) return 2;
+  return getMinorUnits(code);
+}
+
+/**
+ * Get the granularity Stripe accepts for amounts in a currency
+ * @param currency - Three-letter currency code, case-insensitive
+ * @returns 10 for three-decimal currencies, 100 for ISK, otherwise 1
+ */
+export function getStripeAmountIncrement(currency: string): number {
+  const code = currency.toLowerCase();
+  if (STRIPE_THREE_DECIMAL_CURRENCIES.has(code)) return 10;
+  if (STRIPE_WHOLE_TWO_DECIMAL_CURRENCIES.has(code)) return 100;
+  return 1;
+}
+
+/**
+ * Check that an amount can be sent to Stripe in the given currency
+ * @param amount - Amount in Stripe's smallest unit for the currency
+ * @param currency - Three-letter currency code, case-insensitive
+ * @returns An error message, or undefined if the amount is valid
+ */
+export function checkStripeAmount(amount: number, currency: string): string | undefined {
+  const code = currency.toUpperCase();
+
+  if (!Number.isSafeInteger(amount)) {
+    return `Amount ${amount} must be an integer in the smallest unit of ${code}`;
+  }
+
+  const increment = getStripeAmountIncrement(currency);
+  if (amount % increment !== 0) {
+    return `Amount ${amount} must be a multiple of ${increment} for ${code} on Stripe`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,175 @@
+import { TaxFitterError } from '@tax-fitter/core';
+import type { AdjustmentErrorCode } from '@tax-fitter/core';
+
+/**
+ * Machine-readable reason a Stripe adjustment failed
+ */
+export type StripeAdjustmentErrorCode =
+  | AdjustmentErrorCode
+  | 'INVOICE_NOT_DRAFT'
+  | 'ZERO_SUBTOTAL'
+  | 'MISSING_CUSTOMER'
+  | 'STRIPE_API_ERROR'
+  | 'ADJUSTMENT_MISMATCH';
+
+/**
+ * Base class for errors thrown by TaxFitter
+ */
+export class StripeAdjustmentError extends TaxFitterError<StripeAdjustmentErrorCode> {
+  constructor(
+    code: StripeAdjustmentErrorCode,
+    message: string,
+    /**
+     * The invoice being adjusted, if the error concerns one
+     */
+    readonly invoiceId?: string,
+    options?: { cause?: unknown }
+  ) {
+    super(code, message, options);
+    this.name = 'StripeAdjustmentError';
+  }
+}
+
+/**
+ * Thrown when the options or the invoice's tax setup cannot be adjusted
+ * (e.g., a target total that is not a valid Stripe amount, or mixed tax rates)
+ */
+export class InvalidInputError extends StripeAdjustmentError {
+  declare readonly code: 'INVALID_INPUT';
+
+  constructor(message: string, invoiceId?: string) {
+    super('INVALID_INPUT', message, invoiceId);
+    this.name = 'InvalidInputError';
+  }
+}
+
+/**
+ * Thrown when no discount reaches the target total exactly
+ */
+export class TargetUnreachableError extends StripeAdjustmentError {
+  declare readonly code: 'TARGET_UNREACHABLE';
+
+  constructor(message: string, invoiceId?: string) {
+    super('TARGET_UNREACHABLE', message, invoiceId);
+    this.name = 'TargetUnreachableError';
+  }
+}
+
+/**
+ * Thrown when the invoice is no longer a draft
+ */
+export class InvoiceNotDraftError extends StripeAdjustmentError {
+  declare readonly code: 'INVOICE_NOT_DRAFT';
+
+  constructor(
+    invoiceId: string,
+    /**
+     * The invoice's current status
+     */
+    readonly status: string | null
+  ) {
+    super(
+      'INVOICE_NOT_DRAFT',
+      `Invoice ${invoiceId} is not in draft state. Current status: ${status}. ` +
+        'Tax adjustments can only be applied to draft invoices.',
+      invoiceId
+    );
+    this.name = 'InvoiceNotDraftError';
+  }
+}
+
+/**
+ * Thrown when the invoice has nothing to adjust
+ */
+export class ZeroSubtotalError extends StripeAdjustmentError {
+  declare readonly code: 'ZERO_SUBTOTAL';
+
+  constructor(invoiceId: string) {
+    super(
+      'ZERO_SUBTOTAL',
+      `Invoice ${invoiceId} has zero subtotal. Cannot calculate adjustment.`,
+      invoiceId
+    );
+    this.name = 'ZeroSubtotalError';
+  }
+}
+
+/**
+ * Thrown when the invoice has no customer to bill the adjustment to
+ */
+export class MissingCustomerError extends StripeAdjustmentError {
+  declare readonly code: 'MISSING_CUSTOMER';
+
+  constructor(invoiceId: string) {
+    super(
+      'MISSING_CUSTOMER',
+      `Invoice ${invoiceId} has invalid or missing customer. Cannot create adjustment.`,
+      invoiceId
+    );
+    this.name = 'MissingCustomerError';
+  }
+}
+
+/**
+ * Thrown when a Stripe request fails; the Stripe SDK error is kept as `cause`
+ */
+export class StripeApiError extends StripeAdjustmentError {
+  declare readonly code: 'STRIPE_API_ERROR';
+
+  /**
+   * HTTP status of the failed request, if Stripe responded
+   */
+  readonly statusCode?: number;
+
+  constructor(invoiceId: string, cause: unknown) {
+    super(
+      'STRIPE_API_ERROR',
+      `Stripe request for invoice ${invoiceId} failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      invoiceId,
+      { cause }
+    );
+    this.name = 'StripeApiError';
+
+    const { statusCode } = (cause ?? {}) as { statusCode?: unknown };
+    if (typeof statusCode === 'number') {
+      this.statusCode = statusCode;
+    }
+  }
+}
+
+/**
+ * Thrown when Stripe's invoice total differs from the target after an adjustment
+ * (only with the verify option)
+ */
+export class AdjustmentMismatchError extends StripeAdjustmentError {
+  declare readonly code: 'ADJUSTMENT_MISMATCH';
+  declare readonly invoiceId: string;
+
+  constructor(
+    invoiceId: string,
+    /**
+     * The requested total
+     */
+    readonly expectedTotal: number,
+    /**
+     * The total Stripe calculated
+     */
+    readonly actualTotal: number,
+    /**
+     * Whether the adjustment was undone
+     */
+    readonly rolledBack: boolean
+  ) {
+    super(
+      'ADJUSTMENT_MISMATCH',
+      `Invoice ${invoiceId} total ${actualTotal} does not match target total ${expectedTotal}. ` +
+        (rolledBack
+          ? 'The adjustment was rolled back.'
+          : 'The adjustment could not be rolled back; check the invoice items.'),
+      invoiceId
+    );
+    this.name = 'AdjustmentMismatchError';
+  }
+}
@@ -1,13 +1,74 @@
 export const version = '0.0.0';
 
 // Export types
+export type { InvoiceTaxRate } from './tax-rate';
+export type { StripeAdjustmentErrorCode } from './errors';
+export type {
+  InvoiceWebhookOptions,
+  InvoiceWebhookResult,
+  InvoiceWebhookSkipReason,
+  InvoiceWebhookHandler,
+} from './webhook';
 export type {
   StripeAdjustmentOptions,
   StripeAdjustmentResult,
+  StripeAllocatedItem,
+  StripeAdjustmentPlan,
+  PlannedInvoiceItem,
+  PlannedDiscounts,
+  AllocationMode,
+  AdjustmentStrategy,
+  FitTarget,
+  BatchAdjustmentOptions,
+  BatchAdjustmentOutcome,
+  BatchAdjustmentReport,
+  StripeInvoiceDocument,
+  StripeBillingAdapterOptions,
 } from './types';
 
 // Export main API
-export { TaxFitter, applyStripeAdjustment } from './adjuster';
+export {
+  TaxFitter,
+  applyStripeAdjustment,
+  applyStripeAdjustments,
+  previewStripeAdjustment,
+} from './adjuster';
+export { StripeBillingAdapter } from './billing-adapter';
+export {
+  StripeAdjustmentError,
+  InvalidInputError,
+  TargetUnreachableError,
+  InvoiceNotDraftError,
+  ZeroSubtotalError,
+  MissingCustomerError,
+  StripeApiError,
+  AdjustmentMismatchError,
+} from './errors';
+export { TaxFitterError, fitDocument, calculateDocumentAdjustment } from '@tax-fitter/core';
+export { createInvoiceWebhookHandler } from './webhook';
+export { resolveInvoiceTaxRate, percentageToTaxRate } from './tax-rate';
+export {
+  isZeroDecimalCurrency,
+  getStripeMinorUnits,
+  getStripeAmountIncrement,
+  checkStripeAmount,
+} from './currency';
 
 // Re-export core types for convenience
-export type { RoundMode, AdjustmentParams, AdjustmentResult } from '@tax-fitter/core';
+export type {
+  RoundMode,
+  PricingMode,
+  TaxRate,
+  RationalRate,
+  AdjustmentParams,
+  AdjustmentResult,
+  AdjustmentErrorCode,
+  AdjustmentCandidate,
+  AdjustmentTrace,
+  BillingAdapter,
+  DocumentAdjustment,
+  TaxableBase,
+  FitDocumentOptions,
+  CalculatedDocumentAdjustment,
+  FitDocumentResult,
+} from '@tax-fitter/core';
@@ -0,0 +1,704 @@
+import type Stripe from 'stripe';
+import { allocateDiscount, isSameRate, rateToNumber, summarizeTrace } from '@tax-fitter/core';
+import type { AdjustmentResult, PricingMode, RoundMode, TaxRate } from '@tax-fitter/core';
+import { getStripeAmountIncrement } from './currency';
+import {
+  InvalidInputError,
+  InvoiceNotDraftError,
+  MissingCustomerError,
+  StripeApiError,
+  TargetUnreachableError,
+} from './errors';
+import { resolveInvoiceTaxRate } from './tax-rate';
+import type { InvoiceTaxRate } from './tax-rate';
+import type {
+  AdjustmentStrategy,
+  AllocationMode,
+  PlannedDiscounts,
+  PlannedInvoiceItem,
+  StripeAdjustmentPlan,
+  StripeAdjustmentResult,
+  StripeAllocatedItem,
+  StripeInvoiceDocument,
+} from './types';
+
+/**
+ * Taxable base of a Stripe invoice, with the lines it was read from
+ */
+export interface InvoiceBase {
+  /**
+   * The tax rate on the invoice, if it has one
+   */
+  invoiceRate: InvoiceTaxRate | undefined;
+
+  /**
+   * The rate to calculate with: the requested rate, or else the invoice's
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Whether the invoice amounts include tax
+   */
+  pricingMode: PricingMode;
+
+  /**
+   * Invoice lines, leaving out items from an earlier adjustment
+   */
+  lines: Stripe.InvoiceLineItem[];
+
+  /**
+   * Items from an earlier adjustment
+   */
+  existingItems: Stripe.InvoiceLineItem[];
+
+  /**
+   * Lines Stripe does not tax
+   */
+  untaxedLines: Stripe.InvoiceLineItem[];
+
+  /**
+   * Taxable subtotal after discounts, leaving out earlier adjustments and untaxed lines
+   */
+  subtotal: number;
+
+  /**
+   * Net amount of the untaxed lines
+   */
+  untaxedAmount: number;
+
+  /**
+   * Sum of discount amounts, leaving out those of earlier adjustment coupons
+   */
+  discountTotal: (amounts: Stripe.InvoiceLineItem.DiscountAmount[] | null | undefined) => number;
+}
+
+/**
+ * Options for planInvoiceChanges
+ */
+export interface InvoiceChangeOptions {
+  customerId: string;
+  currency: string;
+  targetTotal: number;
+  roundMode: RoundMode;
+  description: string;
+  metadata: Record<string, string> | undefined;
+  residualDescription: string;
+  allocation: AllocationMode;
+  strategy: AdjustmentStrategy;
+}
+
+/**
+ * Retrieve an invoice with all of its lines
+ */
+export async function loadInvoice(
+  stripe: Stripe,
+  invoiceId: string
+): Promise<StripeInvoiceDocument> {
+  const invoice = await retrieveInvoice(stripe, invoiceId);
+  return { invoice, lines: await listInvoiceLines(stripe, invoice) };
+}
+
+/**
+ * Retrieve an invoice with its discounts expanded
+ *
+ * Stripe returns bare discount IDs otherwise, and a coupon from an earlier
+ * adjustment can only be recognized on the expanded discount.
+ */
+export function retrieveInvoice(stripe: Stripe, invoiceId: string): Promise<Stripe.Invoice> {
+  return callStripe(invoiceId, () =>
+    stripe.invoices.retrieve(invoiceId, { expand: ['discounts'] })
+  );
+}
+
+/**
+ * Throw an InvoiceNotDraftError unless the invoice is a draft
+ */
+export function assertDraft(invoice: Stripe.Invoice): void {
+  if (invoice.status !== 'draft') {
+    throw new InvoiceNotDraftError(invoice.id, invoice.status);
+  }
+}
+
+/**
+ * Read the taxable base of an invoice
+ *
+ * Existing discounts are subtracted, and lines without tax rates are left out
+ * (they are added to the total unchanged). Earlier adjustments from TaxFitter
+ * are replaced, not stacked, so their items and coupons are left out too.
+ *
+ * @param document - The invoice and its lines
+ * @param requestedRate - Tax rate the caller asked for, checked against the invoice's
+ * @throws InvalidInputError if the invoice's tax rates are ambiguous or disagree with
+ *   requestedRate, or neither gives a rate
+ */
+export function readInvoiceBase(
+  document: StripeInvoiceDocument,
+  requestedRate: TaxRate | undefined
+): InvoiceBase {
+  const { invoice } = document;
+  const invoiceId = invoice.id;
+
+  const lines = document.lines.filter((line) => !isAdjustmentLine(line));
+  const existingItems = document.lines.filter(isAdjustmentLine);
+
+  // Use the rate Stripe will actually charge
+  const invoiceRate = resolveInvoiceTaxRate(invoice, lines);
+
+  if (invoiceRate && requestedRate !== undefined && !isSameRate(requestedRate, invoiceRate.taxRate)) {
+    throw new InvalidInputError(
+      `Tax rate ${rateToNumber(requestedRate)} does not match the tax rate on invoice ${invoiceId} ` +
+        `(${rateToNumber(invoiceRate.taxRate)}).`,
+      invoiceId
+    );
+  }
+
+  const taxRate = requestedRate ?? invoiceRate?.taxRate;
+  if (taxRate === undefined) {
+    throw new InvalidInputError(
+      `Invoice ${invoiceId} has no tax rates. Pass taxRate to calculate the adjustment.`,
+      invoiceId
+    );
+  }
+  const pricingMode = invoiceRate?.pricingMode ?? 'exclusive';
+
+  // Discount amounts from earlier adjustment coupons are left out, since
+  // those coupons are replaced
+  const adjustmentDiscountIds = new Set(
+    (invoice.discounts ?? []).flatMap((entry) =>
+      typeof entry !== 'string' &&
+      !('deleted' in entry && entry.deleted) &&
+      isAdjustmentDiscount(entry)
+        ? [entry.id]
+        : []
+    )
+  );
+  const discountTotal = (
+    amounts: Stripe.InvoiceLineItem.DiscountAmount[] | null | undefined
+  ): number =>
+    (amounts ?? []).reduce(
+      (sum, { amount, discount }) =>
+        adjustmentDiscountIds.has(typeof discount === 'string' ? discount : discount.id)
+          ? sum
+          : sum + amount,
+      0
+    );
+
+  // Lines without any tax rate are not taxed by Stripe; without rates on the
+  // invoice at all, every line is taxed with the requested rate
+  const defaultRates = invoice.default_tax_rates ?? [];
+  const untaxedLines = invoiceRate
+    ? lines.filter((line) => !line.tax_rates?.length && defaultRates.length === 0)
+    : [];
+  const untaxedAmount = untaxedLines.reduce(
+    (sum, line) => sum + line.amount - discountTotal(line.discount_amounts),
+    0
+  );
+
+  // Stripe taxes the subtotal after discounts, so subtract every discount
+  // that falls on taxed lines
+  const untaxedDiscounts = [...untaxedLines, ...existingItems].reduce(
+    (sum, line) => sum + discountTotal(line.discount_amounts),
+    0
+  );
+  const subtotal =
+    (invoice.subtotal ?? 0) -
+    [...existingItems, ...untaxedLines].reduce((sum, line) => sum + line.amount, 0) -
+    (discountTotal(invoice.total_discount_amounts) - untaxedDiscounts);
+
+  return {
+    invoiceRate,
+    taxRate,
+    pricingMode,
+    lines,
+    existingItems,
+    untaxedLines,
+    subtotal,
+    untaxedAmount,
+    discountTotal,
+  };
+}
+
+/**
+ * ID of the invoice's customer (handles both string and expanded object forms)
+ * @throws MissingCustomerError if the invoice has no customer
+ */
+export function invoiceCustomerId(invoice: Stripe.Invoice): string {
+  if (typeof invoice.customer === 'string') {
+    return invoice.customer;
+  }
+  if (invoice.customer && typeof invoice.customer === 'object' && 'id' in invoice.customer) {
+    return invoice.customer.id;
+  }
+  throw new MissingCustomerError(invoice.id);
+}
+
+/**
+ * The invoice currency
+ * @throws InvalidInputError if the invoice has none
+ */
+export function invoiceCurrency(invoice: Stripe.Invoice): string {
+  if (!invoice.currency) {
+    throw new InvalidInputError(
+      `Invoice ${invoice.id} has no currency. Cannot create adjustment.`,
+      invoice.id
+    );
+  }
+  return invoice.currency;
+}
+
+/**
+ * Difference between the amount due and the total: the customer balance
+ * (negative for credit) minus payments
+ */
+export function invoiceAmountDueOffset(invoice: Stripe.Invoice): number {
+  return (invoice.starting_balance ?? 0) - (invoice.amount_paid ?? 0);
+}
+
+/**
+ * Plan the invoice item, coupon and discount changes for a calculated adjustment
+ *
+ * Items from an earlier adjustment are updated in place where one of the same
+ * kind exists, and the rest are listed for deletion.
+ */
+export function planInvoiceChanges(
+  document: StripeInvoiceDocument,
+  base: InvoiceBase,
+  adjustmentResult: AdjustmentResult,
+  options: InvoiceChangeOptions
+): Pick<StripeAdjustmentPlan, 'items' | 'deletions' | 'coupon' | 'discounts' | 'replacedItems'> {
+  const { invoice } = document;
+  const invoiceId = invoice.id;
+  const {
+    invoiceRate,
+    taxRate,
+    pricingMode,
+    lines,
+    existingItems,
+    untaxedLines,
+    subtotal,
+    discountTotal,
+  } = base;
+  const {
+    customerId,
+    currency,
+    targetTotal,
+    roundMode,
+    description,
+    metadata,
+    residualDescription,
+    allocation,
+    strategy,
+  } = options;
+
+  const adjustmentMetadata = {
+    ...metadata,
+    tax_fitter_adjustment: 'true',
+    original_subtotal: subtotal.toString(),
+    target_total: targetTotal.toString(),
+    calculated_discount: adjustmentResult.discount.toString(),
+    ...(adjustmentResult.trace
+      ? { tax_fitter_trace: summarizeTrace(adjustmentResult.trace) }
+      : {}),
+  };
+
+  // Existing items still to be reused or removed, by kind
+  const unusedItems = new Map(
+    existingItems.flatMap((line) => {
+      const itemId = invoiceItemId(line);
+      return itemId ? [[itemId, line] as const] : [];
+    })
+  );
+  const takeExisting = (
+    matches: (line: Stripe.InvoiceLineItem) => boolean
+  ):
+    | { action: 'create' }
+    | { action: 'update'; invoiceItemId: string; previousAmount: number } => {
+    for (const [itemId, line] of unusedItems) {
+      if (matches(line)) {
+        unusedItems.delete(itemId);
+        return { action: 'update', invoiceItemId: itemId, previousAmount: line.amount };
+      }
+    }
+    return { action: 'create' };
+  };
+
+  const items: PlannedInvoiceItem[] = [];
+
+  // Invoice discounts, minus coupons created by an earlier adjustment
+  // Only expanded discounts show their coupon; discount IDs are always kept
+  const previousDiscounts: Stripe.InvoiceUpdateParams.Discount[] = [];
+  const keptDiscounts: Stripe.InvoiceUpdateParams.Discount[] = [];
+  let replacedCoupons = 0;
+  for (const entry of invoice.discounts ?? []) {
+    if (typeof entry === 'string') {
+      previousDiscounts.push({ discount: entry });
+      keptDiscounts.push({ discount: entry });
+      continue;
+    }
+    if ('deleted' in entry && entry.deleted) continue;
+
+    previousDiscounts.push({ discount: entry.id });
+    if (isAdjustmentDiscount(entry)) {
+      replacedCoupons++;
+    } else {
+      keptDiscounts.push({ discount: entry.id });
+    }
+  }
+
+  // Surcharges cannot be coupons; they fall back to an invoice item below
+  const coupon: Stripe.CouponCreateParams | undefined =
+    strategy === 'coupon' && adjustmentResult.discount > 0
+      ? {
+          amount_off: adjustmentResult.discount,
+          currency,
+          duration: 'once',
+          max_redemptions: 1,
+          name: description,
+          metadata: adjustmentMetadata,
+        }
+      : undefined;
+  const discounts: PlannedDiscounts | undefined =
+    coupon || replacedCoupons > 0
+      ? { kept: keptDiscounts, previous: previousDiscounts }
+      : undefined;
+
+  if (allocation === 'per-line' && adjustmentResult.discount !== 0) {
+    // Spread the discount across the original taxed lines after their discounts;
+    // every line shares the fitted rate, so the per-rate subtotal (and the tax)
+    // is unchanged
+    const taxedLines = lines.filter((line) => !untaxedLines.includes(line));
+    const allocationResult = allocateDiscount(
+      taxedLines.map((line) => ({
+        amount: line.amount - discountTotal(line.discount_amounts),
+        taxRate,
+      })),
+      adjustmentResult,
+      { roundMode, pricingMode, increment: getStripeAmountIncrement(currency) }
+    );
+
+    if (!allocationResult.isValid) {
+      const message = `Failed to allocate adjustment across invoice ${invoiceId} lines: ${allocationResult.error ?? 'Unknown error'}`;
+      throw allocationResult.errorCode === 'TARGET_UNREACHABLE'
+        ? new TargetUnreachableError(message, invoiceId)
+        : new InvalidInputError(message, invoiceId);
+    }
+
+    for (const [index, line] of taxedLines.entries()) {
+      const lineDiscount = allocationResult.lines[index]?.discount ?? 0;
+      if (lineDiscount === 0) continue;
+
+      // Tax the piece like the line it belongs to
+      const taxRateIds = line.tax_rates.map((rate) => rate.id);
+      items.push({
+        kind: 'allocation',
+        ...takeExisting((existing) => existing.metadata?.allocated_line === line.id),
+        lineId: line.id,
+        params: {
+          invoice: invoiceId,
+          customer: customerId,
+          amount: -lineDiscount,
+          currency,
+          description: line.description ? `${description}: ${line.description}` : description,
+          ...(taxRateIds.length > 0 ? { tax_rates: taxRateIds } : {}),
+          discountable: false,
+          metadata: {
+            ...adjustmentMetadata,
+            allocated_line: line.id,
+            allocated_discount: lineDiscount.toString(),
+          },
+        },
+      });
+    }
+  }
+
+  // Create invoice item with the calculated discount
+  // Negative amount for discount, positive for surcharge
+  // Tax it with the invoice's rate explicitly, in case that rate is only set per line
+  if (items.length === 0 && !coupon) {
+    items.push({
+      kind: 'adjustment',
+      ...takeExisting(
+        (existing) =>
+          existing.metadata?.tax_fitter_residual !== 'true' &&
+          !existing.metadata?.allocated_line
+      ),
+      params: {
+        invoice: invoiceId,
+        customer: customerId,
+        amount: -adjustmentResult.discount, // Negative for discount
+        currency,
+        description,
+        ...(invoiceRate ? { tax_rates: [invoiceRate.taxRateId] } : {}),
+        // Existing coupons were accounted for in the subtotal; they must not
+        // apply to the adjustment as well
+        discountable: false,
+        metadata: adjustmentMetadata,
+      },
+    });
+  }
+
+  // Cover the remaining difference with a non-taxable item
+  // Clearing tax_rates keeps the invoice's default tax rates from applying to it.
+  // Send '' rather than []: the request encoding drops empty arrays. Only updates
+  // accept '', so saveItem clears the rates after creating the item.
+  const residualDiscount = adjustmentResult.residualDiscount ?? 0;
+  if (residualDiscount !== 0) {
+    items.push({
+      kind: 'residual',
+      ...takeExisting((existing) => existing.metadata?.tax_fitter_residual === 'true'),
+      params: {
+        invoice: invoiceId,
+        customer: customerId,
+        amount: -residualDiscount,
+        currency,
+        description: residualDescription,
+        tax_rates: '',
+        discountable: false,
+        metadata: {
+          ...metadata,
+          tax_fitter_adjustment: 'true',
+          tax_fitter_residual: 'true',
+          original_subtotal: subtotal.toString(),
+          target_total: targetTotal.toString(),
+          calculated_residual: residualDiscount.toString(),
+        },
+      },
+    });
+  }
+
+  return {
+    items,
+    // Earlier items this run does not reuse
+    deletions: [...unusedItems.keys()],
+    ...(coupon ? { coupon } : {}),
+    ...(discounts ? { discounts } : {}),
+    replacedItems: existingItems.length + replacedCoupons,
+  };
+}
+
+/**
+ * Send the invoice item, coupon and discount changes of a plan to Stripe
+ * @returns The result, and the saved items in the order of plan.items
+ * @throws InvalidInputError if the plan has no adjustment item or coupon
+ * @throws StripeApiError if a Stripe request fails
+ */
+export async function executePlan(
+  stripe: Stripe,
+  plan: StripeAdjustmentPlan,
+  idempotencyKey: string | undefined
+): Promise<{ result: StripeAdjustmentResult; savedItems: Stripe.InvoiceItem[] }> {
+  // Check before anything is written, so a bad plan leaves the invoice as it is
+  if (!plan.coupon && !plan.items.some((planned) => planned.kind !== 'residual')) {
+    throw new InvalidInputError(
+      `No adjustment item was planned for invoice ${plan.invoiceId}.`,
+      plan.invoiceId
+    );
+  }
+
+  let invoiceItem: Stripe.InvoiceItem | undefined;
+  let residualItem: Stripe.InvoiceItem | undefined;
+  const allocatedItems: StripeAllocatedItem[] = [];
+  const savedItems: Stripe.InvoiceItem[] = [];
+
+  for (const planned of plan.items) {
+    const suffix = planned.kind === 'allocation' ? `line:${planned.lineId ?? ''}` : planned.kind;
+    const item = await saveItem(
+      stripe,
+      plan.invoiceId,
+      planned,
+      idempotencyKey && `${idempotencyKey}:${suffix}`
+    );
+    savedItems.push(item);
+
+    if (planned.kind === 'residual') {
+      residualItem = item;
+      continue;
+    }
+    invoiceItem ??= item;
+    if (planned.kind === 'allocation' && planned.lineId) {
+      allocatedItems.push({
+        lineId: planned.lineId,
+        discount: -(planned.params.amount ?? 0),
+        invoiceItem: item,
+      });
+    }
+  }
+
+  // Attach the new coupon after the discounts that stay, dropping earlier adjustment coupons
+  let coupon: Stripe.Coupon | undefined;
+  if (plan.coupon) {
+    const params = plan.coupon;
+    coupon = await callStripe(plan.invoiceId, () =>
+      stripe.coupons.create(
+        params,
+        ...requestOptions(idempotencyKey && `${idempotencyKey}:coupon`)
+      )
+    );
+  }
+  if (plan.discounts) {
+    const discounts = toDiscountsParam([
+      ...plan.discounts.kept,
+      ...(coupon ? [{ coupon: coupon.id }] : []),
+    ]);
+    await callStripe(plan.invoiceId, () =>
+      stripe.invoices.update(
+        plan.invoiceId,
+        { discounts },
+        ...requestOptions(idempotencyKey && `${idempotencyKey}:discounts`)
+      )
+    );
+  }
+
+  // Remove earlier items this run did not reuse
+  for (const itemId of plan.deletions) {
+    await callStripe(plan.invoiceId, () =>
+      stripe.invoiceItems.del(
+        itemId,
+        ...requestOptions(idempotencyKey && `${idempotencyKey}:delete:${itemId}`)
+      )
+    );
+  }
+
+  const result: StripeAdjustmentResult = {
+    ...(invoiceItem ? { invoiceItem } : {}),
+    ...(coupon ? { coupon } : {}),
+    ...(allocatedItems.length > 0 ? { allocatedItems } : {}),
+    residualItem,
+    currency: plan.currency,
+    taxRate: plan.taxRate,
+    pricingMode: plan.pricingMode,
+    discount: plan.discount,
+    residualDiscount: plan.residualDiscount,
+    adjustedSubtotal: plan.adjustedSubtotal,
+    taxAmount: plan.taxAmount,
+    finalTotal: plan.finalTotal,
+    amountDue: plan.amountDue,
+    untaxedAmount: plan.untaxedAmount,
+    replacedItems: plan.replacedItems,
+    ...(plan.trace ? { trace: plan.trace } : {}),
+  };
+  return { result, savedItems };
+}
+
+/**
+ * Update an earlier adjustment item in place, or create a new one
+ */
+async function saveItem(
+  stripe: Stripe,
+  invoiceId: string,
+  planned: PlannedInvoiceItem,
+  idempotencyKey: string | undefined
+): Promise<Stripe.InvoiceItem> {
+  const { invoiceItemId } = planned;
+  if (planned.action === 'create' || !invoiceItemId) {
+    const { tax_rates: taxRates, ...params } = planned.params;
+    const item = await callStripe(invoiceId, () =>
+      stripe.invoiceItems.create(
+        { ...params, ...(taxRates ? { tax_rates: taxRates } : {}) },
+        ...requestOptions(idempotencyKey)
+      )
+    );
+    if (taxRates !== '') {
+      return item;
+    }
+
+    return callStripe(invoiceId, () =>
+      stripe.invoiceItems.update(
+        item.id,
+        { tax_rates: '' },
+        ...requestOptions(idempotencyKey && `${idempotencyKey}:tax-rates`)
+      )
+    );
+  }
+
+  // The invoice, customer and currency of an item cannot change
+  const { amount, description, tax_rates: taxRates, discountable, metadata } = planned.params;
+  return callStripe(invoiceId, () =>
+    stripe.invoiceItems.update(
+      invoiceItemId,
+      {
+        amount,
+        description,
+        ...(taxRates !== undefined ? { tax_rates: taxRates } : {}),
+        ...(discountable !== undefined ? { discountable } : {}),
+        metadata,
+      },
+      ...requestOptions(idempotencyKey)
+    )
+  );
+}
+
+/**
+ * List every line of an invoice, paging past the lines embedded in the invoice
+ */
+export async function listInvoiceLines(
+  stripe: Stripe,
+  invoice: Stripe.Invoice
+): Promise<Stripe.InvoiceLineItem[]> {
+  const lines = [...(invoice.lines?.data ?? [])];
+  let hasMore = invoice.lines?.has_more ?? false;
+
+  while (hasMore) {
+    const startingAfter = lines[lines.length - 1]?.id;
+    const page = await callStripe(invoice.id, () =>
+      stripe.invoices.listLineItems(invoice.id, {
+        limit: 100,
+        ...(startingAfter ? { starting_after: startingAfter } : {}),
+      })
+    );
+    lines.push(...page.data);
+    hasMore = page.has_more && page.data.length > 0;
+  }
+
+  return lines;
+}
+
+/**
+ * Send a Stripe request, wrapping any failure in a StripeApiError
+ */
+export async function callStripe<T>(invoiceId: string, request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    throw new StripeApiError(invoiceId, error);
+  }
+}
+
+/**
+ * Whether an invoice line is an item created by an earlier TaxFitter adjustment
+ */
+export function isAdjustmentLine(line: Stripe.InvoiceLineItem): boolean {
+  return line.metadata?.tax_fitter_adjustment === 'true';
+}
+
+/**
+ * Whether an invoice discount uses a coupon created by an earlier TaxFitter adjustment
+ */
+export function isAdjustmentDiscount(discount: Stripe.Discount): boolean {
+  return discount.coupon?.metadata?.tax_fitter_adjustment === 'true';
+}
+
+/**
+ * ID of the invoice item behind an invoice line, if it is one
+ */
+function invoiceItemId(line: Stripe.InvoiceLineItem): string | undefined {
+  return typeof line.invoice_item === 'string' ? line.invoice_item : line.invoice_item?.id;
+}
+
+/**
+ * Discounts for an invoice update; an empty string clears them, since an
+ * empty array would be dropped from the request
+ */
+export function toDiscountsParam(
+  discounts: Stripe.InvoiceUpdateParams.Discount[]
+): Stripe.Emptyable<Stripe.InvoiceUpdateParams.Discount[]> {
+  return discounts.length > 0 ? discounts : '';
+}
+
+/**
+ * Request options carrying an idempotency key; empty without a key so calls
+ * stay identical to ones made without options
+ */
+export function requestOptions(idempotencyKey: string | undefined): [Stripe.RequestOptions?] {
+  return idempotencyKey ? [{ idempotencyKey }] : [];
+}
@@ -0,0 +1,146 @@
+import type Stripe from 'stripe';
+import { isSameRate, toRationalRate } from '@tax-fitter/core';
+import type { PricingMode, RationalRate } from '@tax-fitter/core';
+import { InvalidInputError } from './errors';
+
+/**
+ * Tax rate read from a Stripe invoice
+ */
+export interface InvoiceTaxRate {
+  /**
+   * The rate as an exact rational (e.g., 8.25% is 33/400)
+   */
+  taxRate: RationalRate;
+
+  /**
+   * 'inclusive' when the Stripe tax rate is inclusive, otherwise 'exclusive'
+   */
+  pricingMode: PricingMode;
+
+  /**
+   * ID of the Stripe tax rate, used to tax the adjustment the same way
+   */
+  taxRateId: string;
+}
+
+/**
+ * Convert a Stripe tax rate percentage (e.g., 8.25) to an exact rational rate
+ * @param percentage - Percentage as returned by Stripe
+ * @returns The rate as a rational (e.g., 33/400)
+ * @throws RangeError if the percentage is not finite
+ */
+export function percentageToTaxRate(percentage: number): RationalRate {
+  const { numerator, denominator } = toRationalRate(percentage);
+  return toRationalRate({ numerator, denominator: denominator * 100 });
+}
+
+/**
+ * Read the effective tax rate and pricing mode from a Stripe invoice
+ *
+ * Each line is taxed with its own tax_rates, or the invoice's default_tax_rates
+ * when it has none. Every taxed line must carry exactly one rate, and all lines
+ * must agree on the percentage and the inclusive flag. Rates referenced by
+ * total_tax_amounts must also agree. Non-taxable residual lines created by
+ * TaxFitter are ignored.
+ *
+ * @param invoice - The retrieved invoice
+ * @param lines - Every line of the invoice
+ * @returns The rate, or undefined if the invoice carries no tax rates at all
+ * @throws InvalidInputError if the invoice uses automatic tax, stacks several rates on one line,
+ *   or mixes different rates or inclusive settings
+ */
+export function resolveInvoiceTaxRate(
+  invoice: Stripe.Invoice,
+  lines: Stripe.InvoiceLineItem[]
+): InvoiceTaxRate | undefined {
+  if (invoice.automatic_tax?.enabled) {
+    throw new InvalidInputError(
+      `Invoice ${invoice.id} uses automatic tax. Its tax rate cannot be derived; pass taxRate instead.`,
+      invoice.id
+    );
+  }
+
+  const defaultRates = invoice.default_tax_rates ?? [];
+  const rates: Stripe.TaxRate[] = [];
+
+  for (const line of lines) {
+    if (line.metadata?.tax_fitter_residual === 'true') continue;
+
+    const lineRates = line.tax_rates?.length ? line.tax_rates : defaultRates;
+    if (lineRates.length > 1) {
+      throw new InvalidInputError(
+        `Invoice ${invoice.id} line ${line.id} has ${lineRates.length} tax rates. ` +
+          'Adjustments can only be derived for a single tax rate per line.',
+        invoice.id
+      );
+    }
+    rates.push(...lineRates);
+  }
+
+  // No lines to inspect: fall back to the invoice defaults
+  if (rates.length === 0) {
+    if (defaultRates.length > 1) {
+      throw new InvalidInputError(
+        `Invoice ${invoice.id} has ${defaultRates.length} default tax rates. ` +
+          'Adjustments can only be derived for a single tax rate.',
+        invoice.id
+      );
+    }
+    rates.push(...defaultRates);
+  }
+
+  // Expanded rates from the tax totals also count; bare IDs are checked below
+  for (const { tax_rate: taxRate } of invoice.total_tax_amounts ?? []) {
+    if (typeof taxRate === 'object') {
+      rates.push(taxRate);
+    }
+  }
+
+  const [first] = rates;
+  if (!first) {
+    if ((invoice.total_tax_amounts ?? []).length > 0) {
+      throw new InvalidInputError(
+        `Invoice ${invoice.id} has tax amounts but no expanded tax rates. ` +
+          'Expand total_tax_amounts.tax_rate or pass taxRate.',
+        invoice.id
+      );
+    }
+    return undefined;
+  }
+
+  const resolved: InvoiceTaxRate = {
+    taxRate: percentageToTaxRate(first.percentage),
+    pricingMode: first.inclusive ? 'inclusive' : 'exclusive',
+    taxRateId: first.id,
+  };
+
+  for (const rate of rates) {
+    if (!isSameRate(percentageToTaxRate(rate.percentage), resolved.taxRate)) {
+      throw new InvalidInputError(
+        `Invoice ${invoice.id} mixes tax rates (${first.percentage}% and ${rate.percentage}%). ` +
+          'Adjustments can only be derived for a single tax rate.',
+        invoice.id
+      );
+    }
+    if (rate.inclusive !== first.inclusive) {
+      throw new InvalidInputError(
+        `Invoice ${invoice.id} mixes inclusive and exclusive tax rates. ` +
+          'Adjustments can only be derived for a single pricing mode.',
+        invoice.id
+      );
+    }
+  }
+
+  const knownIds = new Set(rates.map((rate) => rate.id));
+  for (const { tax_rate: taxRate } of invoice.total_tax_amounts ?? []) {
+    if (typeof taxRate === 'string' && !knownIds.has(taxRate)) {
+      throw new InvalidInputError(
+        `Invoice ${invoice.id} has tax from rate ${taxRate}, which is not applied to any line. ` +
+          'Expand total_tax_amounts.tax_rate or pass taxRate.',
+        invoice.id
+      );
+    }
+  }
+
+  return resolved;
+}
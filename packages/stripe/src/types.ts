@@ -1,5 +1,27 @@
 import type Stripe from 'stripe';
-import type { RoundMode } from '@tax-fitter/core';
+import type { AdjustmentTrace, PricingMode, RoundMode, TaxRate } from '@tax-fitter/core';
+
+/**
+ * How the discount is added to the invoice
+ * - 'lump': One invoice item for the whole discount
+ * - 'per-line': One invoice item per original line, allocated in proportion to the line amounts
+ */
+export type AllocationMode = 'lump' | 'per-line';
+
+/**
+ * How the adjustment is applied to the invoice
+ * - 'invoice-item': A negative (or positive) invoice item
+ * - 'coupon': A one-off amount_off coupon attached to the invoice's discounts;
+ *   surcharges still use an invoice item
+ */
+export type AdjustmentStrategy = 'invoice-item' | 'coupon';
+
+/**
+ * Which invoice amount the target applies to
+ * - 'total': The invoice total
+ * - 'amount_due': The amount due after the customer balance (credits) and payments
+ */
+export type FitTarget = 'total' | 'amount_due';
 
 /**
  * Options for applying tax adjustments to Stripe invoices
@@ -12,13 +34,18 @@ export interface StripeAdjustmentOptions {
 
   /**
    * Target total amount including tax (in smallest currency unit, e.g., cents)
+   * Must be an integer accepted by Stripe for the invoice currency
+   * (a multiple of 10 for three-decimal currencies such as KWD)
    */
   targetTotal: number;
 
   /**
-   * Tax rate as a decimal (e.g., 0.1 for 10%)
+   * Tax rate as a decimal (e.g., 0.1 for 10%) or an exact rational
+   *
+   * When omitted, the rate and inclusive setting are read from the invoice's
+   * tax rates. When given, it must match the invoice's tax rates (if any).
    */
-  taxRate: number;
+  taxRate?: TaxRate;
 
   /**
    * Rounding mode for tax calculations
@@ -36,6 +63,58 @@ export interface StripeAdjustmentOptions {
    * Optional metadata to attach to the invoice item
    */
   metadata?: Record<string, string>;
+
+  /**
+   * When the target cannot be reached exactly, add a second, non-taxable
+   * invoice item for the remaining difference
+   * @default false
+   */
+  allowResidual?: boolean;
+
+  /**
+   * Description for the non-taxable residual line item
+   * @default 'Rounding adjustment'
+   */
+  residualDescription?: string;
+
+  /**
+   * Whether to add the discount as one item or spread it across the invoice lines
+   * @default 'lump'
+   */
+  allocation?: AllocationMode;
+
+  /**
+   * Idempotency key for the Stripe requests made by this adjustment
+   * (a suffix is appended per request, so each request has its own key)
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Retrieve the invoice after applying the adjustment and check that Stripe's
+   * total equals targetTotal; if not, undo the changes and throw AdjustmentMismatchError
+   * @default false
+   */
+  verify?: boolean;
+
+  /**
+   * Whether to apply the discount as an invoice item or a coupon
+   * ('coupon' cannot be combined with 'per-line' allocation)
+   * @default 'invoice-item'
+   */
+  strategy?: AdjustmentStrategy;
+
+  /**
+   * Which invoice amount targetTotal applies to
+   * @default 'total'
+   */
+  fitTo?: FitTarget;
+
+  /**
+   * Return the calculation trace and store a summary of it in the adjustment's
+   * tax_fitter_trace metadata (cut to Stripe's 500-character limit)
+   * @default false
+   */
+  explain?: boolean;
 }
 
 /**
@@ -43,15 +122,51 @@ export interface StripeAdjustmentOptions {
  */
 export interface StripeAdjustmentResult {
   /**
-   * The created Stripe invoice item
+   * The created Stripe invoice item (the first allocated item with 'per-line' allocation;
+   * undefined when the discount was applied as a coupon)
    */
-  invoiceItem: Stripe.InvoiceItem;
+  invoiceItem?: Stripe.InvoiceItem;
+
+  /**
+   * The created coupon (only with the 'coupon' strategy)
+   */
+  coupon?: Stripe.Coupon;
+
+  /**
+   * Every created per-line item, keyed to its invoice line (only with 'per-line' allocation)
+   */
+  allocatedItems?: StripeAllocatedItem[];
+
+  /**
+   * The created non-taxable residual invoice item, if a residual was needed
+   */
+  residualItem?: Stripe.InvoiceItem;
+
+  /**
+   * The invoice currency (lower-case, as returned by Stripe)
+   */
+  currency: string;
+
+  /**
+   * The tax rate the adjustment was calculated with
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Whether the invoice amounts include tax
+   */
+  pricingMode: PricingMode;
 
   /**
    * The calculated discount amount
    */
   discount: number;
 
+  /**
+   * The non-taxable residual discount (0 when the target was reached exactly)
+   */
+  residualDiscount: number;
+
   /**
    * The adjusted subtotal
    */
@@ -63,7 +178,302 @@ export interface StripeAdjustmentResult {
   taxAmount: number;
 
   /**
-   * The final total
+   * The final invoice total, including non-taxable lines
    */
   finalTotal: number;
+
+  /**
+   * The expected amount due after the customer balance and payments
+   */
+  amountDue: number;
+
+  /**
+   * Net amount of the invoice lines without tax rates (not adjusted)
+   */
+  untaxedAmount: number;
+
+  /**
+   * Number of items from earlier adjustments that were updated or deleted
+   */
+  replacedItems: number;
+
+  /**
+   * How the discount was found (only with explain); the subtotal and target
+   * cover the taxed lines only
+   */
+  trace?: AdjustmentTrace;
+}
+
+/**
+ * An invoice item created for one invoice line with 'per-line' allocation
+ */
+export interface StripeAllocatedItem {
+  /**
+   * ID of the invoice line the discount was allocated to
+   */
+  lineId: string;
+
+  /**
+   * Discount allocated to the line
+   */
+  discount: number;
+
+  /**
+   * The created Stripe invoice item
+   */
+  invoiceItem: Stripe.InvoiceItem;
+}
+
+/**
+ * Options for StripeBillingAdapter, applied to every invoice it adjusts
+ */
+export type StripeBillingAdapterOptions = Pick<
+  StripeAdjustmentOptions,
+  'allocation' | 'strategy' | 'fitTo' | 'verify'
+>;
+
+/**
+ * A Stripe invoice with every one of its lines, as loaded by StripeBillingAdapter
+ */
+export interface StripeInvoiceDocument {
+  /**
+   * The invoice
+   */
+  invoice: Stripe.Invoice;
+
+  /**
+   * All invoice lines, including those past the first page
+   */
+  lines: Stripe.InvoiceLineItem[];
+}
+
+/**
+ * An invoice item change planned by previewAdjustment
+ */
+export interface PlannedInvoiceItem {
+  /**
+   * What the item is for
+   * - 'adjustment': The taxable discount as one item
+   * - 'allocation': The share of the discount for one invoice line
+   * - 'residual': The non-taxable residual
+   */
+  kind: 'adjustment' | 'allocation' | 'residual';
+
+  /**
+   * Whether a new item is created or an item from an earlier adjustment is updated
+   */
+  action: 'create' | 'update';
+
+  /**
+   * ID of the item to update (only for 'update')
+   */
+  invoiceItemId?: string;
+
+  /**
+   * Amount of the item before the update (only for 'update')
+   */
+  previousAmount?: number;
+
+  /**
+   * ID of the invoice line the share belongs to (only for 'allocation')
+   */
+  lineId?: string;
+
+  /**
+   * Parameters for the item (for updates, the invoice, customer and currency stay as they are)
+   *
+   * tax_rates is '' for items the invoice's default tax rates must not apply to:
+   * an empty array is dropped when the request is encoded. Only updates accept '',
+   * so a new item is created without tax rates and then updated.
+   */
+  params: Omit<Stripe.InvoiceItemCreateParams, 'tax_rates'> & {
+    tax_rates?: Stripe.Emptyable<string[]>;
+  };
+}
+
+/**
+ * Adjustment planned for a Stripe invoice, before anything is changed
+ */
+export interface StripeAdjustmentPlan {
+  /**
+   * The invoice the plan is for
+   */
+  invoiceId: string;
+
+  /**
+   * The invoice currency (lower-case, as returned by Stripe)
+   */
+  currency: string;
+
+  /**
+   * The tax rate the adjustment was calculated with
+   */
+  taxRate: TaxRate;
+
+  /**
+   * Whether the invoice amounts include tax
+   */
+  pricingMode: PricingMode;
+
+  /**
+   * The taxable subtotal before any adjustment: existing discounts are subtracted,
+   * and earlier adjustment items and lines without tax rates are excluded
+   */
+  subtotal: number;
+
+  /**
+   * Net amount of the invoice lines without tax rates (not adjusted)
+   */
+  untaxedAmount: number;
+
+  /**
+   * Which invoice amount the target applies to
+   */
+  fitTo: FitTarget;
+
+  /**
+   * The calculated discount amount
+   */
+  discount: number;
+
+  /**
+   * The non-taxable residual discount (0 when the target is reached exactly)
+   */
+  residualDiscount: number;
+
+  /**
+   * The expected adjusted subtotal
+   */
+  adjustedSubtotal: number;
+
+  /**
+   * The expected tax amount
+   */
+  taxAmount: number;
+
+  /**
+   * The expected final invoice total, including non-taxable lines
+   */
+  finalTotal: number;
+
+  /**
+   * The expected amount due after the customer balance and payments
+   */
+  amountDue: number;
+
+  /**
+   * Invoice items to create or update, in order
+   */
+  items: PlannedInvoiceItem[];
+
+  /**
+   * IDs of earlier adjustment items to delete
+   */
+  deletions: string[];
+
+  /**
+   * Coupon to create and attach to the invoice (only with the 'coupon' strategy)
+   */
+  coupon?: Stripe.CouponCreateParams;
+
+  /**
+   * Change to the invoice's discounts, set when a coupon is attached or an
+   * earlier adjustment coupon is removed
+   */
+  discounts?: PlannedDiscounts;
+
+  /**
+   * Number of items from earlier adjustments that will be updated or deleted
+   */
+  replacedItems: number;
+
+  /**
+   * How the discount was found (only with explain); the subtotal and target
+   * cover the taxed lines only
+   */
+  trace?: AdjustmentTrace;
+}
+
+/**
+ * Change to an invoice's discounts planned by previewAdjustment
+ */
+export interface PlannedDiscounts {
+  /**
+   * Discounts that stay on the invoice (the new coupon is added after them)
+   */
+  kept: Stripe.InvoiceUpdateParams.Discount[];
+
+  /**
+   * Discounts on the invoice before the change, restored on rollback
+   */
+  previous: Stripe.InvoiceUpdateParams.Discount[];
+}
+
+/**
+ * Options for applying many adjustments with TaxFitter.applyAdjustments
+ */
+export interface BatchAdjustmentOptions {
+  /**
+   * Maximum number of invoices adjusted at the same time
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * How many times to retry an invoice after a Stripe rate-limit error
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds; doubled for each further retry
+   * @default 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * Upper bound for the delay between retries in milliseconds
+   * @default 30000
+   */
+  maxRetryDelay?: number;
+}
+
+/**
+ * Outcome of one invoice in a batch, in the same order as the input
+ */
+export type BatchAdjustmentOutcome =
+  | {
+      status: 'succeeded';
+      invoiceId: string;
+      result: StripeAdjustmentResult;
+      /**
+       * Number of attempts, including retries
+       */
+      attempts: number;
+    }
+  | {
+      status: 'failed';
+      invoiceId: string;
+      error: unknown;
+      attempts: number;
+    };
+
+/**
+ * Per-invoice report returned by TaxFitter.applyAdjustments
+ */
+export interface BatchAdjustmentReport {
+  /**
+   * One outcome per input, in the same order
+   */
+  outcomes: BatchAdjustmentOutcome[];
+
+  /**
+   * Number of invoices adjusted
+   */
+  succeeded: number;
+
+  /**
+   * Number of invoices that failed
+   */
+  failed: number;
 }
@@ -0,0 +1,146 @@
+import type Stripe from 'stripe';
+import { TaxFitter } from './adjuster';
+import {
+  isAdjustmentDiscount,
+  isAdjustmentLine,
+  listInvoiceLines,
+  retrieveInvoice,
+} from './invoice';
+import type { StripeAdjustmentOptions, StripeAdjustmentResult } from './types';
+
+/**
+ * Options for createInvoiceWebhookHandler
+ */
+export interface InvoiceWebhookOptions {
+  /**
+   * Resolve the target total for an invoice (e.g., from subscription or price metadata)
+   * Return undefined to leave the invoice unchanged.
+   */
+  resolveTargetTotal: (
+    invoice: Stripe.Invoice,
+    event: Stripe.Event
+  ) => number | undefined | Promise<number | undefined>;
+
+  /**
+   * Event types to handle
+   * @default ['invoice.created']
+   */
+  events?: Stripe.Event.Type[];
+
+  /**
+   * Derive the idempotency key for an event's adjustment
+   * Keys must differ between invoices, so they come from the event rather than
+   * the shared adjustment options.
+   * @default (event) => `tax-fitter:${event.id}`
+   */
+  idempotencyKey?: (event: Stripe.Event) => string;
+
+  /**
+   * Options passed to applyAdjustment for every invoice
+   */
+  adjustment?: Omit<StripeAdjustmentOptions, 'invoiceId' | 'targetTotal' | 'idempotencyKey'>;
+}
+
+/**
+ * Why the webhook handler left an invoice unchanged
+ * - 'unhandled-event': The event type is not handled or carries no invoice
+ * - 'not-draft': The invoice is no longer a draft
+ * - 'already-adjusted': The invoice already has a TaxFitter adjustment
+ * - 'no-target': resolveTargetTotal returned undefined
+ */
+export type InvoiceWebhookSkipReason =
+  | 'unhandled-event'
+  | 'not-draft'
+  | 'already-adjusted'
+  | 'no-target';
+
+/**
+ * Outcome of handling one webhook event
+ */
+export type InvoiceWebhookResult =
+  | {
+      status: 'adjusted';
+      invoiceId: string;
+      result: StripeAdjustmentResult;
+    }
+  | {
+      status: 'skipped';
+      reason: InvoiceWebhookSkipReason;
+      invoiceId?: string;
+    };
+
+/**
+ * Handles one verified Stripe event
+ */
+export type InvoiceWebhookHandler = (event: Stripe.Event) => Promise<InvoiceWebhookResult>;
+
+/**
+ * Create a handler that adjusts draft invoices from Stripe webhook events
+ *
+ * The handler takes an event already verified with stripe.webhooks.constructEvent,
+ * so it works with any HTTP framework. For each handled event it:
+ * 1. Retrieves the invoice again (the event payload may be stale on retries)
+ * 2. Skips invoices that are not drafts or already carry a TaxFitter adjustment
+ * 3. Resolves the target total with resolveTargetTotal
+ * 4. Applies the adjustment with TaxFitter.applyAdjustment
+ *
+ * Errors from Stripe or the adjustment are thrown, so the endpoint can respond
+ * with an error status and Stripe retries the event.
+ *
+ * @param stripe - Stripe instance
+ * @param options - Webhook options
+ * @returns The event handler
+ */
+export function createInvoiceWebhookHandler(
+  stripe: Stripe,
+  options: InvoiceWebhookOptions
+): InvoiceWebhookHandler {
+  const {
+    resolveTargetTotal,
+    events = ['invoice.created'],
+    idempotencyKey = (event: Stripe.Event) => `tax-fitter:${event.id}`,
+    adjustment,
+  } = options;
+  const fitter = new TaxFitter(stripe);
+
+  return async (event) => {
+    const object = event.data.object;
+    if (!events.includes(event.type) || !('object' in object) || object.object !== 'invoice') {
+      return { status: 'skipped', reason: 'unhandled-event' };
+    }
+
+    const invoiceId = (object as Stripe.Invoice).id;
+    const invoice = await retrieveInvoice(stripe, invoiceId);
+
+    if (invoice.status !== 'draft') {
+      return { status: 'skipped', reason: 'not-draft', invoiceId };
+    }
+
+    const lines = await listInvoiceLines(stripe, invoice);
+    const hasAdjustment =
+      lines.some(isAdjustmentLine) ||
+      (invoice.discounts ?? []).some(
+        (discount) =>
+          typeof discount !== 'string' &&
+          !('deleted' in discount && discount.deleted) &&
+          isAdjustmentDiscount(discount)
+      );
+    if (hasAdjustment) {
+      return { status: 'skipped', reason: 'already-adjusted', invoiceId };
+    }
+
+    const targetTotal = await resolveTargetTotal(invoice, event);
+    if (targetTotal === undefined) {
+      return { status: 'skipped', reason: 'no-target', invoiceId };
+    }
+
+    const result = await fitter.applyAdjustment({
+      ...adjustment,
+      invoiceId,
+      targetTotal,
+      idempotencyKey: idempotencyKey(event),
+    });
+
+    return { status: 'adjusted', invoiceId, result };
+  };
+}
@@ -0,0 +1,41 @@
+import { vi } from 'vitest';
+import type Stripe from 'stripe';
+
+/**
+ * A draft invoice with a customer, as most adjustment tests start from
+ */
+export const draftInvoice = {
+  id: 'in_test123',
+  status: 'draft',
+  subtotal: 40000,
+  customer: 'cus_test123',
+  currency: 'jpy',
+} as Stripe.Invoice;
+
+/**
+ * Create a Stripe client whose methods are vitest mocks
+ *
+ * Retrieving an invoice resolves to `invoice`, creating an invoice item or a
+ * coupon resolves to `ii_new` or `co_new`, and updating or deleting an invoice
+ * item resolves to the item's ID. Override single methods with `vi.spyOn`.
+ *
+ * @param invoice - The invoice every retrieve resolves to
+ */
+export function createMockStripe(invoice: Partial<Stripe.Invoice> = draftInvoice): Stripe {
+  return {
+    invoices: {
+      retrieve: vi.fn().mockResolvedValue(invoice),
+      listLineItems: vi.fn(),
+      update: vi.fn(),
+    },
+    coupons: {
+      create: vi.fn().mockResolvedValue({ id: 'co_new' }),
+      del: vi.fn(),
+    },
+    invoiceItems: {
+      create: vi.fn().mockResolvedValue({ id: 'ii_new' }),
+      update: vi.fn(async (id: string) => ({ id })),
+      del: vi.fn(async (id: string) => ({ id, deleted: true })),
+    },
+  } as unknown as Stripe;
+}